@@ -5,6 +5,23 @@ return {
   cmd = { "bun", "run", vim.fn.expand("~/src/tries/2026-02-27-elm-land-nvim/elm-land-lsp/bin/elm-land-lsp.ts") },
   filetypes = { "elm" },
   root_markers = { "elm.json" },
+  -- Optional. Elm Land projects compile `.elm-land/src/Main.elm` for
+  -- diagnostics; other projects list their entry points here. Both kinds
+  -- of inlay hints are on by default.
+  init_options = {
+    diagnostics = { mode = "project", entryPoints = { "Main" } },
+    inlayHints = { types = true, parameterNames = false },
+  },
+  -- Code lenses ask the client to show references the way VS Code does;
+  -- list them in the quickfix window instead
+  commands = {
+    ["editor.action.showReferences"] = function(command, ctx)
+      local client = vim.lsp.get_client_by_id(ctx.client_id)
+      local items = vim.lsp.util.locations_to_items(command.arguments[3], client.offset_encoding)
+      vim.fn.setqflist({}, " ", { title = command.title, items = items })
+      vim.cmd.copen()
+    end,
+  },
 }
 
 -- Then add to your init.lua (or after/plugin/lsp.lua):
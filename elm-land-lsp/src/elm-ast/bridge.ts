@@ -1,67 +1,219 @@
+import * as os from "os";
 import type { Ast } from "./types";
 
-type QueueItem = {
+// A parse either succeeds, fails on a syntax error, is dropped without
+// running because a newer parse with the same key was queued behind it, or
+// crashes or times out, which says nothing about the source
+export type ParseResult =
+  | { kind: "success"; ast: Ast }
+  | { kind: "failure"; error: string }
+  | { kind: "dropped" }
+  | { kind: "crashed"; error: string };
+
+// Interactive parses (the documents being edited) run before background
+// ones (indexing the project)
+export type ParsePriority = "interactive" | "background";
+
+export type ParseOptions = {
+  // Waiting parses with the same key replace each other, e.g. successive
+  // versions of one document. Parses without a key are never dropped.
+  key?: string;
+  priority?: ParsePriority;
+};
+
+// One source waiting for a worker, and everyone waiting for its result
+type Job = {
+  key: string;
   source: string;
-  resolve: (ast: Ast | undefined) => void;
+  priority: ParsePriority;
+  order: number;
+  waiting: ((result: ParseResult) => void)[];
 };
 
-type WorkerState =
-  | { tag: "idle" }
-  | { tag: "busy"; resolve: (ast: Ast | undefined) => void; queue: QueueItem[] };
+// Jobs that haven't started, by key
+const queued = new Map<string, Job>();
+let nextOrder = 0;
+let nextAnonymousKey = 0;
 
-let state: WorkerState = { tag: "idle" };
-let worker: Worker;
+// A parser worker and the job it's running, if any
+type ParserWorker = {
+  worker: Worker;
+  ready: Promise<void>;
+  job?: Job;
+  timer?: Timer;
+};
 
-function initWorker(): void {
-  worker = new Worker(new URL("./worker.ts", import.meta.url).href);
+export type ParserOptions = {
+  // Workers to parse with at once
+  workers?: number;
+  // How long one parse may take before its worker is restarted
+  timeoutMs?: number;
+};
 
-  worker.onmessage = (event) => {
-    if (state.tag !== "busy") return;
+export type ParserStatus = {
+  workers: number;
+  busy: number;
+  queued: number;
+  parsed: number;
+  failed: number;
+  dropped: number;
+  crashes: number;
+  timeouts: number;
+};
 
-    const { resolve, queue } = state;
-    const msg = event.data;
+// Leave a core for the server itself
+let options: Required<ParserOptions> = {
+  workers: Math.max(1, Math.min(4, os.availableParallelism() - 1)),
+  timeoutMs: 10_000,
+};
 
-    if (msg.kind === "success") {
-      resolve(msg.ast);
-    } else {
-      resolve(undefined);
-    }
+const pool: ParserWorker[] = [];
+const counters = { parsed: 0, failed: 0, dropped: 0, crashes: 0, timeouts: 0 };
+
+// Shorter timeouts would restart workers in the middle of ordinary parses
+const MIN_TIMEOUT_MS = 100;
+
+export function configureParser(settings: ParserOptions = {}): void {
+  const { workers = options.workers, timeoutMs = options.timeoutMs } = settings;
+  options = {
+    // Without a worker nothing would ever parse
+    workers: Number.isFinite(workers) ? Math.max(1, Math.floor(workers)) : options.workers,
+    timeoutMs: Number.isFinite(timeoutMs) ? Math.max(MIN_TIMEOUT_MS, timeoutMs) : options.timeoutMs,
+  };
+  runNext();
+}
+
+export function parserStatus(): ParserStatus {
+  return {
+    workers: pool.length,
+    busy: pool.filter((w) => w.job).length,
+    queued: queued.size,
+    ...counters,
+  };
+}
+
+function spawnWorker(): ParserWorker {
+  const worker = new Worker(new URL("./worker.ts", import.meta.url).href);
+  let markReady: () => void;
+  const entry: ParserWorker = { worker, ready: new Promise((resolve) => (markReady = resolve)) };
 
-    if (queue.length > 0) {
-      const next = queue[queue.length - 1]!;
-      // Discard intermediate queued items — only process the latest
-      for (let i = 0; i < queue.length - 1; i++) {
-        queue[i]!.resolve(undefined);
-      }
-      state = { tag: "busy", resolve: next.resolve, queue: [] };
-      worker.postMessage(next.source);
+  worker.onmessage = (event) => {
+    const msg = event.data;
+    if (msg.kind === "ready") {
+      markReady();
+      return;
+    }
+    if (msg.kind === "success") {
+      finish(entry, { kind: "success", ast: msg.ast });
     } else {
-      state = { tag: "idle" };
+      finish(entry, { kind: "failure", error: msg.error });
     }
   };
 
   worker.onerror = () => {
-    if (state.tag === "busy") {
-      state.resolve(undefined);
-      const { queue } = state;
-      state = { tag: "idle" };
-      for (const item of queue) {
-        item.resolve(undefined);
-      }
-    }
-    // Re-init on next parse request
+    counters.crashes++;
+    retire(entry, "The parser crashed");
   };
+
+  pool.push(entry);
+  return entry;
+}
+
+function finish(entry: ParserWorker, result: ParseResult): void {
+  const job = entry.job;
+  if (!job) return;
+  clearTimeout(entry.timer);
+  entry.job = undefined;
+  if (result.kind === "success") counters.parsed++;
+  else if (result.kind === "failure") counters.failed++;
+  for (const resolve of job.waiting) resolve(result);
+  runNext();
+}
+
+// Stops a crashed or stuck worker, reporting its job as crashed. A fresh
+// worker takes its place when there's work for it.
+function retire(entry: ParserWorker, error: string): void {
+  const index = pool.indexOf(entry);
+  if (index === -1) return;
+  pool.splice(index, 1);
+  entry.worker.terminate();
+  finish(entry, { kind: "crashed", error });
+}
+
+function start(entry: ParserWorker, job: Job): void {
+  entry.job = job;
+  entry.ready.then(() => {
+    if (entry.job !== job) return;
+    entry.timer = setTimeout(() => {
+      counters.timeouts++;
+      retire(entry, "The parser timed out");
+    }, options.timeoutMs);
+    entry.worker.postMessage(job.source);
+  });
+}
+
+// Starts waiting jobs on idle workers, interactive before background, then
+// oldest first
+function runNext(): void {
+  while (queued.size > 0) {
+    const idle = pool.find((w) => !w.job) ?? (pool.length < options.workers ? spawnWorker() : undefined);
+    if (!idle) return;
+
+    let next: Job | undefined;
+    for (const job of queued.values()) {
+      if (!next || runsBefore(job, next)) next = job;
+    }
+    queued.delete(next!.key);
+    start(idle, next!);
+  }
+}
+
+function runsBefore(a: Job, b: Job): boolean {
+  if (a.priority !== b.priority) return a.priority === "interactive";
+  return a.order < b.order;
 }
 
-initWorker();
+export async function parse(source: string, options: ParseOptions = {}): Promise<Ast | undefined> {
+  const result = await parseWithResult(source, options);
+  return result.kind === "success" ? result.ast : undefined;
+}
 
-export function parse(source: string): Promise<Ast | undefined> {
+export function parseWithResult(source: string, options: ParseOptions = {}): Promise<ParseResult> {
   return new Promise((resolve) => {
-    if (state.tag === "idle") {
-      state = { tag: "busy", resolve, queue: [] };
-      worker.postMessage(source);
-    } else {
-      state.queue.push({ source, resolve });
+    const key = options.key ?? `#${nextAnonymousKey++}`;
+    const priority = options.priority ?? "interactive";
+    const existing = queued.get(key);
+
+    if (existing?.source === source) {
+      // Same text: share the result
+      existing.waiting.push(resolve);
+      if (priority === "interactive") existing.priority = "interactive";
+      return;
+    }
+
+    if (existing) {
+      counters.dropped++;
+      for (const waiting of existing.waiting) waiting({ kind: "dropped" });
     }
+    queued.set(key, {
+      key,
+      source,
+      // A newer version keeps the older one's place in line
+      priority: existing?.priority === "interactive" ? "interactive" : priority,
+      order: existing?.order ?? nextOrder++,
+      waiting: [resolve],
+    });
+    runNext();
   });
 }
+
+let version: Promise<string> | undefined;
+
+// Changes whenever the compiled parser does, so that ASTs saved by one
+// version aren't read back by another
+export function parserVersion(): Promise<string> {
+  version ??= Bun.file(new URL("./worker.min.js", import.meta.url).pathname)
+    .text()
+    .then((source) => Bun.hash(source).toString(36));
+  return version;
+}
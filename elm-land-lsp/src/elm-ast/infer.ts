@@ -0,0 +1,1279 @@
+import type { ModuleDoc } from "../project/elm-json";
+import {
+  type Ast,
+  type Node,
+  type Expression,
+  type Pattern,
+  type TypeAnnotation,
+  type Function_,
+  type Import,
+  type Range as ElmRange,
+  toModuleName,
+  patternDefinitionNames,
+} from "./types";
+
+// Hindley–Milner inference over the elm-syntax AST. Types from package
+// docs.json files and from signatures in project modules form the
+// environment; everything else is inferred. Unification failures are recorded
+// and skipped rather than aborting, so code that doesn't typecheck still gets
+// types for everything that could be worked out.
+
+// --- Types ---
+
+type Super = "number" | "comparable" | "appendable" | "compappend";
+
+export type TypeVar = {
+  kind: "var";
+  id: number;
+  level: number;
+  instance?: Type;
+  name?: string; // from a signature or docs, used when printing
+  super?: Super;
+};
+
+// Types that came from expanding an alias remember it, so they print as
+// `Model` rather than the record it stands for
+type AliasOrigin = { name: string; args: Type[] };
+
+export type Type =
+  | TypeVar
+  | { kind: "con"; name: string; args: Type[]; alias?: AliasOrigin }
+  | { kind: "fn"; from: Type; to: Type; alias?: AliasOrigin }
+  | { kind: "tuple"; items: Type[]; alias?: AliasOrigin }
+  | { kind: "record"; fields: Record<string, Type>; rest?: Type; alias?: AliasOrigin };
+
+export type Scheme = { vars: TypeVar[]; type: Type };
+
+class TypeMismatch extends Error {}
+
+let nextVarId = 0;
+
+function freshVar(level: number, name?: string): TypeVar {
+  const v: TypeVar = { kind: "var", id: nextVarId++, level };
+  if (name) {
+    v.name = name;
+    v.super = superOf(name);
+  }
+  return v;
+}
+
+function superOf(name: string): Super | undefined {
+  if (name.startsWith("number")) return "number";
+  if (name.startsWith("comparable")) return "comparable";
+  if (name.startsWith("appendable")) return "appendable";
+  if (name.startsWith("compappend")) return "compappend";
+  return undefined;
+}
+
+function con(name: string, args: Type[] = []): Type {
+  return { kind: "con", name, args };
+}
+
+function fn(from: Type, to: Type): Type {
+  return { kind: "fn", from, to };
+}
+
+const INT = con("Basics.Int");
+const FLOAT = con("Basics.Float");
+const BOOL = con("Basics.Bool");
+const STRING = con("String.String");
+const CHAR = con("Char.Char");
+const UNIT: Type = { kind: "tuple", items: [] };
+const list = (t: Type) => con("List.List", [t]);
+
+export function prune(t: Type): Type {
+  while (t.kind === "var" && t.instance) t = t.instance;
+  return t;
+}
+
+// --- Unification ---
+
+function unify(a: Type, b: Type): void {
+  a = prune(a);
+  b = prune(b);
+  if (a === b) return;
+
+  if (a.kind === "var") return bindVar(a, b);
+  if (b.kind === "var") return bindVar(b, a);
+
+  if (a.kind === "con" && b.kind === "con") {
+    if (a.name !== b.name || a.args.length !== b.args.length) throw new TypeMismatch();
+    a.args.forEach((arg, i) => unify(arg, b.args[i]!));
+  } else if (a.kind === "fn" && b.kind === "fn") {
+    unify(a.from, b.from);
+    unify(a.to, b.to);
+  } else if (a.kind === "tuple" && b.kind === "tuple") {
+    if (a.items.length !== b.items.length) throw new TypeMismatch();
+    a.items.forEach((item, i) => unify(item, b.items[i]!));
+  } else if (a.kind === "record" && b.kind === "record") {
+    unifyRecords(a, b);
+  } else {
+    throw new TypeMismatch();
+  }
+}
+
+function bindVar(v: TypeVar, t: Type): void {
+  if (t.kind === "var") {
+    const merged = mergeSupers(v.super, t.super);
+    if (merged === null) throw new TypeMismatch();
+    t.super = merged;
+    t.level = Math.min(t.level, v.level);
+    if (!t.name && v.name) t.name = v.name;
+    v.instance = t;
+    return;
+  }
+  if (occursIn(v, t)) throw new TypeMismatch();
+  if (v.super && !satisfies(t, v.super)) throw new TypeMismatch();
+  v.instance = t;
+}
+
+// Also lowers the level of every variable in `t` to `v`'s, so they are not
+// generalized at a deeper let than the one `v` belongs to
+function occursIn(v: TypeVar, t: Type): boolean {
+  t = prune(t);
+  switch (t.kind) {
+    case "var":
+      if (t === v) return true;
+      t.level = Math.min(t.level, v.level);
+      return false;
+    case "con": return t.args.some((arg) => occursIn(v, arg));
+    case "fn": return occursIn(v, t.from) || occursIn(v, t.to);
+    case "tuple": return t.items.some((item) => occursIn(v, item));
+    case "record":
+      return Object.values(t.fields).some((f) => occursIn(v, f)) || (t.rest ? occursIn(v, t.rest) : false);
+  }
+}
+
+function mergeSupers(a: Super | undefined, b: Super | undefined): Super | undefined | null {
+  if (!a) return b;
+  if (!b || a === b) return a;
+  const pair = [a, b].sort().join("+");
+  switch (pair) {
+    case "comparable+number": return "number";
+    case "appendable+comparable": return "compappend";
+    case "compappend+comparable": return "compappend";
+    case "appendable+compappend": return "compappend";
+    default: return null;
+  }
+}
+
+function satisfies(t: Type, s: Super): boolean {
+  t = prune(t);
+  if (t.kind === "var") {
+    const merged = mergeSupers(t.super, s);
+    if (merged === null) return false;
+    t.super = merged;
+    return true;
+  }
+  switch (s) {
+    case "number":
+      return t.kind === "con" && (t.name === "Basics.Int" || t.name === "Basics.Float");
+    case "appendable":
+      return t.kind === "con" && (t.name === "String.String" || t.name === "List.List");
+    case "compappend":
+      return t.kind === "con" &&
+        (t.name === "String.String" || (t.name === "List.List" && satisfies(t.args[0]!, "comparable")));
+    case "comparable":
+      if (t.kind === "tuple") return t.items.every((item) => satisfies(item, "comparable"));
+      if (t.kind !== "con") return false;
+      if (t.name === "List.List") return satisfies(t.args[0]!, "comparable");
+      return ["Basics.Int", "Basics.Float", "Char.Char", "String.String"].includes(t.name);
+  }
+}
+
+function flattenRecord(t: Type & { kind: "record" }): { fields: Record<string, Type>; rest?: TypeVar } {
+  const fields = { ...t.fields };
+  let rest = t.rest ? prune(t.rest) : undefined;
+  while (rest && rest.kind === "record") {
+    Object.assign(fields, rest.fields);
+    rest = rest.rest ? prune(rest.rest) : undefined;
+  }
+  if (rest && rest.kind !== "var") throw new TypeMismatch();
+  return { fields, rest };
+}
+
+function unifyRecords(a: Type & { kind: "record" }, b: Type & { kind: "record" }): void {
+  const ra = flattenRecord(a);
+  const rb = flattenRecord(b);
+  const onlyA: Record<string, Type> = {};
+  const onlyB: Record<string, Type> = {};
+
+  for (const [name, type] of Object.entries(ra.fields)) {
+    if (name in rb.fields) unify(type, rb.fields[name]!);
+    else onlyA[name] = type;
+  }
+  for (const [name, type] of Object.entries(rb.fields)) {
+    if (!(name in ra.fields)) onlyB[name] = type;
+  }
+
+  const hasA = Object.keys(onlyA).length > 0;
+  const hasB = Object.keys(onlyB).length > 0;
+  // Fields one side lacks must fit in the other side's extension variable
+  if ((hasA && !rb.rest) || (hasB && !ra.rest)) throw new TypeMismatch();
+
+  if (hasA && hasB) {
+    const rest = freshVar(Math.min(ra.rest!.level, rb.rest!.level));
+    unify(rb.rest!, { kind: "record", fields: onlyA, rest });
+    unify(ra.rest!, { kind: "record", fields: onlyB, rest });
+  } else if (hasA) {
+    unify(rb.rest!, { kind: "record", fields: onlyA, rest: ra.rest });
+  } else if (hasB) {
+    unify(ra.rest!, { kind: "record", fields: onlyB, rest: rb.rest });
+  } else if (ra.rest && rb.rest) {
+    unify(ra.rest, rb.rest);
+  } else if (ra.rest || rb.rest) {
+    unify((ra.rest ?? rb.rest)!, { kind: "record", fields: {} });
+  }
+}
+
+// --- Generalization ---
+
+function freeVars(t: Type, into: Set<TypeVar>): Set<TypeVar> {
+  t = prune(t);
+  switch (t.kind) {
+    case "var": into.add(t); break;
+    case "con": t.args.forEach((arg) => freeVars(arg, into)); break;
+    case "fn": freeVars(t.from, into); freeVars(t.to, into); break;
+    case "tuple": t.items.forEach((item) => freeVars(item, into)); break;
+    case "record":
+      Object.values(t.fields).forEach((f) => freeVars(f, into));
+      if (t.rest) freeVars(t.rest, into);
+      break;
+  }
+  if (t.kind !== "var" && t.alias) t.alias.args.forEach((arg) => freeVars(arg, into));
+  return into;
+}
+
+function generalize(t: Type, level: number): Scheme {
+  const vars = Array.from(freeVars(t, new Set())).filter((v) => v.level > level);
+  return { vars, type: t };
+}
+
+// Every free variable is quantified; for types read from docs or signatures
+function closedScheme(t: Type): Scheme {
+  return { vars: Array.from(freeVars(t, new Set())), type: t };
+}
+
+function instantiate(scheme: Scheme, level: number): Type {
+  if (scheme.vars.length === 0) return scheme.type;
+  const mapping = new Map<TypeVar, TypeVar>();
+  for (const v of scheme.vars) {
+    const copy = freshVar(level, v.name);
+    copy.super = v.super;
+    mapping.set(v, copy);
+  }
+  return substitute(scheme.type, mapping);
+}
+
+function substitute(t: Type, mapping: Map<TypeVar, Type>): Type {
+  t = prune(t);
+  const alias = t.kind !== "var" && t.alias
+    ? { name: t.alias.name, args: t.alias.args.map((arg) => substitute(arg, mapping)) }
+    : undefined;
+  switch (t.kind) {
+    case "var": return mapping.get(t) ?? t;
+    case "con": return { kind: "con", name: t.name, args: t.args.map((arg) => substitute(arg, mapping)), alias };
+    case "fn": return { kind: "fn", from: substitute(t.from, mapping), to: substitute(t.to, mapping), alias };
+    case "tuple": return { kind: "tuple", items: t.items.map((item) => substitute(item, mapping)), alias };
+    case "record": {
+      const fields: Record<string, Type> = {};
+      for (const [name, type] of Object.entries(t.fields)) fields[name] = substitute(type, mapping);
+      return { kind: "record", fields, rest: t.rest ? substitute(t.rest, mapping) : undefined, alias };
+    }
+  }
+}
+
+// --- Printing ---
+
+// Prints types the way the Elm compiler does: unqualified names, aliases
+// where known, and variables named a, b, c... unless a signature named them.
+// `typeName` writes a qualified type name, e.g. as a module's imports would.
+export function typeToString(t: Type, typeName: (qualified: string) => string = shortName): string {
+  const names = new Map<TypeVar, string>();
+  const used = new Set<string>();
+
+  for (const v of freeVars(t, new Set())) {
+    if (v.name && !used.has(v.name)) {
+      names.set(v, v.name);
+      used.add(v.name);
+    }
+  }
+
+  let letter = 0;
+  const nameOf = (v: TypeVar): string => {
+    const existing = names.get(v);
+    if (existing) return existing;
+    let name: string;
+    if (v.super) {
+      name = v.super;
+      for (let i = 1; used.has(name); i++) name = `${v.super}${i}`;
+    } else {
+      do {
+        name = letterName(letter++);
+      } while (used.has(name));
+    }
+    names.set(v, name);
+    used.add(name);
+    return name;
+  };
+
+  const show = (t: Type, position: "top" | "fnArg" | "typeArg"): string => {
+    t = prune(t);
+    if (t.kind === "var") return nameOf(t);
+
+    if (t.alias) {
+      const alias = [typeName(t.alias.name), ...t.alias.args.map((arg) => show(arg, "typeArg"))].join(" ");
+      return t.alias.args.length > 0 && position === "typeArg" ? `(${alias})` : alias;
+    }
+
+    switch (t.kind) {
+      case "con": {
+        const text = [typeName(t.name), ...t.args.map((arg) => show(arg, "typeArg"))].join(" ");
+        return t.args.length > 0 && position === "typeArg" ? `(${text})` : text;
+      }
+      case "fn": {
+        const text = `${show(t.from, "fnArg")} -> ${show(t.to, "top")}`;
+        return position === "top" ? text : `(${text})`;
+      }
+      case "tuple":
+        return t.items.length === 0 ? "()" : "( " + t.items.map((item) => show(item, "top")).join(", ") + " )";
+      case "record": {
+        const { fields, rest } = flattenForPrinting(t);
+        const entries = Object.entries(fields).map(([name, type]) => `${name} : ${show(type, "top")}`);
+        if (rest) return `{ ${nameOf(rest)} | ${entries.join(", ")} }`;
+        return entries.length === 0 ? "{}" : `{ ${entries.join(", ")} }`;
+      }
+    }
+  };
+
+  return show(t, "top");
+}
+
+function flattenForPrinting(t: Type & { kind: "record" }): { fields: Record<string, Type>; rest?: TypeVar } {
+  const fields = { ...t.fields };
+  let rest = t.rest ? prune(t.rest) : undefined;
+  while (rest && rest.kind === "record") {
+    Object.assign(fields, rest.fields);
+    rest = rest.rest ? prune(rest.rest) : undefined;
+  }
+  return { fields, rest: rest?.kind === "var" ? rest : undefined };
+}
+
+function letterName(n: number): string {
+  const letter = String.fromCharCode(97 + (n % 26));
+  return n < 26 ? letter : letter + Math.floor(n / 26);
+}
+
+function shortName(qualified: string): string {
+  return qualified.slice(qualified.lastIndexOf(".") + 1);
+}
+
+// --- Type syntax ---
+
+// Type expressions before names are resolved. Both docs.json type strings and
+// signatures in the AST are converted to this first.
+export type TypeSyntax =
+  | { tag: "var"; name: string }
+  | { tag: "named"; name: string; args: TypeSyntax[] } // name as written, maybe qualified
+  | { tag: "fn"; from: TypeSyntax; to: TypeSyntax }
+  | { tag: "tuple"; items: TypeSyntax[] }
+  | { tag: "record"; fields: [string, TypeSyntax][]; ext?: string };
+
+// Parses docs.json types such as "(a -> Basics.Bool) -> List.List a -> Maybe.Maybe a"
+export function parseTypeString(source: string): TypeSyntax | undefined {
+  const tokens = source.match(/->|[(){},:|]|[\w.]+/g) ?? [];
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new SyntaxError(`Expected ${token} in ${source}`);
+  };
+
+  const parseType = (): TypeSyntax => {
+    const left = parseApplication();
+    if (peek() === "->") {
+      next();
+      return { tag: "fn", from: left, to: parseType() };
+    }
+    return left;
+  };
+
+  const parseApplication = (): TypeSyntax => {
+    const token = peek();
+    if (token && /^[A-Z]/.test(token)) {
+      next();
+      const args: TypeSyntax[] = [];
+      while (peek() && peek() !== "->" && peek() !== ")" && peek() !== "," && peek() !== "}" && peek() !== "|") {
+        args.push(parseAtom());
+      }
+      return { tag: "named", name: token, args };
+    }
+    return parseAtom();
+  };
+
+  const parseAtom = (): TypeSyntax => {
+    const token = next();
+    if (token === undefined) throw new SyntaxError(`Unexpected end of ${source}`);
+    if (token === "(") {
+      if (peek() === ")") {
+        next();
+        return { tag: "tuple", items: [] };
+      }
+      const items = [parseType()];
+      while (peek() === ",") {
+        next();
+        items.push(parseType());
+      }
+      expect(")");
+      return items.length === 1 ? items[0]! : { tag: "tuple", items };
+    }
+    if (token === "{") {
+      const fields: [string, TypeSyntax][] = [];
+      let ext: string | undefined;
+      if (peek() === "}") {
+        next();
+        return { tag: "record", fields };
+      }
+      if (tokens[pos + 1] === "|") {
+        ext = next();
+        next();
+      }
+      do {
+        const name = next()!;
+        expect(":");
+        fields.push([name, parseType()]);
+      } while (peek() === "," && next());
+      expect("}");
+      return { tag: "record", fields, ext };
+    }
+    if (/^[A-Z]/.test(token)) return { tag: "named", name: token, args: [] };
+    return { tag: "var", name: token };
+  };
+
+  try {
+    const type = parseType();
+    return pos === tokens.length ? type : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function annotationToSyntax(node: Node<TypeAnnotation>): TypeSyntax {
+  const t = node.value;
+  switch (t.type) {
+    case "generic": return { tag: "var", name: t.generic.value };
+    case "unit": return { tag: "tuple", items: [] };
+    case "typed": {
+      const mn = t.typed.moduleNameAndName.value;
+      return {
+        tag: "named",
+        name: [...mn.moduleName, mn.name].join("."),
+        args: t.typed.args.map(annotationToSyntax),
+      };
+    }
+    case "function":
+      return { tag: "fn", from: annotationToSyntax(t.function.left), to: annotationToSyntax(t.function.right) };
+    case "tupled":
+      return { tag: "tuple", items: nodes<TypeAnnotation>(t.tupled).map(annotationToSyntax) };
+    case "record":
+      return {
+        tag: "record",
+        fields: nodes<any>(t.record).map((f) => [f.value.name.value, annotationToSyntax(f.value.typeAnnotation)]),
+      };
+    case "genericRecord":
+      return {
+        tag: "record",
+        fields: nodes<any>(t.genericRecord.values).map((f) => [f.value.name.value, annotationToSyntax(f.value.typeAnnotation)]),
+        ext: t.genericRecord.name.value,
+      };
+  }
+}
+
+// elm-syntax wraps some lists and single nodes in an extra { value } object
+function nodes<T>(x: any): Node<T>[] {
+  return Array.isArray(x) ? x : x?.value ?? x?.values ?? [];
+}
+
+function single<T>(x: Node<T> | { value: Node<T> }): Node<T> {
+  return "range" in x ? x : x.value;
+}
+
+// --- Module interfaces ---
+
+export type ModuleInterface = {
+  name: string;
+  values: Map<string, () => Scheme | undefined>;
+  binops: Map<string, () => Scheme | undefined>;
+  types: Set<string>;
+  unions: Map<string, string[]>; // type name -> constructor names
+};
+
+type AliasEntry = {
+  params: string[];
+  body: TypeSyntax;
+  scope: ImportScope | null; // null for docs.json, whose names are already qualified
+  expanding?: boolean;
+};
+
+// Known modules and type aliases. Package docs are added first, then project
+// modules in import order, so each module's names resolve against what it imports.
+export class TypeEnvironment {
+  readonly modules = new Map<string, ModuleInterface>();
+  private aliases = new Map<string, AliasEntry>();
+
+  addDocs(docs: ModuleDoc[]): void {
+    for (const mod of docs) {
+      const iface = this.emptyInterface(mod.name);
+      for (const alias of mod.aliases) {
+        iface.types.add(alias.name);
+        const body = parseTypeString(alias.type);
+        if (!body) continue;
+        this.aliases.set(`${mod.name}.${alias.name}`, { params: alias.args, body, scope: null });
+        if (body.tag === "record" && !body.ext) {
+          iface.values.set(alias.name, lazy(() => this.recordConstructor(`${mod.name}.${alias.name}`, alias.args, body, null)));
+        }
+      }
+      for (const union of mod.unions) {
+        iface.types.add(union.name);
+        iface.unions.set(union.name, union.cases.map(([ctor]) => ctor));
+        const result: TypeSyntax = {
+          tag: "named",
+          name: `${mod.name}.${union.name}`,
+          args: union.args.map((name) => ({ tag: "var", name })),
+        };
+        for (const [ctor, args] of union.cases) {
+          iface.values.set(ctor, lazy(() => {
+            const syntaxes = args.map(parseTypeString);
+            if (syntaxes.some((s) => !s)) return undefined;
+            const type = syntaxes.reduceRight<TypeSyntax>((acc, arg) => ({ tag: "fn", from: arg!, to: acc }), result);
+            return closedScheme(this.toType(type, null));
+          }));
+        }
+      }
+      for (const value of mod.values) {
+        iface.values.set(value.name, lazy(() => this.schemeFromString(value.type)));
+      }
+      for (const binop of mod.binops) {
+        iface.binops.set(binop.name, lazy(() => this.schemeFromString(binop.type)));
+      }
+    }
+  }
+
+  // A project module: its types, aliases, constructors and annotated values.
+  // Unannotated values are left out; inferModule works them out for the
+  // module it is run on.
+  addModule(ast: Ast): ImportScope {
+    const moduleName = toModuleName(ast);
+    const iface = this.emptyInterface(moduleName);
+    for (const decl of ast.declarations) {
+      const d = decl.value;
+      if (d.type === "typeAlias" || d.type === "typedecl") {
+        const name = d.type === "typeAlias" ? d.typeAlias.name.value : d.typedecl.name.value;
+        iface.types.add(name);
+      }
+    }
+    const scope = new ImportScope(moduleName, ast.imports.map((i) => i.value), this);
+
+    for (const decl of ast.declarations) {
+      const d = decl.value;
+      switch (d.type) {
+        case "typeAlias": {
+          const name = d.typeAlias.name.value;
+          const params = d.typeAlias.generics.map((g) => g.value);
+          const body = annotationToSyntax(d.typeAlias.typeAnnotation);
+          this.aliases.set(`${moduleName}.${name}`, { params, body, scope });
+          if (body.tag === "record" && !body.ext) {
+            iface.values.set(name, lazy(() => this.recordConstructor(`${moduleName}.${name}`, params, body, scope)));
+          }
+          break;
+        }
+        case "typedecl": {
+          const name = d.typedecl.name.value;
+          const result: TypeSyntax = {
+            tag: "named",
+            name: `${moduleName}.${name}`,
+            args: d.typedecl.generics.map((g) => ({ tag: "var", name: g.value })),
+          };
+          iface.unions.set(name, d.typedecl.constructors.map((c) => c.value.name.value));
+          for (const ctor of d.typedecl.constructors) {
+            iface.values.set(ctor.value.name.value, lazy(() => {
+              const type = ctor.value.arguments
+                .map(annotationToSyntax)
+                .reduceRight<TypeSyntax>((acc, arg) => ({ tag: "fn", from: arg, to: acc }), result);
+              return closedScheme(this.toType(type, scope));
+            }));
+          }
+          break;
+        }
+        case "function":
+          if (d.function.signature) {
+            const annotation = d.function.signature.value.typeAnnotation;
+            iface.values.set(d.function.declaration.value.name.value, lazy(() =>
+              closedScheme(this.toType(annotationToSyntax(annotation), scope))
+            ));
+          }
+          break;
+        case "port": {
+          const annotation = d.port.typeAnnotation;
+          iface.values.set(d.port.name.value, lazy(() => closedScheme(this.toType(annotationToSyntax(annotation), scope))));
+          break;
+        }
+      }
+    }
+    return scope;
+  }
+
+  annotationType(node: Node<TypeAnnotation>, scope: ImportScope, vars: Map<string, Type>, level: number): Type {
+    return this.toType(annotationToSyntax(node), scope, vars, level);
+  }
+
+  private emptyInterface(name: string): ModuleInterface {
+    const iface: ModuleInterface = { name, values: new Map(), binops: new Map(), types: new Set(), unions: new Map() };
+    this.modules.set(name, iface);
+    return iface;
+  }
+
+  private schemeFromString(source: string): Scheme | undefined {
+    const syntax = parseTypeString(source);
+    return syntax ? closedScheme(this.toType(syntax, null)) : undefined;
+  }
+
+  // `type alias Point = { x : Float, y : Float }` also defines `Point : Float -> Float -> Point`
+  private recordConstructor(
+    qualified: string,
+    params: string[],
+    body: TypeSyntax & { tag: "record" },
+    scope: ImportScope | null
+  ): Scheme {
+    const vars = new Map<string, Type>();
+    const result = this.toType(
+      { tag: "named", name: qualified, args: params.map((name) => ({ tag: "var", name })) },
+      null,
+      vars
+    );
+    const fieldTypes = body.fields.map(([, field]) => this.toType(field, scope, vars));
+    return closedScheme(fieldTypes.reduceRight((acc, field) => fn(field, acc), result));
+  }
+
+  private toType(
+    syntax: TypeSyntax,
+    scope: ImportScope | null,
+    vars: Map<string, Type> = new Map(),
+    level = 0
+  ): Type {
+    const go = (s: TypeSyntax): Type => {
+      switch (s.tag) {
+        case "var": {
+          let v = vars.get(s.name);
+          if (!v) {
+            v = freshVar(level, s.name);
+            vars.set(s.name, v);
+          }
+          return v;
+        }
+        case "named": {
+          const qualified = scope ? scope.typeName(s.name) : s.name;
+          const args = s.args.map(go);
+          return this.expandAlias(qualified, args) ?? con(qualified, args);
+        }
+        case "fn": return fn(go(s.from), go(s.to));
+        case "tuple": return s.items.length === 1 ? go(s.items[0]!) : { kind: "tuple", items: s.items.map(go) };
+        case "record": {
+          const fields: Record<string, Type> = {};
+          for (const [name, field] of s.fields) fields[name] = go(field);
+          return { kind: "record", fields, rest: s.ext ? go({ tag: "var", name: s.ext }) : undefined };
+        }
+      }
+    };
+    return go(syntax);
+  }
+
+  private expandAlias(qualified: string, args: Type[]): Type | undefined {
+    const entry = this.aliases.get(qualified);
+    if (!entry || entry.expanding) return undefined;
+    const vars = new Map<string, Type>();
+    entry.params.forEach((param, i) => vars.set(param, args[i] ?? freshVar(0)));
+    entry.expanding = true;
+    try {
+      const body = this.toType(entry.body, entry.scope, vars);
+      if (body.kind === "var") return body;
+      return { ...body, alias: { name: qualified, args } };
+    } finally {
+      entry.expanding = false;
+    }
+  }
+}
+
+function lazy<T>(compute: () => T): () => T {
+  let done = false;
+  let value: T;
+  return () => {
+    if (!done) {
+      value = compute();
+      done = true;
+    }
+    return value;
+  };
+}
+
+// --- Imports ---
+
+type ImportSpec = {
+  module: string;
+  alias?: string;
+  exposingAll?: boolean;
+  values: string[];
+  types: string[];
+  openTypes: string[]; // exposed with (..)
+};
+
+// Every Elm module implicitly starts with these imports
+const DEFAULT_IMPORTS: ImportSpec[] = [
+  { module: "Basics", exposingAll: true, values: [], types: [], openTypes: [] },
+  { module: "List", values: ["::"], types: ["List"], openTypes: [] },
+  { module: "Maybe", values: [], types: [], openTypes: ["Maybe"] },
+  { module: "Result", values: [], types: [], openTypes: ["Result"] },
+  { module: "String", values: [], types: ["String"], openTypes: [] },
+  { module: "Char", values: [], types: ["Char"], openTypes: [] },
+  { module: "Tuple", values: [], types: [], openTypes: [] },
+  { module: "Debug", values: [], types: [], openTypes: [] },
+  { module: "Platform", values: [], types: ["Program"], openTypes: [] },
+  { module: "Platform.Cmd", alias: "Cmd", values: [], types: ["Cmd"], openTypes: [] },
+  { module: "Platform.Sub", alias: "Sub", values: [], types: ["Sub"], openTypes: [] },
+];
+
+function importSpec(imp: Import): ImportSpec {
+  const spec: ImportSpec = {
+    module: imp.moduleName.value.join("."),
+    alias: imp.moduleAlias?.value.join("."),
+    values: [],
+    types: [],
+    openTypes: [],
+  };
+  const exposing = imp.exposingList?.value;
+  if (exposing?.type === "all") spec.exposingAll = true;
+  if (exposing?.type === "explicit") {
+    for (const e of exposing.explicit) {
+      switch (e.value.type) {
+        case "function": spec.values.push(e.value.function.name); break;
+        case "infix": spec.values.push(e.value.infix.name); break;
+        case "typeOrAlias": spec.types.push(e.value.typeOrAlias.name); break;
+        case "typeexpose": spec.openTypes.push(e.value.typeexpose.name); break;
+      }
+    }
+  }
+  return spec;
+}
+
+// Resolves the names a module can see through its imports
+export class ImportScope {
+  private specs: ImportSpec[];
+
+  constructor(
+    readonly moduleName: string,
+    imports: Import[],
+    private env: TypeEnvironment
+  ) {
+    this.specs = [...DEFAULT_IMPORTS, ...imports.map(importSpec)];
+  }
+
+  value(qualifier: string, name: string): Scheme | undefined {
+    if (!qualifier) {
+      const own = this.env.modules.get(this.moduleName)?.values.get(name)?.();
+      if (own) return own;
+    }
+    for (const spec of this.specs) {
+      const iface = this.env.modules.get(spec.module);
+      if (!iface) continue;
+      if (qualifier) {
+        if ((spec.alias ?? spec.module) !== qualifier) continue;
+      } else if (!this.exposesValue(spec, iface, name)) {
+        continue;
+      }
+      const scheme = iface.values.get(name)?.();
+      if (scheme) return scheme;
+    }
+    return undefined;
+  }
+
+  operator(op: string): Scheme | undefined {
+    for (const spec of this.specs) {
+      const iface = this.env.modules.get(spec.module);
+      if (!iface || !(spec.exposingAll || spec.values.includes(op))) continue;
+      const scheme = iface.binops.get(op)?.();
+      if (scheme) return scheme;
+    }
+    return undefined;
+  }
+
+  // "Dict" -> "Dict.Dict", "D.Decoder" -> "Json.Decode.Decoder", "Model" -> "Main.Model"
+  typeName(written: string): string {
+    const dot = written.lastIndexOf(".");
+    const name = written.slice(dot + 1);
+    if (dot !== -1) {
+      const qualifier = written.slice(0, dot);
+      const spec = this.specs.find((s) => (s.alias ?? s.module) === qualifier);
+      return `${spec?.module ?? qualifier}.${name}`;
+    }
+
+    if (this.env.modules.get(this.moduleName)?.types.has(name)) return `${this.moduleName}.${name}`;
+    for (const spec of this.specs) {
+      if (spec.types.includes(name) || spec.openTypes.includes(name)) return `${spec.module}.${name}`;
+      if (spec.exposingAll && this.env.modules.get(spec.module)?.types.has(name)) return `${spec.module}.${name}`;
+    }
+    return name;
+  }
+
+  private exposesValue(spec: ImportSpec, iface: ModuleInterface, name: string): boolean {
+    if (spec.exposingAll || spec.values.includes(name)) return true;
+    return spec.openTypes.some((type) => iface.unions.get(type)?.includes(name));
+  }
+}
+
+// --- Inference ---
+
+export type InferredName = { name: string; range: ElmRange; type: Type };
+export type TypeProblem = { range: ElmRange; message: string };
+
+export type InferenceResult = {
+  // Every definition and use of a name, with its type
+  names: InferredName[];
+  // The expression each `case` matches on, with its type
+  caseSubjects: { range: ElmRange; type: Type }[];
+  problems: TypeProblem[];
+};
+
+// A name in scope. Functions are inferred on first use (or at the end of
+// their scope), so definition order doesn't matter and mutual recursion works.
+type Binding = {
+  scheme?: Scheme;
+  infer?: () => Scheme;
+  inProgress?: boolean;
+  placeholder?: TypeVar; // the monomorphic type used by recursive calls
+  level: number;
+  scopes: Scope[];
+};
+
+type Scope = Map<string, Binding>;
+
+export function inferModule(ast: Ast, env: TypeEnvironment): InferenceResult {
+  const inferrer = new Inferrer(env, env.addModule(ast));
+  inferrer.inferDeclarations(ast);
+  return { names: inferrer.names, caseSubjects: inferrer.caseSubjects, problems: inferrer.problems };
+}
+
+class Inferrer {
+  readonly names: InferredName[] = [];
+  readonly caseSubjects: InferenceResult["caseSubjects"] = [];
+  readonly problems: TypeProblem[] = [];
+  private level = 0;
+  private scopes: Scope[] = [];
+
+  constructor(
+    private env: TypeEnvironment,
+    private imports: ImportScope
+  ) {}
+
+  inferDeclarations(ast: Ast): void {
+    const top: Scope = new Map();
+    this.scopes = [top];
+    const functions: [Function_, Binding][] = [];
+
+    for (const decl of ast.declarations) {
+      const d = decl.value;
+      if (d.type === "function") {
+        const binding: Binding = { level: 1, scopes: [top] };
+        binding.infer = () => this.inferFunction(d.function, binding);
+        top.set(d.function.declaration.value.name.value, binding);
+        functions.push([d.function, binding]);
+      } else if (d.type === "port") {
+        const type = this.annotation(d.port.typeAnnotation, new Map());
+        top.set(d.port.name.value, { scheme: closedScheme(type), level: 0, scopes: [top] });
+        this.record(d.port.name.value, d.port.name.range, type);
+      }
+    }
+
+    // Annotated functions are known by their signature before their body is checked
+    for (const [func, binding] of functions) {
+      if (func.signature) binding.scheme = closedScheme(this.annotation(func.signature.value.typeAnnotation, new Map()));
+    }
+    for (const [func, binding] of functions) {
+      if (func.signature) this.withScopes(binding.scopes, () => this.inferFunction(func, binding));
+      else this.resolve(binding);
+    }
+  }
+
+  private inferFunction(func: Function_, self: Binding): Scheme {
+    const outer = this.level;
+    this.level++;
+    const decl = func.declaration.value;
+
+    const scope: Scope = new Map();
+    const argTypes = decl.arguments.map((arg) => this.inferPattern(arg, scope));
+    this.scopes.push(scope);
+    const body = this.inferExpr(decl.expression);
+    this.scopes.pop();
+
+    let type = argTypes.reduceRight((acc, arg) => fn(arg, acc), body);
+    if (self.placeholder) this.unifyAt(self.placeholder, type, decl.name.range);
+    if (func.signature) {
+      const annotated = this.annotation(func.signature.value.typeAnnotation, new Map());
+      this.unifyAt(annotated, type, decl.expression.range);
+      type = annotated;
+      this.record(decl.name.value, func.signature.value.name.range, type);
+    }
+    this.record(decl.name.value, decl.name.range, type);
+
+    this.level = outer;
+    return generalize(type, outer);
+  }
+
+  private annotation(node: Node<TypeAnnotation>, vars: Map<string, Type>): Type {
+    return this.env.annotationType(node, this.imports, vars, this.level + 1);
+  }
+
+  private resolve(binding: Binding): Scheme {
+    // Annotated functions and pattern variables already have their scheme
+    if (binding.scheme) return binding.scheme;
+    if (binding.inProgress) {
+      binding.placeholder ??= freshVar(binding.level);
+      return { vars: [], type: binding.placeholder };
+    }
+
+    binding.inProgress = true;
+    try {
+      binding.scheme = this.withScopes(binding.scopes, () => {
+        // Bindings may be forced from deeper inside an expression; infer them
+        // at the level they were defined at so they generalize correctly
+        this.level = binding.level - 1;
+        return binding.infer!();
+      });
+    } finally {
+      binding.inProgress = false;
+    }
+    return binding.scheme;
+  }
+
+  private withScopes<T>(scopes: Scope[], run: () => T): T {
+    const saved = this.scopes;
+    const savedLevel = this.level;
+    this.scopes = [...scopes];
+    try {
+      return run();
+    } finally {
+      this.scopes = saved;
+      this.level = savedLevel;
+    }
+  }
+
+  private lookupLocal(name: string): Binding | undefined {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const binding = this.scopes[i]!.get(name);
+      if (binding) return binding;
+    }
+    return undefined;
+  }
+
+  private record(name: string, range: ElmRange, type: Type): void {
+    this.names.push({ name, range, type });
+  }
+
+  private unifyAt(expected: Type, actual: Type, range: ElmRange): void {
+    try {
+      unify(expected, actual);
+    } catch (err) {
+      if (!(err instanceof TypeMismatch)) throw err;
+      this.problems.push({
+        range,
+        message: `Expected ${typeToString(expected)}, but found ${typeToString(actual)}`,
+      });
+    }
+  }
+
+  private fresh(name?: string): TypeVar {
+    return freshVar(this.level, name);
+  }
+
+  private inferExpr(node: Node<Expression>): Type {
+    if (!node?.value) return this.fresh();
+    const e = node.value as Expression | { type: "unit" };
+
+    switch (e.type) {
+      case "unit":
+      case "unitExpr":
+        return UNIT;
+      case "integer":
+      case "hex":
+        return this.fresh("number");
+      case "float": return FLOAT;
+      case "literal": return STRING;
+      case "charLiteral": return CHAR;
+      case "glsl": return this.fresh();
+      case "parenthesized": return this.inferExpr(e.parenthesized);
+
+      case "functionOrValue": {
+        const { moduleName, name } = e.functionOrValue;
+        const type = this.inferName(moduleName.join("."), name);
+        this.record(name, node.range, type);
+        return type;
+      }
+
+      case "prefixoperator":
+      case "operator": {
+        const op = e.type === "prefixoperator" ? e.prefixoperator : e.operator;
+        const scheme = this.imports.operator(op);
+        return scheme ? instantiate(scheme, this.level) : this.fresh();
+      }
+
+      case "application": {
+        const [fnNode, ...args] = e.application;
+        let fnType = this.inferExpr(fnNode!);
+        for (const arg of args) {
+          const argType = this.inferExpr(arg);
+          const result = this.fresh();
+          this.unifyAt(fnType, fn(argType, result), arg.range);
+          fnType = result;
+        }
+        return fnType;
+      }
+
+      case "operatorapplication": {
+        const { operator, left, right } = e.operatorapplication;
+        const leftType = this.inferExpr(left);
+        const rightType = this.inferExpr(right);
+        const scheme = this.imports.operator(operator);
+        const result = this.fresh();
+        if (scheme) {
+          this.unifyAt(instantiate(scheme, this.level), fn(leftType, fn(rightType, result)), node.range);
+        }
+        return result;
+      }
+
+      case "negation": {
+        const type = this.inferExpr(e.negation);
+        this.unifyAt(this.fresh("number"), type, e.negation.range);
+        return type;
+      }
+
+      case "ifBlock": {
+        this.unifyAt(BOOL, this.inferExpr(e.ifBlock.clause), e.ifBlock.clause.range);
+        const thenType = this.inferExpr(e.ifBlock.then);
+        this.unifyAt(thenType, this.inferExpr(e.ifBlock.else), e.ifBlock.else.range);
+        return thenType;
+      }
+
+      case "tupled":
+        return { kind: "tuple", items: e.tupled.map((item) => this.inferExpr(item)) };
+
+      case "list": {
+        const element = this.fresh();
+        for (const item of e.list) this.unifyAt(element, this.inferExpr(item), item.range);
+        return list(element);
+      }
+
+      case "record": {
+        const fields: Record<string, Type> = {};
+        for (const setter of e.record as any[]) {
+          fields[setter.value.field.value] = this.inferExpr(setter.value.expression);
+        }
+        return { kind: "record", fields };
+      }
+
+      case "recordUpdate": {
+        const { name, updates } = e.recordUpdate;
+        const recordType = this.inferName("", name.value);
+        this.record(name.value, name.range, recordType);
+        const fields: Record<string, Type> = {};
+        for (const setter of updates as any[]) {
+          fields[setter.value.field.value] = this.inferExpr(setter.value.expression);
+        }
+        this.unifyAt({ kind: "record", fields, rest: this.fresh() }, recordType, name.range);
+        return recordType;
+      }
+
+      case "recordAccess": {
+        const recordType = this.inferExpr(e.recordAccess.expression);
+        const field = this.fresh();
+        const fieldName = e.recordAccess.name.value.replace(/^\./, "");
+        this.unifyAt({ kind: "record", fields: { [fieldName]: field }, rest: this.fresh() }, recordType, node.range);
+        this.record(fieldName, e.recordAccess.name.range, field);
+        return field;
+      }
+
+      case "recordAccessFunction": {
+        const field = this.fresh();
+        const fieldName = e.recordAccessFunction.replace(/^\./, "");
+        return fn({ kind: "record", fields: { [fieldName]: field }, rest: this.fresh() }, field);
+      }
+
+      case "lambda": {
+        const scope: Scope = new Map();
+        const argTypes = e.lambda.patterns.map((p) => this.inferPattern(p, scope));
+        this.scopes.push(scope);
+        const body = this.inferExpr(e.lambda.expression);
+        this.scopes.pop();
+        return argTypes.reduceRight((acc, arg) => fn(arg, acc), body);
+      }
+
+      case "case": {
+        const subject = this.inferExpr(e.case.expression);
+        this.caseSubjects.push({ range: e.case.expression.range, type: subject });
+        const result = this.fresh();
+        for (const branch of e.case.cases) {
+          const scope: Scope = new Map();
+          this.unifyAt(subject, this.inferPattern(branch.pattern, scope), branch.pattern.range);
+          this.scopes.push(scope);
+          this.unifyAt(result, this.inferExpr(branch.expression), branch.expression.range);
+          this.scopes.pop();
+        }
+        return result;
+      }
+
+      case "let": {
+        const scope: Scope = new Map();
+        const scopes = [...this.scopes, scope];
+        const bindings: Binding[] = [];
+
+        for (const decl of e.let.declarations) {
+          const d = decl.value;
+          if (d.type === "function") {
+            const binding: Binding = { level: this.level + 1, scopes };
+            binding.infer = () => this.inferFunction(d.function, binding);
+            scope.set(d.function.declaration.value.name.value, binding);
+            bindings.push(binding);
+          } else {
+            for (const binding of this.destructuringBindings(d.destructuring.pattern, d.destructuring.expression, scope, scopes)) {
+              bindings.push(binding);
+            }
+          }
+        }
+
+        this.scopes.push(scope);
+        bindings.forEach((b) => this.resolve(b));
+        const body = this.inferExpr(e.let.expression);
+        this.scopes.pop();
+        return body;
+      }
+    }
+  }
+
+  private inferName(qualifier: string, name: string): Type {
+    if (!qualifier) {
+      const local = this.lookupLocal(name);
+      if (local) return instantiate(this.resolve(local), this.level);
+    }
+    const scheme = this.imports.value(qualifier, name);
+    return scheme ? instantiate(scheme, this.level) : this.fresh();
+  }
+
+  // `( a, b ) = expr` in a let: every name it binds is resolved together
+  private destructuringBindings(
+    pattern: Node<Pattern>,
+    expression: Node<Expression>,
+    scope: Scope,
+    scopes: Scope[]
+  ): Binding[] {
+    const level = this.level + 1;
+    let schemes: Map<string, Scheme> | undefined;
+
+    const inferAll = (): Map<string, Scheme> => {
+      if (schemes) return schemes;
+      schemes = new Map();
+      const outer = this.level;
+      this.level = level;
+      const valueType = this.inferExpr(expression);
+      const bound: Scope = new Map();
+      this.unifyAt(this.inferPattern(pattern, bound), valueType, pattern.range);
+      this.level = outer;
+      for (const [name, binding] of bound) {
+        schemes.set(name, generalize(binding.scheme!.type, outer));
+      }
+      return schemes;
+    };
+
+    return patternDefinitionNames(pattern.value).map((name) => {
+      const binding: Binding = { level, scopes };
+      binding.infer = () => inferAll().get(name) ?? closedScheme(freshVar(level));
+      scope.set(name, binding);
+      return binding;
+    });
+  }
+
+  private inferPattern(node: Node<Pattern>, scope: Scope): Type {
+    if (!node?.value) return this.fresh();
+    const p = node.value as Pattern;
+
+    const bind = (name: string, range: ElmRange, type: Type) => {
+      scope.set(name, { scheme: { vars: [], type }, level: this.level, scopes: [] });
+      this.record(name, range, type);
+    };
+
+    switch (p.type) {
+      case "all": return this.fresh();
+      case "unit": return UNIT;
+      case "char": return CHAR;
+      case "string": return STRING;
+      case "int":
+      case "hex":
+        return INT;
+      case "float": return FLOAT;
+
+      case "var": {
+        const type = this.fresh();
+        bind(p.var.value, node.range, type);
+        return type;
+      }
+
+      case "record": {
+        const fields: Record<string, Type> = {};
+        for (const field of nodes<string>(p.record)) {
+          const type = this.fresh();
+          fields[field.value] = type;
+          bind(field.value, field.range, type);
+        }
+        return { kind: "record", fields, rest: this.fresh() };
+      }
+
+      case "tuple":
+        return { kind: "tuple", items: nodes<Pattern>(p.tuple).map((item) => this.inferPattern(item, scope)) };
+
+      case "list": {
+        const element = this.fresh();
+        for (const item of nodes<Pattern>(p.list)) {
+          this.unifyAt(element, this.inferPattern(item, scope), item.range);
+        }
+        return list(element);
+      }
+
+      case "uncons": {
+        const head = this.inferPattern(p.uncons.left, scope);
+        const tail = this.inferPattern(p.uncons.right, scope);
+        this.unifyAt(list(head), tail, p.uncons.right.range);
+        return tail;
+      }
+
+      case "as": {
+        const type = this.inferPattern(p.as.pattern, scope);
+        bind(p.as.name.value, p.as.name.range, type);
+        return type;
+      }
+
+      case "parentisized":
+        return this.inferPattern(single<Pattern>(p.parentisized as any), scope);
+
+      case "named": {
+        const { moduleName, name } = p.named.qualified;
+        const scheme = this.imports.value(moduleName.join("."), name);
+        let ctorType: Type = scheme ? instantiate(scheme, this.level) : this.fresh();
+        const args = (p.named.patterns ?? []).map((arg) => this.inferPattern(arg, scope));
+        if (!scheme) return this.fresh();
+        for (const arg of args) {
+          const result = this.fresh();
+          this.unifyAt(ctorType, fn(arg, result), node.range);
+          ctorType = result;
+        }
+        return ctorType;
+      }
+    }
+  }
+}
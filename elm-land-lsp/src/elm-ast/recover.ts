@@ -0,0 +1,187 @@
+import { parseWithResult, type ParseOptions, type ParseResult } from "./bridge";
+import type { Ast, Node } from "./types";
+
+// Stands in for the module line while chunks are parsed without it. Ports
+// only parse in a port module.
+const STAND_IN_MODULE = "port module Recovered exposing (..)";
+
+// The last version of a document that parsed as a whole
+export type LastGood = { text: string; ast: Ast };
+
+// An AST for text that doesn't parse as a whole, made of the top-level chunks
+// that parse on their own. Chunks that don't parse but are unchanged since
+// `lastGood` keep what they had then, so only the chunks being edited are
+// missing; so does the module line. Returns undefined if there is no module
+// line to use, if a parse is dropped or crashes, or once `isStale` says a
+// newer version of the text has come along.
+export async function recoverAst(
+  text: string,
+  lastGood: LastGood | undefined,
+  options: ParseOptions = {},
+  isStale: () => boolean = () => false
+): Promise<Ast | undefined> {
+  const lines = text.split("\n");
+  const starts = chunkStarts(lines);
+  if (starts.length === 0) return undefined;
+
+  const parse = async (source: string): Promise<ParseResult> => {
+    if (isStale()) return { kind: "dropped" };
+    const result = await parseWithResult(source, options);
+    // A crash says nothing about whether the chunks parse
+    return result.kind === "crashed" ? { kind: "dropped" } : result;
+  };
+
+  // Chunks [from, to) at their own line numbers, after the stand-in module line
+  const parseChunks = (from: number, to: number): Promise<ParseResult> => {
+    const padding = Array<string>(starts[from]! - 1).fill("");
+    const chunks = lines.slice(starts[from], starts[to] ?? lines.length);
+    return parse([STAND_IN_MODULE, ...padding, ...chunks].join("\n"));
+  };
+
+  const header = await parse(lines.slice(0, starts[1] ?? lines.length).join("\n"));
+  if (header.kind === "dropped") return undefined;
+  const moduleDefinition = header.kind === "success" ? header.ast.moduleDefinition : lastGood?.ast.moduleDefinition;
+  if (!moduleDefinition) return undefined;
+
+  const recovered: Ast = {
+    comments: header.kind === "success" ? header.ast.comments : [],
+    moduleDefinition,
+    imports: [],
+    declarations: [],
+  };
+  const add = (ast: Pick<Ast, "comments" | "imports" | "declarations">) => {
+    recovered.comments.push(...ast.comments);
+    recovered.imports.push(...ast.imports);
+    recovered.declarations.push(...ast.declarations);
+  };
+
+  const failed: number[] = [];
+  let from = 1;
+  while (from < starts.length) {
+    const rest = await parseChunks(from, starts.length);
+    if (rest.kind === "dropped") return undefined;
+    if (rest.kind === "success") {
+      add(rest.ast);
+      break;
+    }
+
+    // Bisect for the first chunk that breaks the rest: chunks [from, good)
+    // parse together, [from, bad) don't
+    let good = from;
+    let bad = starts.length;
+    let parsed: Ast | undefined;
+    while (bad - good > 1) {
+      const mid = Math.floor((good + bad) / 2);
+      const result = await parseChunks(from, mid);
+      if (result.kind === "dropped") return undefined;
+      if (result.kind === "success") {
+        good = mid;
+        parsed = result.ast;
+      } else {
+        bad = mid;
+      }
+    }
+    if (parsed) add(parsed);
+    failed.push(good);
+    from = good + 1;
+  }
+
+  if (lastGood) add(unchangedChunks(lines, starts, failed, lastGood));
+  const byPosition = (a: Node<unknown>, b: Node<unknown>) => a.range[0] - b.range[0] || a.range[1] - b.range[1];
+  recovered.comments.sort(byPosition);
+  recovered.imports.sort(byPosition);
+  recovered.declarations.sort(byPosition);
+  return recovered;
+}
+
+// What the `failed` chunks held in the last good version, moved to their new
+// lines. Chunks can fail without being edited, e.g. a multi-line string with
+// lines in the first column is split into chunks that don't parse alone.
+// Nodes spanning a chunk whose text changed are the ones being edited, and are
+// left out.
+function unchangedChunks(
+  lines: string[],
+  starts: number[],
+  failed: number[],
+  lastGood: LastGood
+): Pick<Ast, "comments" | "imports" | "declarations"> {
+  const found: Pick<Ast, "comments" | "imports" | "declarations"> = { comments: [], imports: [], declarations: [] };
+  if (failed.length === 0) return found;
+
+  const chunkText = (ls: string[], ss: number[], i: number) => ls.slice(ss[i], ss[i + 1] ?? ls.length).join("\n").trimEnd();
+  const oldLines = lastGood.text.split("\n");
+  const oldStarts = chunkStarts(oldLines);
+  // The chunks of the last good text, by their text
+  const oldChunks = new Map<string, number[]>();
+  oldStarts.forEach((_, i) => {
+    const key = chunkText(oldLines, oldStarts, i);
+    oldChunks.set(key, [...(oldChunks.get(key) ?? []), i]);
+  });
+
+  // How far each unchanged chunk of the last good text has moved
+  const moved = new Map<number, number>();
+  for (const chunk of failed) {
+    const old = oldChunks.get(chunkText(lines, starts, chunk))?.shift();
+    if (old !== undefined) moved.set(old, starts[chunk]! - oldStarts[old]!);
+  }
+
+  // The chunk of the last good text a 1-based line is in
+  const chunkAt = (line: number) => oldStarts.findLastIndex((start) => start <= line - 1);
+  const keep = <T extends Node<unknown>>(nodes: T[]): T[] =>
+    nodes.flatMap((node) => {
+      const first = chunkAt(node.range[0]);
+      const delta = moved.get(first);
+      if (delta === undefined) return [];
+      for (let i = first + 1; i <= chunkAt(node.range[2]); i++) {
+        if (moved.get(i) !== delta) return [];
+      }
+      return [shiftLines(node, delta)];
+    });
+  found.comments.push(...keep(lastGood.ast.comments));
+  found.imports.push(...keep(lastGood.ast.imports));
+  found.declarations.push(...keep(lastGood.ast.declarations));
+  return found;
+}
+
+// A copy of `node` with every range moved down `delta` lines
+function shiftLines<T>(node: T, delta: number): T {
+  if (delta === 0) return node;
+  return JSON.parse(JSON.stringify(node), (key, value) =>
+    key === "range" && Array.isArray(value) && value.length === 4
+      ? [value[0] + delta, value[1], value[2] + delta, value[3]]
+      : value
+  );
+}
+
+// The line each top-level chunk starts on. Comments belong to the chunk below
+// them, and a type signature to the definition that follows it, since neither
+// parses alone.
+export function chunkStarts(lines: string[]): number[] {
+  const starts: number[] = [];
+  let commentDepth = 0;
+  let commentStart: number | undefined;
+  let signature: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    const atTopLevel = commentDepth === 0 && /^\S/.test(line);
+    commentDepth = Math.max(0, commentDepth + (line.match(/\{-/g) ?? []).length - (line.match(/-\}/g) ?? []).length);
+    if (!atTopLevel) continue;
+
+    if (line.startsWith("--") || line.startsWith("{-")) {
+      commentStart ??= i;
+      continue;
+    }
+
+    const declared = line.match(/^([a-z][\w']*)\s*:/)?.[1];
+    const defined = line.match(/^([a-z][\w']*)/)?.[1];
+    if (!declared && signature !== undefined && defined === signature) {
+      signature = undefined;
+      continue;
+    }
+    signature = declared;
+    starts.push(commentStart ?? i);
+    commentStart = undefined;
+  }
+  return starts;
+}
@@ -114,8 +114,12 @@ export function typeAnnotationToString(ta: Node<TypeAnnotation>): string {
       const mn = t.typed.moduleNameAndName.value;
       const name = mn.moduleName.length > 0 ? mn.moduleName.join(".") + "." + mn.name : mn.name;
       if (t.typed.args.length === 0) return name;
-      const args = t.typed.args.map(typeAnnotationToString).join(" ");
-      return `${name} ${args}`;
+      const args = t.typed.args.map((arg) => {
+        const str = typeAnnotationToString(arg);
+        const nested = arg.value.type === "function" || (arg.value.type === "typed" && arg.value.typed.args.length > 0);
+        return nested ? `(${str})` : str;
+      });
+      return `${name} ${args.join(" ")}`;
     }
     case "function": {
       const left = typeAnnotationToString(t.function.left);
@@ -124,7 +128,7 @@ export function typeAnnotationToString(ta: Node<TypeAnnotation>): string {
       return `${leftStr} -> ${right}`;
     }
     case "tupled":
-      return "( " + t.tupled.map(typeAnnotationToString).join(", ") + " )";
+      return "( " + ((t.tupled as any).values ?? t.tupled).map(typeAnnotationToString).join(", ") + " )";
     case "record": {
       const fields = ((t.record as any).value ?? t.record).map((f: any) =>
         `${f.value.name.value} : ${typeAnnotationToString(f.value.typeAnnotation)}`
@@ -151,7 +155,7 @@ export type Pattern =
   | { type: "float"; float: number }
   | { type: "tuple"; tuple: Node<Pattern>[] }
   | { type: "record"; record: Node<string>[] }
-  | { type: "uncons"; uncons: { hd: Node<Pattern>; tl: Node<Pattern> } }
+  | { type: "uncons"; uncons: { left: Node<Pattern>; right: Node<Pattern> } }
   | { type: "list"; list: Node<Pattern>[] }
   | { type: "var"; var: { value: string } }
   | { type: "named"; named: { qualified: { moduleName: string[]; name: string }; patterns: Node<Pattern>[] } }
@@ -184,7 +188,7 @@ export type Expression =
   | { type: "recordUpdate"; recordUpdate: { name: Node<string>; updates: Node<RecordSetter>[] } }
   | { type: "glsl"; glsl: string };
 
-export type RecordSetter = [Node<string>, Node<Expression>];
+export type RecordSetter = { field: Node<string>; expression: Node<Expression> };
 
 export type CaseBranch = { pattern: Node<Pattern>; expression: Node<Expression> };
 
@@ -265,11 +269,42 @@ export function patternDefinitionNames(pattern: Pattern): string[] {
     case "var": return [pattern.var.value];
     case "as": return [...patternDefinitionNames(pattern.as.pattern.value), pattern.as.name.value];
     case "tuple": return ((pattern.tuple as any).value ?? pattern.tuple).flatMap((p: any) => patternDefinitionNames(p.value));
-    case "uncons": return [...patternDefinitionNames(pattern.uncons.hd.value), ...patternDefinitionNames(pattern.uncons.tl.value)];
+    case "uncons": return [...patternDefinitionNames(pattern.uncons.left.value), ...patternDefinitionNames(pattern.uncons.right.value)];
     case "list": return ((pattern.list as any).value ?? pattern.list).flatMap((p: any) => patternDefinitionNames(p.value));
     case "named": return (pattern.named.patterns ?? []).flatMap((p) => patternDefinitionNames(p.value));
-    case "parentisized": return patternDefinitionNames(pattern.parentisized.value);
-    case "record": return pattern.record.map((n) => n.value);
+    case "parentisized": {
+      const inner = pattern.parentisized as any;
+      return patternDefinitionNames(("range" in inner ? inner : inner.value).value);
+    }
+    case "record": return ((pattern.record as any).value ?? pattern.record).map((n: Node<string>) => n.value);
+    default: return [];
+  }
+}
+
+// Direct sub-expressions of an expression, in source order
+export function expressionChildren(expr: Expression): Node<Expression>[] {
+  switch (expr.type) {
+    case "application": return expr.application;
+    case "operatorapplication": return [expr.operatorapplication.left, expr.operatorapplication.right];
+    case "ifBlock": return [expr.ifBlock.clause, expr.ifBlock.then, expr.ifBlock.else];
+    case "negation": return [expr.negation];
+    case "tupled": return expr.tupled;
+    case "list": return expr.list;
+    case "parenthesized": return [expr.parenthesized];
+    case "let":
+      return [
+        ...expr.let.declarations.map((d) =>
+          d.value.type === "function"
+            ? d.value.function.declaration.value.expression
+            : d.value.destructuring.expression
+        ),
+        expr.let.expression,
+      ];
+    case "case": return [expr.case.expression, ...expr.case.cases.map((c) => c.expression)];
+    case "lambda": return [expr.lambda.expression];
+    case "recordAccess": return [expr.recordAccess.expression];
+    case "record": return expr.record.map((s) => s.value.expression);
+    case "recordUpdate": return expr.recordUpdate.updates.map((s) => s.value.expression);
     default: return [];
   }
 }
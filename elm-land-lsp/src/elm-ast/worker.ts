@@ -24,3 +24,7 @@ app.ports.onFailure.subscribe((error: string) => {
 self.onmessage = (event: MessageEvent<string>) => {
   app.ports.input.send(event.data);
 };
+
+// Messages posted before the handler above exists are lost, so the bridge
+// waits for this before sending any source
+postMessage({ kind: "ready" });
@@ -0,0 +1,71 @@
+import type { ElmJsonFile } from "../project/elm-json";
+import { inferTypes } from "../project/type-environment";
+import { typeToString } from "../elm-ast/infer";
+import { throwIfCancelled } from "../protocol/cancellation";
+import { type Ast, type Range as ElmRange, toModuleName } from "../elm-ast/types";
+import type { CodeAction, Position } from "../protocol/messages";
+import { isExposedByImports } from "./auto-import";
+
+function posInRange(pos: Position, r: ElmRange): boolean {
+  const line = pos.line + 1;
+  const col = pos.character + 1;
+  if (line < r[0] || line > r[2]) return false;
+  if (line === r[0] && col < r[1]) return false;
+  if (line === r[2] && col > r[3]) return false;
+  return true;
+}
+
+// "Add type annotation" for the unannotated top-level function under the
+// cursor, using the type inferred for it
+export async function addAnnotationActions(
+  uri: string,
+  ast: Ast,
+  position: Position,
+  elmJson: ElmJsonFile,
+  signal?: AbortSignal
+): Promise<CodeAction[]> {
+  const decl = ast.declarations.find((d) => posInRange(position, d.range))?.value;
+  if (decl?.type !== "function" || decl.function.signature) return [];
+
+  const name = decl.function.declaration.value.name;
+  let names;
+  try {
+    ({ names } = await inferTypes(ast, elmJson, signal));
+  } catch {
+    throwIfCancelled(signal);
+    // Syntax the inference doesn't handle
+    return [];
+  }
+  const inferred = names.find((n) => n.range[0] === name.range[0] && n.range[1] === name.range[1]);
+  if (!inferred) return [];
+
+  // The signature goes between the doc comment (if any) and the definition
+  const line = decl.function.declaration.range[0] - 1;
+  const annotation = `${name.value} : ${typeToString(inferred.type, (qualified) => typeNameIn(ast, qualified))}`;
+  return [
+    {
+      title: `Add type annotation: ${annotation}`,
+      kind: "quickfix",
+      isPreferred: true,
+      edit: {
+        changes: {
+          [uri]: [{ range: { start: { line, character: 0 }, end: { line, character: 0 } }, newText: annotation + "\n" }],
+        },
+      },
+    },
+  ];
+}
+
+// How `ast` can refer to a type: unqualified if it's declared there or
+// exposed by an import, otherwise through the import's alias or module name
+function typeNameIn(ast: Ast, qualified: string): string {
+  const dot = qualified.lastIndexOf(".");
+  if (dot === -1) return qualified;
+  const moduleName = qualified.slice(0, dot);
+  const name = qualified.slice(dot + 1);
+  if (moduleName === toModuleName(ast) || isExposedByImports(ast, moduleName, name)) return name;
+
+  const imp = ast.imports.find((i) => i.value.moduleName.value.join(".") === moduleName);
+  const alias = imp?.value.moduleAlias?.value.join(".");
+  return `${alias ?? moduleName}.${name}`;
+}
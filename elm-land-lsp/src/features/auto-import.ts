@@ -0,0 +1,125 @@
+import { parse } from "../elm-ast/bridge";
+import type { Ast, Range as ElmRange, TopLevelExpose } from "../elm-ast/types";
+import type { TextEdit } from "../protocol/messages";
+
+// What each module exposes without being imported
+const DEFAULT_EXPOSING: Record<string, string[] | "all"> = {
+  Basics: "all",
+  List: ["List", "(::)"],
+  Maybe: ["Maybe(..)"],
+  Result: ["Result(..)"],
+  String: ["String"],
+  Char: ["Char"],
+  Platform: ["Program"],
+  "Platform.Cmd": ["Cmd"],
+  "Platform.Sub": ["Sub"],
+};
+
+// The module line and imports only. Completion runs while the user is typing,
+// when the rest of the file usually doesn't parse, and only imports are
+// needed to work out edits. Line numbers are unaffected since it's a prefix.
+export function importHeader(text: string): string {
+  const lines = text.split("\n");
+  let commentDepth = 0;
+  let end = lines.length;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    // Declarations, including `type`, `port` and `infix`, start in column one
+    const atTopLevel = commentDepth === 0 && /^[a-z]/.test(line);
+    commentDepth += (line.match(/\{-/g) ?? []).length - (line.match(/-\}/g) ?? []).length;
+    if (!atTopLevel || /^(import|module|port module|effect module)\b/.test(line)) continue;
+    end = i;
+    break;
+  }
+  return lines.slice(0, end).join("\n");
+}
+
+export async function parseImportHeader(text: string): Promise<Ast | undefined> {
+  return parse(importHeader(text));
+}
+
+// Whether `exposing` (e.g. "map", "Model", "Msg(..)") from `moduleName` can
+// already be used unqualified in the module
+export function isExposedByImports(ast: Ast, moduleName: string, exposing: string): boolean {
+  const defaults = DEFAULT_EXPOSING[moduleName];
+  if (defaults === "all" || defaults?.some((d) => exposes(d, exposing))) return true;
+
+  return ast.imports.some((imp) => {
+    if (imp.value.moduleName.value.join(".") !== moduleName) return false;
+    const list = imp.value.exposingList?.value;
+    if (!list) return false;
+    if (list.type === "all") return true;
+    return list.explicit.some((e) => exposes(exposeText(e.value), exposing));
+  });
+}
+
+// `Msg(..)` in an exposing list covers both `Msg` and `Msg(..)`
+function exposes(entry: string, wanted: string): boolean {
+  return entry === wanted || entry === `${wanted}(..)`;
+}
+
+function exposeText(e: TopLevelExpose): string {
+  switch (e.type) {
+    case "function": return e.function.name;
+    case "typeOrAlias": return e.typeOrAlias.name;
+    case "typeexpose": return `${e.typeexpose.name}(..)`;
+    case "infix": return `(${e.infix.name})`;
+  }
+}
+
+// The edits that make `exposing` from `moduleName` usable unqualified: extend
+// the module's existing import (keeping its alias), or add a new import line
+// below the others
+export function importEdits(ast: Ast, moduleName: string, exposing: string): TextEdit[] {
+  const existing = ast.imports.find((imp) => imp.value.moduleName.value.join(".") === moduleName);
+
+  if (existing) {
+    const list = existing.value.exposingList;
+    if (!list) {
+      return [insertAt(existing.range[2], existing.range[3], ` exposing (${exposing})`)];
+    }
+    if (list.value.type === "explicit") {
+      const entries = list.value.explicit;
+      // `Msg` is already exposed without its constructors: open it up
+      const closed = exposing.endsWith("(..)")
+        ? entries.find((e) => e.value.type === "typeOrAlias" && `${e.value.typeOrAlias.name}(..)` === exposing)
+        : undefined;
+      if (closed) return [replaceRange(closed.range, exposing)];
+      const last = entries[entries.length - 1]!;
+      return [insertAt(last.range[2], last.range[3], `, ${exposing}`)];
+    }
+    return [];
+  }
+
+  return [importLineEdit(ast, `import ${moduleName} exposing (${exposing})`)];
+}
+
+// Adds `import Json.Decode` (or `import Json.Decode as D`) unless the module
+// is already imported
+export function moduleImportEdits(ast: Ast, moduleName: string, alias?: string): TextEdit[] {
+  if (ast.imports.some((imp) => imp.value.moduleName.value.join(".") === moduleName)) return [];
+  return [importLineEdit(ast, alias ? `import ${moduleName} as ${alias}` : `import ${moduleName}`)];
+}
+
+// A new import line below the others
+function importLineEdit(ast: Ast, line: string): TextEdit {
+  const lastImport = ast.imports[ast.imports.length - 1];
+  if (lastImport) {
+    return insertAt(lastImport.range[2] + 1, 1, line + "\n");
+  }
+  return insertAt(ast.moduleDefinition.range[2] + 1, 1, "\n" + line + "\n");
+}
+
+// Both take 1-based positions, like the AST
+function insertAt(line: number, column: number, newText: string): TextEdit {
+  const position = { line: line - 1, character: column - 1 };
+  return { range: { start: position, end: position }, newText };
+}
+
+function replaceRange(r: ElmRange, newText: string): TextEdit {
+  return {
+    range: { start: { line: r[0] - 1, character: r[1] - 1 }, end: { line: r[2] - 1, character: r[3] - 1 } },
+    newText,
+  };
+}
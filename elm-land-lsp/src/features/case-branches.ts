@@ -0,0 +1,242 @@
+import { loadDocs, type ElmJsonFile } from "../project/elm-json";
+import { inferTypes } from "../project/type-environment";
+import { projectIndex } from "../state/project-index";
+import { annotationToSyntax, parseTypeString, prune, type TypeSyntax } from "../elm-ast/infer";
+import {
+  type Ast,
+  type Node,
+  type Expression,
+  type Pattern,
+  type Range as ElmRange,
+  expressionChildren,
+  toModuleName,
+} from "../elm-ast/types";
+import type { CodeAction, Position } from "../protocol/messages";
+import { isExposedByImports } from "./auto-import";
+
+type CaseBlock = Extract<Expression, { type: "case" }>["case"];
+
+type Constructor = {
+  name: string;
+  args: (TypeSyntax | undefined)[];
+};
+
+const RESERVED = new Set(["if", "then", "else", "case", "of", "let", "in", "type", "module", "where", "import", "exposing", "as", "port"]);
+
+function posInRange(pos: Position, r: ElmRange): boolean {
+  const line = pos.line + 1;
+  const col = pos.character + 1;
+  if (line < r[0] || line > r[2]) return false;
+  if (line === r[0] && col < r[1]) return false;
+  if (line === r[2] && col > r[3]) return false;
+  return true;
+}
+
+// Branches for `patterns`, to insert after the last branch of a `case` whose
+// branches start at `indent`
+export function caseBranchesText(indent: string, patterns: string[]): string {
+  return patterns
+    .map((pattern) => {
+      const label = pattern.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+      return `\n\n${indent}${pattern} ->\n${indent}    Debug.todo "${label}"`;
+    })
+    .join("");
+}
+
+// "Add missing case branches" for the innermost `case` under the cursor that
+// matches on a custom type, with a branch for every constructor not handled yet
+export async function missingBranchesActions(
+  uri: string,
+  ast: Ast,
+  text: string,
+  position: Position,
+  elmJson: ElmJsonFile,
+  signal?: AbortSignal
+): Promise<CodeAction[]> {
+  const decl = ast.declarations.find((d) => posInRange(position, d.range));
+  if (decl?.value.type !== "function") return [];
+  const found = innermostCase(decl.value.function.declaration.value.expression, position);
+  if (!found || found.cases.some((branch) => matchesAnything(branch.pattern))) return [];
+
+  const typeName = await subjectType(ast, found, elmJson, signal);
+  if (!typeName) return [];
+  const constructors = await unionConstructors(typeName, ast, elmJson, signal);
+  if (!constructors) return [];
+
+  const covered = new Set(found.cases.flatMap((branch) => constructorName(branch.pattern) ?? []));
+  const missing = constructors.filter((c) => !covered.has(c.name));
+  if (missing.length === 0) return [];
+
+  const qualifier = constructorQualifier(ast, found, typeName);
+  // Elm doesn't allow shadowing, so argument names can't clash with anything
+  // in scope. Over-approximate with every name in the declaration.
+  const lines = text.split("\n");
+  const taken = new Set([
+    ...ast.declarations.flatMap((d) => (d.value.type === "function" ? [d.value.function.declaration.value.name.value] : [])),
+    ...lines.slice(decl.range[0] - 1, decl.range[2]).join("\n").match(/\b[a-z][\w']*/g) ?? [],
+  ]);
+  const patterns = missing.map((ctor) => {
+    const names = new Set<string>();
+    const args = ctor.args.map((arg) => {
+      const base = argumentName(arg);
+      let name = base;
+      for (let n = 2; taken.has(name) || names.has(name) || RESERVED.has(name); n++) name = `${base}${n}`;
+      names.add(name);
+      return name;
+    });
+    return [qualifier + ctor.name, ...args].join(" ");
+  });
+
+  const first = found.cases[0]!.pattern.range;
+  const last = found.cases[found.cases.length - 1]!.expression.range;
+  const end = { line: last[2] - 1, character: last[3] - 1 };
+  return [
+    {
+      title: "Add missing case branches",
+      kind: "quickfix",
+      edit: {
+        changes: {
+          [uri]: [{ range: { start: end, end }, newText: caseBranchesText(" ".repeat(first[1] - 1), patterns) }],
+        },
+      },
+    },
+  ];
+}
+
+function innermostCase(expr: Node<Expression>, position: Position): (CaseBlock & { range: ElmRange }) | undefined {
+  if (!expr?.value || !posInRange(position, expr.range)) return undefined;
+  for (const child of expressionChildren(expr.value)) {
+    const inner = innermostCase(child, position);
+    if (inner) return inner;
+  }
+  if (expr.value.type === "case") return { ...expr.value.case, range: expr.range };
+  return undefined;
+}
+
+function unwrap(node: Node<Pattern>): Pattern {
+  const p = node.value as any;
+  if (p.type !== "parentisized") return p;
+  return unwrap("range" in p.parentisized ? p.parentisized : p.parentisized.value);
+}
+
+function matchesAnything(node: Node<Pattern>): boolean {
+  const p = unwrap(node) as any;
+  return p.type === "all" || p.type === "var" || (p.type === "as" && matchesAnything(p.as.pattern));
+}
+
+function constructorName(node: Node<Pattern>): string | undefined {
+  const p = unwrap(node);
+  return p.type === "named" ? p.named.qualified.name : undefined;
+}
+
+// The qualified name of the custom type the `case` matches on, e.g. "Main.Msg"
+async function subjectType(
+  ast: Ast,
+  found: CaseBlock,
+  elmJson: ElmJsonFile,
+  signal?: AbortSignal
+): Promise<string | undefined> {
+  const r = found.expression.range;
+  try {
+    const { caseSubjects } = await inferTypes(ast, elmJson, signal);
+    const subject = caseSubjects.find((s) => s.range.every((n, i) => n === r[i]));
+    const type = subject && prune(subject.type);
+    if (type?.kind === "con") return type.name;
+  } catch {
+    // Fall back to the constructors the branches already use
+  }
+
+  const moduleName = toModuleName(ast);
+  for (const branch of found.cases) {
+    const p = unwrap(branch.pattern);
+    if (p.type !== "named" || p.named.qualified.moduleName.length > 0) continue;
+    for (const decl of ast.declarations) {
+      if (decl.value.type !== "typedecl") continue;
+      if (decl.value.typedecl.constructors.some((c) => c.value.name.value === p.named.qualified.name)) {
+        return `${moduleName}.${decl.value.typedecl.name.value}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+// The constructors of a custom type defined in this module, another project
+// module or a package
+async function unionConstructors(
+  typeName: string,
+  ast: Ast,
+  elmJson: ElmJsonFile,
+  signal?: AbortSignal
+): Promise<Constructor[] | undefined> {
+  const dot = typeName.lastIndexOf(".");
+  const moduleName = typeName.slice(0, dot);
+  const name = typeName.slice(dot + 1);
+
+  const moduleAst = moduleName === toModuleName(ast)
+    ? ast
+    : (await projectIndex.getModule(moduleName, elmJson, signal))?.ast;
+  if (moduleAst) {
+    for (const decl of moduleAst.declarations) {
+      if (decl.value.type !== "typedecl" || decl.value.typedecl.name.value !== name) continue;
+      return decl.value.typedecl.constructors.map((c) => ({
+        name: c.value.name.value,
+        args: c.value.arguments.map(annotationToSyntax),
+      }));
+    }
+    return undefined;
+  }
+
+  for (const dep of elmJson.dependencies) {
+    const union = (await loadDocs(dep)).find((d) => d.name === moduleName)?.unions.find((u) => u.name === name);
+    if (union) return union.cases.map(([ctor, args]) => ({ name: ctor, args: args.map(parseTypeString) }));
+  }
+  return undefined;
+}
+
+// "" for constructors usable unqualified, otherwise how the module refers to
+// the type's module: the qualifier branches already use, or the import's alias
+function constructorQualifier(ast: Ast, found: CaseBlock, typeName: string): string {
+  const dot = typeName.lastIndexOf(".");
+  const moduleName = typeName.slice(0, dot);
+  if (moduleName === toModuleName(ast)) return "";
+
+  for (const branch of found.cases) {
+    const p = unwrap(branch.pattern);
+    if (p.type === "named") {
+      const written = p.named.qualified.moduleName.join(".");
+      return written ? written + "." : "";
+    }
+  }
+  if (isExposedByImports(ast, moduleName, `${typeName.slice(dot + 1)}(..)`)) return "";
+  const imp = ast.imports.find((i) => i.value.moduleName.value.join(".") === moduleName);
+  return (imp?.value.moduleAlias?.value.join(".") ?? moduleName) + ".";
+}
+
+// A variable name for a constructor argument, from its type:
+// `User` -> user, `List Item` -> items, `Maybe String` -> maybeString
+function argumentName(type: TypeSyntax | undefined): string {
+  switch (type?.tag) {
+    case "var": return type.name;
+    case "record": return "record";
+    case "tuple": return "tuple";
+    case "fn": return "function";
+    case "named": {
+      const name = type.name.slice(type.name.lastIndexOf(".") + 1);
+      const arg = type.args[type.args.length - 1];
+      if ((name === "List" || name === "Array" || name === "Set") && arg) return plural(argumentName(arg));
+      if (name === "Maybe" && arg) {
+        const inner = argumentName(arg);
+        return "maybe" + inner[0]!.toUpperCase() + inner.slice(1);
+      }
+      // `URL` -> url, `HttpError` -> httpError
+      return name === name.toUpperCase() ? name.toLowerCase() : name[0]!.toLowerCase() + name.slice(1);
+    }
+    default: return "value";
+  }
+}
+
+function plural(name: string): string {
+  if (/(s|x|ch|sh)$/.test(name)) return name + "es";
+  if (/[^aeiou]y$/.test(name)) return name.slice(0, -1) + "ies";
+  return name + "s";
+}
@@ -0,0 +1,141 @@
+import { documentStore } from "../state/document-store";
+import { findElmJsonFor, uriToPath } from "../project/elm-json";
+import { isElmLandProject, urlToPageModule } from "../project/elm-land";
+import { parseCompleteCached } from "../state/ast-cache";
+import {
+  ErrorCodes,
+  RequestError,
+  type CodeAction,
+  type Diagnostic,
+  type Range,
+  type WorkspaceEdit,
+} from "../protocol/messages";
+import { throwIfCancelled } from "../protocol/cancellation";
+import {
+  elmLandCodeActions,
+  isPageKind,
+  scaffoldLayout,
+  scaffoldPage,
+  scaffoldShared,
+} from "./scaffold";
+import { addAnnotationActions } from "./annotation";
+import { compilerQuickFixes } from "./compiler-fixes";
+import { missingBranchesActions } from "./case-branches";
+import { organizeImports } from "./organize-imports";
+import { sendRequest } from "../server";
+
+export const COMMANDS = {
+  addPage: "elm-land.addPage",
+  addLayout: "elm-land.addLayout",
+  customizeShared: "elm-land.customizeShared",
+} as const;
+
+export const ORGANIZE_IMPORTS = "source.organizeImports";
+
+// Whether the client asked for actions of `kind`, given the kinds (or kind
+// prefixes such as "source") in the request's `only`
+function wants(kind: string, only: string[] | undefined): boolean {
+  return !only || only.some((k) => kind === k || kind.startsWith(k + "."));
+}
+
+export async function getCodeActions(
+  uri: string,
+  range: Range,
+  context: { diagnostics: Diagnostic[]; only?: string[] },
+  signal?: AbortSignal
+): Promise<CodeAction[] | null> {
+  const doc = documentStore.get(uri);
+  if (!doc) return null;
+
+  const elmJson = await findElmJsonFor(uriToPath(uri));
+  if (!elmJson) return null;
+
+  // Compiler fixes only need the text, so they're offered even when the
+  // document doesn't parse
+  const actions: CodeAction[] = [];
+  if (wants("quickfix", context.only)) {
+    actions.push(...(await compilerQuickFixes(uri, doc.text, context.diagnostics, elmJson, signal)));
+  }
+
+  const ast = await parseCompleteCached(doc.text, { key: uri });
+  if (!ast) return actions.length > 0 ? actions : null;
+  throwIfCancelled(signal);
+
+  if (wants("quickfix", context.only)) {
+    actions.push(...(await addAnnotationActions(uri, ast, range.start, elmJson, signal)));
+    actions.push(...(await missingBranchesActions(uri, ast, doc.text, range.start, elmJson, signal)));
+    if (isElmLandProject(elmJson)) {
+      actions.push(...elmLandCodeActions(ast, range.start, elmJson));
+    }
+  }
+  if (wants(ORGANIZE_IMPORTS, context.only)) {
+    const edits = await organizeImports(ast, doc.text, elmJson, signal);
+    if (edits.length > 0) {
+      actions.push({ title: "Organize imports", kind: ORGANIZE_IMPORTS, edit: { changes: { [uri]: edits } } });
+    }
+  }
+  return actions;
+}
+
+// Commands take a single argument object, e.g.
+//   elm-land.addPage         { uri, url, kind }  (or { uri, moduleName, kind })
+//   elm-land.addLayout       { uri, name }
+//   elm-land.customizeShared { uri }
+// where `uri` is any file in the project. The edit is applied through
+// workspace/applyEdit so clients without code action UI can still use them.
+export async function executeCommand(command: string, args: unknown[] = []): Promise<unknown> {
+  const arg = (args[0] ?? {}) as {
+    uri?: string;
+    url?: string;
+    moduleName?: string;
+    kind?: string;
+    name?: string;
+  };
+  if (typeof arg.uri !== "string") {
+    throw new RequestError(ErrorCodes.InvalidParams, `${command}: missing "uri" argument`);
+  }
+  const elmJson = await findElmJsonFor(uriToPath(arg.uri));
+  if (!elmJson || !isElmLandProject(elmJson)) {
+    throw new RequestError(ErrorCodes.InvalidParams, `${command}: ${arg.uri} is not in an Elm Land project`);
+  }
+
+  let label: string;
+  let edit: WorkspaceEdit;
+  switch (command) {
+    case COMMANDS.addPage: {
+      const moduleName = arg.moduleName ?? (arg.url !== undefined ? urlToPageModule(arg.url) : undefined);
+      if (!moduleName || !moduleName.startsWith("Pages.")) {
+        throw new RequestError(ErrorCodes.InvalidParams, `${command}: expected a "url" or a Pages.* "moduleName"`);
+      }
+      const kind = arg.kind ?? "static";
+      if (!isPageKind(kind)) {
+        throw new RequestError(ErrorCodes.InvalidParams, `${command}: unknown page kind "${kind}"`);
+      }
+      label = `Create ${kind} page ${moduleName}`;
+      edit = scaffoldPage(moduleName, kind, elmJson);
+      break;
+    }
+
+    case COMMANDS.addLayout: {
+      if (typeof arg.name !== "string" || !/^\p{Lu}[\w]*(\.\p{Lu}[\w]*)*$/u.test(arg.name)) {
+        throw new RequestError(ErrorCodes.InvalidParams, `${command}: expected a layout "name"`);
+      }
+      const moduleName = arg.name.startsWith("Layouts.") ? arg.name : `Layouts.${arg.name}`;
+      label = `Create layout ${moduleName}`;
+      edit = scaffoldLayout(moduleName, elmJson);
+      break;
+    }
+
+    case COMMANDS.customizeShared: {
+      label = "Customize Shared module";
+      edit = scaffoldShared(elmJson);
+      break;
+    }
+
+    default:
+      throw new RequestError(ErrorCodes.InvalidParams, `Unknown command: ${command}`);
+  }
+
+  if ((edit.documentChanges ?? []).length === 0) return { applied: false };
+  return sendRequest("workspace/applyEdit", { label, edit });
+}
@@ -0,0 +1,103 @@
+import { documentStore } from "../state/document-store";
+import { parseCached } from "../state/ast-cache";
+import {
+  type Ast,
+  type Node,
+  type Declaration,
+  type Range as ElmRange,
+  isExposedFromModule,
+  toModuleData,
+} from "../elm-ast/types";
+import type { CodeLens, Location, Range } from "../protocol/messages";
+import { throwIfCancelled } from "../protocol/cancellation";
+import { findReferences } from "./references";
+
+// Run by the client itself, which shows the locations it's given
+const SHOW_REFERENCES = "editor.action.showReferences";
+
+// Kept by the client between `textDocument/codeLens` and `codeLens/resolve`
+type LensData = {
+  uri: string;
+  // Exposed for other modules to use, so worth saying when none do
+  exposed: boolean;
+};
+
+function elmRangeToLsp(r: ElmRange): Range {
+  return {
+    start: { line: r[0] - 1, character: r[1] - 1 },
+    end: { line: r[2] - 1, character: r[3] - 1 },
+  };
+}
+
+async function documentAst(uri: string): Promise<Ast | undefined> {
+  const doc = documentStore.get(uri);
+  if (!doc) return undefined;
+  return parseCached(doc.text, { key: uri });
+}
+
+// A lens on each top-level declaration. Counting references means looking
+// through the whole project, so that waits for `codeLens/resolve`.
+export async function getCodeLenses(uri: string): Promise<CodeLens[]> {
+  const ast = await documentAst(uri);
+  if (!ast) return [];
+
+  const lenses: CodeLens[] = [];
+  for (const decl of ast.declarations) {
+    const name = lensName(decl.value);
+    if (!name) continue;
+    // `main` is exposed for the compiler rather than for other modules
+    const exposed = name.value !== "main" && isExposedFromModule(ast, name.value);
+    const data: LensData = { uri, exposed };
+    lenses.push({ range: elmRangeToLsp(name.range), data });
+  }
+  return lenses;
+}
+
+// Where the lens goes: the signature if there is one, so that the lens sits
+// above it rather than between it and the definition
+function lensName(decl: Declaration): Node<string> | undefined {
+  switch (decl.type) {
+    case "function": return decl.function.signature?.value.name ?? decl.function.declaration.value.name;
+    case "typeAlias": return decl.typeAlias.name;
+    case "typedecl": return decl.typedecl.name;
+    case "port": return decl.port.name;
+    default: return undefined;
+  }
+}
+
+export async function resolveCodeLens(lens: CodeLens, signal?: AbortSignal): Promise<CodeLens> {
+  const { uri, exposed } = lens.data as LensData;
+  const ast = await documentAst(uri);
+  const references = ast ? usages(ast, uri, await findReferences(uri, lens.range.start, true, signal)) : [];
+  throwIfCancelled(signal);
+
+  let title = references.length === 1 ? "1 reference" : `${references.length} references`;
+  if (exposed && !references.some((ref) => ref.uri !== uri)) {
+    title += " | exposed but not used by other modules";
+  }
+
+  return {
+    ...lens,
+    command: { title, command: SHOW_REFERENCES, arguments: [uri, lens.range.start, references] },
+  };
+}
+
+// References minus the declaration itself: its name, its signature and the
+// module's exposing list
+function usages(ast: Ast, uri: string, references: Location[]): Location[] {
+  const header = elmRangeToLsp(toModuleData(ast).exposingList.range);
+  const declarations = ast.declarations.flatMap((decl) => {
+    const d = decl.value;
+    if (d.type !== "function") return lensName(d) ? [lensName(d)!.range] : [];
+    const names = [d.function.declaration.value.name.range];
+    if (d.function.signature) names.push(d.function.signature.value.name.range);
+    return names;
+  });
+
+  return references.filter((ref) => {
+    if (ref.uri !== uri) return true;
+    const { line, character } = ref.range.start;
+    if (line >= header.start.line && line <= header.end.line) return false;
+    return !declarations.some((r) => r[0] - 1 === line && r[1] - 1 === character);
+  });
+}
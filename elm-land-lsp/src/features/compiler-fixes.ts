@@ -0,0 +1,163 @@
+import { loadDocs, type ElmJsonFile } from "../project/elm-json";
+import { projectIndex } from "../state/project-index";
+import type { CodeAction, Diagnostic, Position, TextEdit } from "../protocol/messages";
+import { moduleImportEdits, parseImportHeader } from "./auto-import";
+import { caseBranchesText } from "./case-branches";
+import type { ElmCompilerProblem } from "./diagnostics";
+
+// Quick fixes for problems reported by `elm make`, worked out from the
+// compiler's message kept in each diagnostic's `data`. Ranges come from the
+// diagnostics the client sends back, which it keeps up to date with edits.
+export async function compilerQuickFixes(
+  uri: string,
+  text: string,
+  diagnostics: Diagnostic[],
+  elmJson: ElmJsonFile,
+  signal?: AbortSignal
+): Promise<CodeAction[]> {
+  const lines = text.split("\n");
+  const actions: CodeAction[] = [];
+
+  for (const diagnostic of diagnostics) {
+    const problem = compilerProblem(diagnostic);
+    if (!problem) continue;
+    const message = problem.message.map((p) => (typeof p === "string" ? p : p.string)).join("");
+    const fix = (title: string, edits: TextEdit[], isPreferred = false): CodeAction => ({
+      title,
+      kind: "quickfix",
+      diagnostics: [diagnostic],
+      isPreferred,
+      edit: { changes: { [uri]: edits } },
+    });
+
+    const { start, end } = diagnostic.range;
+    // The name the compiler couldn't find, e.g. `Html.dvi`
+    const name = (lines[start.line] ?? "").slice(start.character).match(/^[\w.]+/)?.[0];
+    const missingImport = message.match(/I\s+cannot\s+find\s+a\s+`([\w.]+)`\s+import/)?.[1];
+
+    if (name && missingImport) {
+      const header = await parseImportHeader(text);
+      for (const candidate of await importCandidates(missingImport, elmJson, signal)) {
+        const edits = header ? moduleImportEdits(header, candidate.moduleName, candidate.alias) : [];
+        if (edits.length === 0) continue;
+        const title = candidate.alias
+          ? `Add import ${candidate.moduleName} as ${candidate.alias}`
+          : `Add import ${candidate.moduleName}`;
+        actions.push(fix(title, edits, true));
+      }
+    }
+
+    if (name) {
+      // Suggested module names replace just the qualifier
+      const rest = missingImport ? name.slice(missingImport.length) : "";
+      for (const suggestion of indentedList(message, /These\s+names\s+seem\s+close\s+though:/)) {
+        const replacement = suggestion + rest;
+        const range = { start, end: { line: start.line, character: start.character + name.length } };
+        actions.push(fix(`Change to ${replacement}`, [{ range, newText: replacement }]));
+      }
+    }
+
+    if (/This\s+`case`\s+does\s+not\s+have\s+branches/.test(message)) {
+      const patterns = indentedList(message, /Missing\s+possibilities\s+include:/);
+      const edit = missingBranchesEdit(lines, start, end, patterns);
+      if (edit) actions.push(fix("Add missing case branches", [edit], true));
+    }
+
+    const missingFields = message.match(/Looks\s+like\s+a\s+record\s+is\s+missing([^.]*)\./)?.[1];
+    if (missingFields) {
+      const fields = Array.from(missingFields.matchAll(/`(\w+)`/g), (m) => m[1]!);
+      const edit = missingFieldsEdit(lines, start, end, fields);
+      if (edit) {
+        const title = fields.length === 1 ? `Add missing field ${fields[0]}` : `Add missing fields ${fields.join(", ")}`;
+        actions.push(fix(title, [edit], true));
+      }
+    }
+  }
+  return actions;
+}
+
+function compilerProblem(diagnostic: Diagnostic): ElmCompilerProblem | undefined {
+  const data = diagnostic.data as ElmCompilerProblem | undefined;
+  if (diagnostic.source !== "elm" || !data || !Array.isArray(data.message)) return undefined;
+  return data;
+}
+
+// The lines indented by four spaces that follow `heading` in a compiler message
+function indentedList(message: string, heading: RegExp): string[] {
+  const match = heading.exec(message);
+  if (!match) return [];
+  const after = message.slice(match.index + match[0].length).replace(/^\n*/, "");
+  const items: string[] = [];
+  for (const line of after.split("\n")) {
+    if (!line.startsWith("    ")) break;
+    items.push(line.trim());
+  }
+  return items;
+}
+
+// Modules that `qualifier` could refer to: a module with that name, or one
+// that other modules in the project import with that alias
+async function importCandidates(
+  qualifier: string,
+  elmJson: ElmJsonFile,
+  signal?: AbortSignal
+): Promise<{ moduleName: string; alias?: string }[]> {
+  const candidates: { moduleName: string; alias?: string }[] = [];
+  const modules = await projectIndex.modules(elmJson, signal);
+
+  let exists = modules.some((mod) => mod.moduleName === qualifier);
+  for (const dep of elmJson.dependencies) {
+    if (exists) break;
+    exists = (await loadDocs(dep)).some((doc) => doc.name === qualifier);
+  }
+  if (exists) candidates.push({ moduleName: qualifier });
+
+  for (const mod of modules) {
+    for (const imp of mod.ast.imports) {
+      if (imp.value.moduleAlias?.value.join(".") !== qualifier) continue;
+      const moduleName = imp.value.moduleName.value.join(".");
+      if (!candidates.some((c) => c.moduleName === moduleName)) candidates.push({ moduleName, alias: qualifier });
+    }
+  }
+  return candidates;
+}
+
+// New branches after the last one, indented like the first
+function missingBranchesEdit(lines: string[], start: Position, end: Position, patterns: string[]): TextEdit | undefined {
+  if (patterns.length === 0) return undefined;
+  const firstBranch = lines.slice(start.line + 1, end.line + 1).find((line) => line.trim() !== "");
+  if (!firstBranch) return undefined;
+  const indent = firstBranch.match(/^\s*/)![0];
+  return { range: { start: end, end }, newText: caseBranchesText(indent, patterns) };
+}
+
+// Adds fields to the record literal the diagnostic points at, before its
+// closing brace. Record updates and other expressions are left alone.
+function missingFieldsEdit(lines: string[], start: Position, end: Position, fields: string[]): TextEdit | undefined {
+  if (fields.length === 0) return undefined;
+  const source = lines.slice(start.line, end.line + 1);
+  source[source.length - 1] = source[source.length - 1]!.slice(0, end.character);
+  source[0] = source[0]!.slice(start.character);
+  const record = source.join("\n");
+  if (!/^\{[\s\S]*\}$/.test(record) || /^\{\s*\w+\s*\|/.test(record)) return undefined;
+
+  const assignments = fields.map((f) => `${f} = Debug.todo "${f}"`);
+
+  if (/^\{\s*\}$/.test(record)) {
+    return { range: { start, end }, newText: `{ ${assignments.join(", ")} }` };
+  }
+
+  // elm-format puts the closing brace of a multi-line record on its own line
+  const braceLine = lines[end.line]!.slice(0, end.character - 1);
+  if (start.line !== end.line && braceLine.trim() === "") {
+    const position = { line: end.line, character: 0 };
+    return {
+      range: { start: position, end: position },
+      newText: assignments.map((a) => `${braceLine}, ${a}\n`).join(""),
+    };
+  }
+
+  // Right after the last field's value, keeping the space before the brace
+  const position = { line: end.line, character: braceLine.trimEnd().length };
+  return { range: { start: position, end: position }, newText: assignments.map((a) => `, ${a}`).join("") };
+}
@@ -1,11 +1,11 @@
-import * as fs from "fs/promises";
 import { documentStore } from "../state/document-store";
+import { projectIndex, type IndexedModule } from "../state/project-index";
 import { findElmJsonFor, uriToPath, loadDocs, type ModuleDoc } from "../project/elm-json";
-import { resolveModuleToFile } from "../project/module-resolver";
-import { parse } from "../elm-ast/bridge";
+import { throwIfCancelled } from "../protocol/cancellation";
+import type { TextEdit } from "../protocol/messages";
+import { importEdits, isExposedByImports, parseImportHeader } from "./auto-import";
 import {
   toDeclarationName,
-  isExposedFromModule,
   typeAnnotationToString,
   type Declaration,
 } from "../elm-ast/types";
@@ -25,8 +25,15 @@ type CompletionItem = {
   kind: number;
   detail?: string;
   documentation?: string;
+  labelDetails?: { description: string };
+  sortText?: string;
+  additionalTextEdits?: TextEdit[];
 };
 
+// A completion for something a module exposes, with how an import's
+// exposing list names it: "view", "Model" or "Msg(..)" for constructors
+type ExposedMember = { item: CompletionItem; exposing: string };
+
 // Extract the "Module.Name." prefix before the cursor
 function getModulePrefix(
   text: string,
@@ -68,89 +75,96 @@ function resolveAlias(
   return candidates;
 }
 
-// Get completions from a local Elm file's AST
-async function completionsFromLocalModule(
-  filePath: string,
-  moduleName: string
-): Promise<CompletionItem[]> {
-  try {
-    const source = await fs.readFile(filePath, "utf-8");
-    const ast = await parse(source);
-    if (!ast) return [];
-
-    const items: CompletionItem[] = [];
-    for (const decl of ast.declarations) {
-      const name = toDeclarationName(decl.value);
-      if (!name) continue;
-      if (!isExposedFromModule(ast, name)) continue;
+// Get completions from an indexed project module
+function completionsFromLocalModule(mod: IndexedModule, exportedOnly = true): ExposedMember[] {
+  const items: ExposedMember[] = [];
+  for (const decl of mod.ast.declarations) {
+    const name = toDeclarationName(decl.value);
+    if (!name) continue;
+    if (exportedOnly && !mod.exports.includes(name)) continue;
 
-      items.push({
+    items.push({
+      item: {
         label: name,
         kind: declToCompletionKind(decl.value),
         detail: getTypeSignature(decl.value),
-        documentation: moduleName,
-      });
+        documentation: mod.moduleName,
+      },
+      exposing: name,
+    });
 
-      // Add constructors for exposed custom types
-      if (decl.value.type === "typedecl") {
-        for (const ctor of decl.value.typedecl.constructors) {
-          items.push({
+    // Add constructors for exposed custom types, unless the type is opaque
+    if (decl.value.type === "typedecl") {
+      for (const ctor of decl.value.typedecl.constructors) {
+        if (exportedOnly && !mod.exports.includes(ctor.value.name.value)) continue;
+        items.push({
+          item: {
             label: ctor.value.name.value,
             kind: CompletionItemKind.EnumMember,
             detail: `${ctor.value.name.value} constructor`,
-            documentation: moduleName,
-          });
-        }
+            documentation: mod.moduleName,
+          },
+          exposing: `${name}(..)`,
+        });
       }
     }
-
-    return items;
-  } catch {
-    return [];
   }
+  return items;
 }
 
 // Get completions from package docs.json
 function completionsFromDocs(
   docs: ModuleDoc[],
   moduleName: string
-): CompletionItem[] {
+): ExposedMember[] {
   const mod = docs.find((d) => d.name === moduleName);
   if (!mod) return [];
 
-  const items: CompletionItem[] = [];
+  const items: ExposedMember[] = [];
 
   for (const v of mod.values) {
     items.push({
-      label: v.name,
-      kind: CompletionItemKind.Function,
-      detail: v.type,
-      documentation: v.comment.split("\n")[0] || undefined,
+      item: {
+        label: v.name,
+        kind: CompletionItemKind.Function,
+        detail: v.type,
+        documentation: v.comment.split("\n")[0] || undefined,
+      },
+      exposing: v.name,
     });
   }
 
   for (const u of mod.unions) {
     items.push({
-      label: u.name,
-      kind: CompletionItemKind.Struct,
-      detail: `type ${u.name}`,
-      documentation: u.comment.split("\n")[0] || undefined,
+      item: {
+        label: u.name,
+        kind: CompletionItemKind.Struct,
+        detail: `type ${u.name}`,
+        documentation: u.comment.split("\n")[0] || undefined,
+      },
+      exposing: u.name,
     });
     for (const [ctorName] of u.cases) {
       items.push({
-        label: ctorName,
-        kind: CompletionItemKind.EnumMember,
-        detail: `${u.name} constructor`,
+        item: {
+          label: ctorName,
+          kind: CompletionItemKind.EnumMember,
+          detail: `${u.name} constructor`,
+        },
+        exposing: `${u.name}(..)`,
       });
     }
   }
 
   for (const a of mod.aliases) {
     items.push({
-      label: a.name,
-      kind: CompletionItemKind.Struct,
-      detail: `type alias ${a.name} = ${a.type}`,
-      documentation: a.comment.split("\n")[0] || undefined,
+      item: {
+        label: a.name,
+        kind: CompletionItemKind.Struct,
+        detail: `type alias ${a.name} = ${a.type}`,
+        documentation: a.comment.split("\n")[0] || undefined,
+      },
+      exposing: a.name,
     });
   }
 
@@ -206,13 +220,14 @@ function getTypeSignature(decl: Declaration): string | undefined {
 
 export async function getCompletions(
   uri: string,
-  position: { line: number; character: number }
+  position: { line: number; character: number },
+  signal?: AbortSignal
 ): Promise<CompletionItem[] | null> {
   const doc = documentStore.get(uri);
   if (!doc) return null;
 
   const prefix = getModulePrefix(doc.text, position.line, position.character);
-  if (!prefix) return null;
+  if (!prefix) return unqualifiedCompletions(uri, doc.text, position, signal);
 
   const filePath = uriToPath(uri);
   const elmJson = await findElmJsonFor(filePath);
@@ -226,20 +241,22 @@ export async function getCompletions(
 
   // Check local project files
   for (const modName of resolvedNames) {
-    const localPath = await resolveModuleToFile(modName, elmJson);
-    if (localPath) {
-      items.push(...await completionsFromLocalModule(localPath, modName));
+    throwIfCancelled(signal);
+    const local = await projectIndex.getModule(modName, elmJson, signal);
+    if (local) {
+      items.push(...completionsFromLocalModule(local).map((m) => m.item));
     }
   }
 
   // Check package dependencies
   for (const dep of elmJson.dependencies) {
+    throwIfCancelled(signal);
     const docs = await loadDocs(dep);
     for (const modDoc of docs) {
       allModuleNames.push(modDoc.name);
     }
     for (const modName of resolvedNames) {
-      items.push(...completionsFromDocs(docs, modName));
+      items.push(...completionsFromDocs(docs, modName).map((m) => m.item));
     }
   }
 
@@ -248,3 +265,67 @@ export async function getCompletions(
 
   return items.length > 0 ? items : null;
 }
+
+// The identifier being typed, unless it follows a dot (a qualified name or a
+// record field)
+function getWordPrefix(text: string, line: number, character: number): string | null {
+  const lineText = text.split("\n")[line]?.slice(0, character) ?? "";
+  if (/^(import|module)\s/.test(lineText)) return null;
+  const match = lineText.match(/(?:^|[^\w.])([A-Za-z]\w*)$/);
+  return match ? match[1]! : null;
+}
+
+// Every name the module could use unqualified, starting with what is typed so
+// far. Names that aren't imported yet carry the edit that imports them.
+async function unqualifiedCompletions(
+  uri: string,
+  text: string,
+  position: { line: number; character: number },
+  signal?: AbortSignal
+): Promise<CompletionItem[] | null> {
+  const word = getWordPrefix(text, position.line, position.character);
+  if (!word) return null;
+
+  const elmJson = await findElmJsonFor(uriToPath(uri));
+  if (!elmJson) return null;
+  const header = await parseImportHeader(text);
+  if (!header) return null;
+  throwIfCancelled(signal);
+
+  const items: CompletionItem[] = [];
+  const add = (members: ExposedMember[], moduleName: string) => {
+    for (const { item, exposing } of members) {
+      if (!item.label.startsWith(word)) continue;
+      if (isExposedByImports(header, moduleName, exposing)) {
+        items.push({ ...item, sortText: "0" + item.label });
+      } else {
+        items.push({
+          ...item,
+          labelDetails: { description: moduleName },
+          sortText: "1" + item.label,
+          additionalTextEdits: importEdits(header, moduleName, exposing),
+        });
+      }
+    }
+  };
+
+  for (const mod of await projectIndex.modules(elmJson, signal)) {
+    if (mod.uri === uri) {
+      // The module's own declarations need no import
+      for (const { item } of completionsFromLocalModule(mod, false)) {
+        if (item.label.startsWith(word)) items.push({ ...item, sortText: "0" + item.label });
+      }
+    } else {
+      add(completionsFromLocalModule(mod), mod.moduleName);
+    }
+  }
+
+  for (const dep of elmJson.dependencies) {
+    throwIfCancelled(signal);
+    for (const modDoc of await loadDocs(dep)) {
+      add(completionsFromDocs([modDoc], modDoc.name), modDoc.name);
+    }
+  }
+
+  return items.length > 0 ? items : null;
+}
@@ -1,9 +1,16 @@
-import * as fs from "fs/promises";
-import { parse } from "../elm-ast/bridge";
 import { documentStore } from "../state/document-store";
-import { getCachedAst, setCachedAst } from "../state/ast-cache";
+import { projectIndex } from "../state/project-index";
+import { parseCached } from "../state/ast-cache";
 import { findElmJsonFor, uriToPath, pathToUri, type ElmJsonFile } from "../project/elm-json";
 import { resolveModuleToFile } from "../project/module-resolver";
+import {
+  ROUTE_PATH_MODULE,
+  isPageModule,
+  pageModuleToRouteName,
+  findPageForRoute,
+  findPageForUrl,
+  type PageRoute,
+} from "../project/elm-land";
 import {
   type Ast,
   type Node,
@@ -36,15 +43,6 @@ function posInRange(pos: Position, r: ElmRange): boolean {
   return true;
 }
 
-async function parseFile(filePath: string): Promise<Ast | undefined> {
-  try {
-    const source = await fs.readFile(filePath, "utf-8");
-    return await parse(source);
-  } catch {
-    return undefined;
-  }
-}
-
 function getExposedName(expose: any): string {
   switch (expose.type) {
     case "function": return expose.function.name;
@@ -72,7 +70,7 @@ function bindingsFromPattern(pattern: Node<Pattern>): ScopeBinding[] {
     case "var": return [{ name: p.var.value, range: pattern.range }];
     case "as": return [...bindingsFromPattern(p.as.pattern), { name: p.as.name.value, range: p.as.name.range }];
     case "tuple": return ((p.tuple as any).value ?? p.tuple).flatMap(bindingsFromPattern);
-    case "uncons": return [...bindingsFromPattern(p.uncons.hd), ...bindingsFromPattern(p.uncons.tl)];
+    case "uncons": return [...bindingsFromPattern(p.uncons.left), ...bindingsFromPattern(p.uncons.right)];
     case "list": return ((p.list as any).value ?? p.list).flatMap(bindingsFromPattern);
     case "named": return (p.named.patterns ?? []).flatMap(bindingsFromPattern);
     case "parentisized": return bindingsFromPattern(p.parentisized);
@@ -96,10 +94,8 @@ export async function getDefinition(
   const doc = documentStore.get(uri);
   if (!doc) return null;
 
-  const cached = getCachedAst(uri, doc.version);
-  const ast = cached ?? (await parse(doc.text));
+  const ast = await parseCached(doc.text, { key: uri });
   if (!ast) return null;
-  if (!cached) setCachedAst(uri, doc.version, ast);
 
   const filePath = uriToPath(uri);
   const elmJson = await findElmJsonFor(filePath);
@@ -108,8 +104,14 @@ export async function getDefinition(
   const tracker = createImportTracker(ast);
   const ctx: Ctx = { uri, ast, elmJson, tracker };
 
-  // 1. Module definition exposing list
+  // 1. Module name of an Elm Land page jumps to the route it produces
   const modData = toModuleData(ast);
+  if (posInRange(position, modData.moduleName.range)) {
+    const moduleName = modData.moduleName.value.join(".");
+    return isPageModule(moduleName) ? routeLocationForPage(moduleName, elmJson) : null;
+  }
+
+  // 2. Module definition exposing list
   if (modData.exposingList.value.type === "explicit") {
     for (const exposed of modData.exposingList.value.explicit) {
       if (posInRange(position, exposed.range)) {
@@ -123,7 +125,7 @@ export async function getDefinition(
     }
   }
 
-  // 2. Imports
+  // 3. Imports
   for (const imp of ast.imports) {
     if (posInRange(position, imp.value.moduleName.range)) {
       const moduleName = imp.value.moduleName.value.join(".");
@@ -145,7 +147,7 @@ export async function getDefinition(
     }
   }
 
-  // 3. Declarations
+  // 4. Declarations
   for (const decl of ast.declarations) {
     if (!posInRange(position, decl.range)) continue;
     const d = decl.value;
@@ -332,7 +334,7 @@ async function findInPattern(
     for (const sub of ((p.tuple as any).value ?? p.tuple)) { const r = await findInPattern(sub, position, ctx); if (r) return r; }
   }
   if (p.type === "uncons") {
-    return (await findInPattern(p.uncons.hd, position, ctx)) ?? (await findInPattern(p.uncons.tl, position, ctx));
+    return (await findInPattern(p.uncons.left, position, ctx)) ?? (await findInPattern(p.uncons.right, position, ctx));
   }
   if (p.type === "list") {
     for (const sub of p.list) { const r = await findInPattern(sub, position, ctx); if (r) return r; }
@@ -516,6 +518,13 @@ async function findInExpr(
     case "recordAccess":
       return findInExpr(e.recordAccess.expression, position, ctx, scope);
 
+    case "literal": {
+      // Route strings like "/users/42" jump to the Elm Land page they match
+      if (!e.literal.startsWith("/")) return null;
+      const page = findPageForUrl(e.literal, ctx.elmJson);
+      return page ? pageLocation(page, ctx.elmJson) : null;
+    }
+
     default:
       return null;
   }
@@ -528,19 +537,47 @@ async function findInModule(
   name: string,
   elmJson: ElmJsonFile
 ): Promise<Location | null> {
-  const filePath = await resolveModuleToFile(moduleName, elmJson);
-  if (!filePath) return null;
+  // Generated Route.Path constructors jump to their page rather than into .elm-land/src
+  if (moduleName === ROUTE_PATH_MODULE) {
+    const page = findPageForRoute(name, elmJson);
+    if (page) return pageLocation(page, elmJson);
+  }
 
-  const targetAst = await parseFile(filePath);
-  if (!targetAst) return null;
+  const target = await projectIndex.getModule(moduleName, elmJson);
+  if (!target) return null;
 
-  if (!isExposedFromModule(targetAst, name)) return null;
+  if (!isExposedFromModule(target.ast, name)) return null;
 
-  const decl = findDeclarationWithName(targetAst, name);
-  if (decl) return { uri: pathToUri(filePath), range: elmRangeToLsp(decl.range) };
+  const decl = findDeclarationWithName(target.ast, name);
+  if (decl) return { uri: target.uri, range: elmRangeToLsp(decl.range) };
 
-  const variant = findCustomTypeVariantWithName(targetAst, name);
-  if (variant) return { uri: pathToUri(filePath), range: elmRangeToLsp(variant.constructor.range) };
+  const variant = findCustomTypeVariantWithName(target.ast, name);
+  if (variant) return { uri: target.uri, range: elmRangeToLsp(variant.constructor.range) };
 
   return null;
 }
+
+// --- Elm Land routes ---
+
+async function pageLocation(page: PageRoute, elmJson: ElmJsonFile): Promise<Location> {
+  const pageModule = await projectIndex.getModule(page.moduleName, elmJson);
+  const decl = pageModule ? findDeclarationWithName(pageModule.ast, "page") : undefined;
+  return {
+    uri: pathToUri(page.filePath),
+    range: decl
+      ? elmRangeToLsp(decl.range)
+      : { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+  };
+}
+
+async function routeLocationForPage(
+  moduleName: string,
+  elmJson: ElmJsonFile
+): Promise<Location | null> {
+  const routePath = await projectIndex.getModule(ROUTE_PATH_MODULE, elmJson);
+  if (!routePath) return null;
+
+  const variant = findCustomTypeVariantWithName(routePath.ast, pageModuleToRouteName(moduleName));
+  if (!variant) return null;
+  return { uri: routePath.uri, range: elmRangeToLsp(variant.constructor.range) };
+}
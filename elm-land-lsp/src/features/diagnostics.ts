@@ -1,10 +1,19 @@
 import * as fs from "fs";
+import * as path from "path";
 import { sendNotification } from "../server";
-import { findElmJsonFor, uriToPath } from "../project/elm-json";
+import { findElmJsonFor, pathToUri, uriToPath, type ElmJsonFile } from "../project/elm-json";
+import { isElmLandProject } from "../project/elm-land";
+import { resolveModuleToFile } from "../project/module-resolver";
+import { documentStore } from "../state/document-store";
+import { getCachedAst, setCachedAst } from "../state/ast-cache";
+import { parseWithResult } from "../elm-ast/bridge";
+import type { Range as ElmRange } from "../elm-ast/types";
 import type { Diagnostic, Range } from "../protocol/messages";
-import { DiagnosticSeverity } from "../protocol/messages";
+import { DiagnosticSeverity, DiagnosticTag } from "../protocol/messages";
+import { findUnusedCode, type UnusedCode } from "./unused";
+import { locateParseError } from "./parse-errors";
 
-type ElmCompilerProblem = {
+export type ElmCompilerProblem = {
   title: string;
   region: {
     start: { line: number; column: number };
@@ -60,33 +69,114 @@ function npxEnv(projectFolder: string): Record<string, string | undefined> {
   };
 }
 
-let debounceTimers = new Map<string, Timer>();
+// Diagnostics come from `elm make` and from the server's own checks. Each
+// publishDiagnostics replaces everything the client shows for a file, so the
+// latest results of every source are kept and sent together.
+type DiagnosticSource = "elm" | "parse" | "unused";
+
+const diagnosticsBySource = new Map<string, Map<DiagnosticSource, Diagnostic[]>>();
+
+function publishDiagnostics(uri: string, updates: Partial<Record<DiagnosticSource, Diagnostic[]>>): void {
+  let sources = diagnosticsBySource.get(uri);
+  if (!sources) {
+    sources = new Map();
+    diagnosticsBySource.set(uri, sources);
+  }
+  for (const [source, diagnostics] of Object.entries(updates)) {
+    sources.set(source as DiagnosticSource, diagnostics);
+  }
+  sendNotification("textDocument/publishDiagnostics", {
+    uri,
+    diagnostics: Array.from(sources.values()).flat(),
+  });
+}
+
+export type DiagnosticsOptions = {
+  // "project" compiles the project's entry points along with saved files, so
+  // problems show up in files that aren't open. "file" compiles saved files only.
+  mode?: "project" | "file";
+  // Entry points of projects that aren't Elm Land, as module names ("Main")
+  // or paths relative to the project folder ("src/Main.elm")
+  entryPoints?: string[];
+};
+
+let options: Required<DiagnosticsOptions> = { mode: "project", entryPoints: [] };
+
+export function configureDiagnostics(settings: DiagnosticsOptions = {}): void {
+  options = { ...options, ...settings };
+}
+
+// Compiles are debounced and run one at a time per project, since they share
+// elm-stuff. Saves that land while waiting are compiled together.
+const debounceTimers = new Map<string, Timer>();
+const pendingFiles = new Map<string, Set<string>>();
+const compiles = new Map<string, Promise<void>>();
+
+// Files the last project compile reported problems in, by project folder
+const reportedFiles = new Map<string, Set<string>>();
 
 export function runDiagnostics(uri: string): void {
-  const existing = debounceTimers.get(uri);
+  scheduleCompile(uri).catch((err) => {
+    console.error("[diagnostics] Compiling failed:", err);
+  });
+}
+
+async function scheduleCompile(uri: string): Promise<void> {
+  let filePath = uriToPath(uri);
+  try { filePath = fs.realpathSync(filePath); } catch {}
+  const elmJson = await findElmJsonFor(filePath);
+  if (!elmJson) return;
+
+  const folder = elmJson.projectFolder;
+  const files = pendingFiles.get(folder) ?? new Set();
+  files.add(filePath);
+  pendingFiles.set(folder, files);
+
+  const existing = debounceTimers.get(folder);
   if (existing) clearTimeout(existing);
 
   debounceTimers.set(
-    uri,
+    folder,
     setTimeout(() => {
-      debounceTimers.delete(uri);
-      runDiagnosticsNow(uri);
+      debounceTimers.delete(folder);
+      pendingFiles.delete(folder);
+      const previous = compiles.get(folder) ?? Promise.resolve();
+      compiles.set(folder, previous.then(() => compileNow(elmJson, Array.from(files))));
     }, 300)
   );
 }
 
-async function runDiagnosticsNow(uri: string): Promise<void> {
-  let filePath = uriToPath(uri);
-  try { filePath = fs.realpathSync(filePath); } catch {}
-  const elmJson = await findElmJsonFor(filePath);
-  if (!elmJson) return;
+// What `elm make` compiles besides saved files: Elm Land's generated Main,
+// or the configured entry points
+async function entryPoints(elmJson: ElmJsonFile): Promise<string[]> {
+  if (options.mode === "file") return [];
+
+  if (isElmLandProject(elmJson)) {
+    const main = path.join(elmJson.projectFolder, ".elm-land", "src", "Main.elm");
+    return fs.existsSync(main) ? [main] : [];
+  }
+
+  const found: string[] = [];
+  for (const entry of options.entryPoints) {
+    const file = entry.endsWith(".elm")
+      ? path.resolve(elmJson.projectFolder, entry)
+      : await resolveModuleToFile(entry, elmJson);
+    if (file && fs.existsSync(file)) found.push(file);
+  }
+  return found;
+}
+
+async function compileNow(elmJson: ElmJsonFile, savedFiles: string[]): Promise<void> {
+  const folder = elmJson.projectFolder;
+  const entries = await entryPoints(elmJson);
+  const targets = Array.from(new Set([...entries, ...savedFiles]));
 
   try {
     const proc = Bun.spawn(
-      ["elm", "make", filePath, "--output=/dev/null", "--report=json"],
+      ["elm", "make", ...targets, "--output=/dev/null", "--report=json"],
       {
-        cwd: elmJson.projectFolder,
-        env: npxEnv(elmJson.projectFolder),
+        cwd: folder,
+        env: npxEnv(folder),
         stdout: "pipe",
         stderr: "pipe",
       }
@@ -96,50 +186,63 @@ async function runDiagnosticsNow(uri: string): Promise<void> {
     await proc.exited;
 
     const allDiagnostics = new Map<string, Diagnostic[]>();
+    // Whether `elm make` got as far as checking modules. If it didn't, files
+    // missing from the report aren't known to be clean.
+    let checkedModules = true;
 
     if (stderr.trim()) {
       try {
         const report: ElmReport = JSON.parse(stderr);
         if (report.type === "compile-errors") {
           for (const error of report.errors) {
-            let errorPath = error.path.startsWith("/")
-              ? error.path
-              : `${elmJson.projectFolder}/${error.path}`;
-            try { errorPath = fs.realpathSync(errorPath); } catch {}
-            const errorUri = `file://${errorPath}`;
             const diags: Diagnostic[] = error.problems.map((problem) => ({
               range: elmRegionToRange(problem.region),
               severity: DiagnosticSeverity.Error,
               source: "elm",
               message: formatMessage(problem.title, problem.message),
+              // Quick fixes are worked out from the compiler's own message
+              data: problem,
             }));
-            allDiagnostics.set(errorUri, diags);
+            allDiagnostics.set(reportUri(error.path, folder), diags);
           }
         } else if (report.type === "error") {
+          checkedModules = false;
           const diag: Diagnostic = {
             range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
             severity: DiagnosticSeverity.Error,
             source: "elm",
             message: formatMessage(report.title, report.message),
           };
-          allDiagnostics.set(uri, [diag]);
+          // Shown on the file that was saved, or else on the entry point
+          const shownOn = savedFiles[0] ?? entries[0];
+          if (shownOn) allDiagnostics.set(pathToUri(shownOn), [diag]);
         }
       } catch {
         // Non-JSON stderr output, ignore
+        checkedModules = false;
       }
     }
 
-    // Publish diagnostics for the file that was saved
-    // If no errors, publish empty diagnostics to clear previous ones
-    if (!allDiagnostics.has(uri)) {
-      allDiagnostics.set(uri, []);
+    // Saved files that compiled cleanly need their previous problems cleared
+    for (const file of savedFiles) {
+      const uri = pathToUri(file);
+      if (!allDiagnostics.has(uri)) allDiagnostics.set(uri, []);
+    }
+
+    // A project compile covers every file, so files it reported last time
+    // that are missing now have been fixed
+    if (entries.length > 0 && checkedModules) {
+      for (const uri of reportedFiles.get(folder) ?? []) {
+        if (!allDiagnostics.has(uri)) allDiagnostics.set(uri, []);
+      }
+      reportedFiles.set(
+        folder,
+        new Set(Array.from(allDiagnostics).filter(([, diags]) => diags.length > 0).map(([uri]) => uri))
+      );
     }
 
     for (const [diagUri, diags] of allDiagnostics) {
-      sendNotification("textDocument/publishDiagnostics", {
-        uri: diagUri,
-        diagnostics: diags,
-      });
+      publishDiagnostics(diagUri, { elm: diags });
     }
   } catch (err) {
     const msg = String(err);
@@ -151,3 +254,106 @@ async function runDiagnosticsNow(uri: string): Promise<void> {
     }
   }
 }
+
+function reportUri(reportPath: string, projectFolder: string): string {
+  let filePath = reportPath.startsWith("/") ? reportPath : `${projectFolder}/${reportPath}`;
+  try { filePath = fs.realpathSync(filePath); } catch {}
+  return pathToUri(filePath);
+}
+
+// --- Live diagnostics ---
+
+const liveTimers = new Map<string, Timer>();
+
+// Parse errors and unused code. Unlike `elm make`, these only need the
+// document's text, so they run on every edit.
+export function runLiveDiagnostics(uri: string): void {
+  const existing = liveTimers.get(uri);
+  if (existing) clearTimeout(existing);
+
+  liveTimers.set(
+    uri,
+    setTimeout(() => {
+      liveTimers.delete(uri);
+      // A failed check leaves the previous results up
+      checkDocumentNow(uri).catch((err) => {
+        console.error("[diagnostics] Checking the document failed:", err);
+      });
+    }, 150)
+  );
+}
+
+// Closed documents aren't re-checked, so their results would go stale
+export function clearLiveDiagnostics(uri: string): void {
+  const timer = liveTimers.get(uri);
+  if (timer) clearTimeout(timer);
+  liveTimers.delete(uri);
+  const sources = diagnosticsBySource.get(uri);
+  if (sources?.has("parse") || sources?.has("unused")) publishDiagnostics(uri, { parse: [], unused: [] });
+}
+
+async function checkDocumentNow(uri: string): Promise<void> {
+  const doc = documentStore.get(uri);
+  if (!doc) return;
+  const version = doc.version;
+  const isCurrent = () => documentStore.get(uri)?.version === version;
+
+  let ast = getCachedAst(doc.text);
+  if (!ast) {
+    const result = await parseWithResult(doc.text, { key: uri });
+    // A newer version of the document replaced this parse; check that one
+    if (result.kind === "dropped") {
+      if (isCurrent()) runLiveDiagnostics(uri);
+      return;
+    }
+    // Nothing to say about the document; the next change checks it again
+    if (result.kind === "crashed") return;
+    if (result.kind === "failure") {
+      const locate = { key: `${uri}#locate`, priority: "background" } as const;
+      const error = await locateParseError(doc.text, result.error, locate, () => !isCurrent());
+      // Without a location, e.g. when the parser crashed, the next change
+      // checks the document again
+      if (!isCurrent() || !error) return;
+      // Unused code can't be checked without an AST; the previous results stay up
+      publishDiagnostics(uri, {
+        parse: [{ range: error.range, severity: DiagnosticSeverity.Error, source: "elm-land-lsp", message: error.message }],
+      });
+      return;
+    }
+    ast = result.ast;
+    setCachedAst(doc.text, ast, uri);
+  }
+
+  const elmJson = await findElmJsonFor(uriToPath(uri));
+  const unused = elmJson ? await findUnusedCode(ast, elmJson) : [];
+  if (!isCurrent()) return;
+  publishDiagnostics(uri, { parse: [], unused: unused.map(unusedDiagnostic) });
+}
+
+function unusedDiagnostic(unused: UnusedCode): Diagnostic {
+  return {
+    range: elmRangeToLsp(unused.range),
+    severity: DiagnosticSeverity.Hint,
+    source: "elm-land-lsp",
+    message: unusedMessage(unused),
+    tags: [DiagnosticTag.Unnecessary],
+  };
+}
+
+function unusedMessage({ kind, name }: UnusedCode): string {
+  switch (kind) {
+    case "import": return `Unused import \`${name}\``;
+    case "exposing": return `\`${name}\` is exposed by this import but never used`;
+    case "value": return `\`${name}\` is not used`;
+    case "let": return `\`${name}\` is defined but never used`;
+    case "pattern": return `\`${name}\` is not used`;
+    case "constructor": return `\`${name}\` is never constructed`;
+  }
+}
+
+function elmRangeToLsp(r: ElmRange): Range {
+  return {
+    start: { line: r[0] - 1, character: r[1] - 1 },
+    end: { line: r[2] - 1, character: r[3] - 1 },
+  };
+}
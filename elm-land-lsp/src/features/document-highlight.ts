@@ -0,0 +1,289 @@
+import { documentStore } from "../state/document-store";
+import { findElmJsonFor, uriToPath } from "../project/elm-json";
+import { parseCached } from "../state/ast-cache";
+import {
+  type Ast,
+  type Node,
+  type Expression,
+  type Pattern,
+  type Function_,
+  type TypeAnnotation,
+  type Range as ElmRange,
+  expressionChildren,
+  toModuleName,
+} from "../elm-ast/types";
+import { DocumentHighlightKind, type DocumentHighlight, type Position, type Range } from "../protocol/messages";
+import { throwIfCancelled } from "../protocol/cancellation";
+import { collectRefsInFile, resolveSymbolAtPosition } from "./references";
+
+// A name bound inside a function: an argument, a let binding or a name from
+// a case branch or lambda pattern
+type LocalBinding = { definitions: ElmRange[]; uses: ElmRange[] };
+
+type Scope = Map<string, LocalBinding>;
+
+// A record field by name; there are no types to tell records apart
+type FieldOccurrence = { name: string; range: ElmRange; kind: DocumentHighlightKind };
+
+function elmRangeToLsp(r: ElmRange): Range {
+  return {
+    start: { line: r[0] - 1, character: r[1] - 1 },
+    end: { line: r[2] - 1, character: r[3] - 1 },
+  };
+}
+
+function positionInRange(pos: Position, r: ElmRange): boolean {
+  const line = pos.line + 1;
+  const col = pos.character + 1;
+  if (line < r[0] || line > r[2]) return false;
+  if (line === r[0] && col < r[1]) return false;
+  if (line === r[2] && col > r[3]) return false;
+  return true;
+}
+
+export async function getDocumentHighlights(
+  uri: string,
+  position: Position,
+  signal?: AbortSignal
+): Promise<DocumentHighlight[] | null> {
+  const doc = documentStore.get(uri);
+  if (!doc) return null;
+
+  const ast = await parseCached(doc.text, { key: uri });
+  if (!ast) return null;
+  throwIfCancelled(signal);
+
+  const local = localBindings(ast).find((b) =>
+    [...b.definitions, ...b.uses].some((r) => positionInRange(position, r))
+  );
+  if (local) {
+    return [
+      ...local.definitions.map((r) => ({ range: elmRangeToLsp(r), kind: DocumentHighlightKind.Write })),
+      ...local.uses.map((r) => ({ range: elmRangeToLsp(r), kind: DocumentHighlightKind.Read })),
+    ];
+  }
+
+  const fields = fieldOccurrences(ast);
+  const field = fields.find((f) => positionInRange(position, f.range));
+  if (field) {
+    return fields
+      .filter((f) => f.name === field.name)
+      .map((f) => ({ range: elmRangeToLsp(f.range), kind: f.kind }));
+  }
+
+  // Top-level names and imports, found the way references finds them
+  const elmJson = await findElmJsonFor(uriToPath(uri));
+  if (!elmJson) return null;
+  const identity = await resolveSymbolAtPosition(uri, position, ast, elmJson);
+  throwIfCancelled(signal);
+  if (!identity) return null;
+
+  const moduleName = toModuleName(ast);
+  const definitions = moduleName === identity.defModule ? definitionRanges(ast).map(elmRangeToLsp) : [];
+  return collectRefsInFile(ast, uri, identity, moduleName).map((loc) => {
+    const isDefinition = definitions.some(
+      (d) => d.start.line === loc.range.start.line && d.start.character === loc.range.start.character
+    );
+    return { range: loc.range, kind: isDefinition ? DocumentHighlightKind.Write : DocumentHighlightKind.Read };
+  });
+}
+
+// Where top-level names are declared: declarations, signatures and constructors
+function definitionRanges(ast: Ast): ElmRange[] {
+  return ast.declarations.flatMap((decl) => {
+    const d = decl.value;
+    switch (d.type) {
+      case "function": {
+        const names = [d.function.declaration.value.name.range];
+        if (d.function.signature) names.push(d.function.signature.value.name.range);
+        return names;
+      }
+      case "typeAlias": return [d.typeAlias.name.range];
+      case "typedecl": return [d.typedecl.name.range, ...d.typedecl.constructors.map((c) => c.value.name.range)];
+      case "port": return [d.port.name.range];
+      default: return [];
+    }
+  });
+}
+
+// --- Locals ---
+
+function localBindings(ast: Ast): LocalBinding[] {
+  const all: LocalBinding[] = [];
+
+  const bind = (scope: Scope, name: string, definitions: ElmRange[]) => {
+    const binding: LocalBinding = { definitions, uses: [] };
+    scope.set(name, binding);
+    all.push(binding);
+  };
+
+  const bindPattern = (node: Node<Pattern>, scope: Scope) => {
+    const p = node.value as any;
+    switch (p.type) {
+      case "var": bind(scope, p.var.value, [node.range]); break;
+      case "record": for (const f of p.record.value ?? p.record) bind(scope, f.value, [f.range]); break;
+      case "as": bindPattern(p.as.pattern, scope); bind(scope, p.as.name.value, [p.as.name.range]); break;
+      case "tuple":
+      case "list": for (const part of p[p.type].value ?? p[p.type]) bindPattern(part, scope); break;
+      case "uncons": bindPattern(p.uncons.left, scope); bindPattern(p.uncons.right, scope); break;
+      case "named": for (const arg of p.named.patterns ?? []) bindPattern(arg, scope); break;
+      case "parentisized": bindPattern("range" in p.parentisized ? p.parentisized : p.parentisized.value, scope); break;
+    }
+  };
+
+  const visitFunction = (fn: Function_, scope: Scope) => {
+    const inner: Scope = new Map(scope);
+    for (const arg of fn.declaration.value.arguments) bindPattern(arg, inner);
+    visit(fn.declaration.value.expression, inner);
+  };
+
+  const visit = (expr: Node<Expression>, scope: Scope): void => {
+    if (!expr?.value) return;
+    const e = expr.value;
+    switch (e.type) {
+      case "functionOrValue":
+        if (e.functionOrValue.moduleName.length === 0) scope.get(e.functionOrValue.name)?.uses.push(expr.range);
+        return;
+      case "recordUpdate":
+        scope.get(e.recordUpdate.name.value)?.uses.push(e.recordUpdate.name.range);
+        break;
+      case "let": {
+        // Let bindings are visible throughout the `let`, whatever their order
+        const inner: Scope = new Map(scope);
+        for (const decl of e.let.declarations) {
+          const d = decl.value;
+          if (d.type === "function") {
+            const names = [d.function.declaration.value.name.range];
+            if (d.function.signature) names.unshift(d.function.signature.value.name.range);
+            bind(inner, d.function.declaration.value.name.value, names);
+          } else {
+            bindPattern(d.destructuring.pattern, inner);
+          }
+        }
+        for (const decl of e.let.declarations) {
+          const d = decl.value;
+          if (d.type === "function") visitFunction(d.function, inner);
+          else visit(d.destructuring.expression, inner);
+        }
+        visit(e.let.expression, inner);
+        return;
+      }
+      case "lambda": {
+        const inner: Scope = new Map(scope);
+        for (const pattern of e.lambda.patterns) bindPattern(pattern, inner);
+        visit(e.lambda.expression, inner);
+        return;
+      }
+      case "case":
+        visit(e.case.expression, scope);
+        for (const branch of e.case.cases) {
+          const inner: Scope = new Map(scope);
+          bindPattern(branch.pattern, inner);
+          visit(branch.expression, inner);
+        }
+        return;
+    }
+    for (const child of expressionChildren(e)) visit(child, scope);
+  };
+
+  for (const decl of ast.declarations) {
+    if (decl.value.type === "function") visitFunction(decl.value.function, new Map());
+    else if (decl.value.type === "destructuring") visit(decl.value.destructuring.expression, new Map());
+  }
+  return all;
+}
+
+// --- Record fields ---
+
+function fieldOccurrences(ast: Ast): FieldOccurrence[] {
+  const found: FieldOccurrence[] = [];
+  const add = (name: string, range: ElmRange, kind: DocumentHighlightKind) => found.push({ name, range, kind });
+
+  const visitType = (node: Node<TypeAnnotation>) => {
+    const t = node?.value as any;
+    switch (t?.type) {
+      case "typed": t.typed.args.forEach(visitType); break;
+      case "tupled": t.tupled.forEach(visitType); break;
+      case "function": visitType(t.function.left); visitType(t.function.right); break;
+      case "record":
+      case "genericRecord":
+        for (const field of t.type === "record" ? (t.record.value ?? t.record) : (t.genericRecord.values.value ?? [])) {
+          add(field.value.name.value, field.value.name.range, DocumentHighlightKind.Write);
+          visitType(field.value.typeAnnotation);
+        }
+        break;
+    }
+  };
+
+  const visitPattern = (node: Node<Pattern>) => {
+    const p = node?.value as any;
+    switch (p?.type) {
+      case "record": for (const f of p.record.value ?? p.record) add(f.value, f.range, DocumentHighlightKind.Read); break;
+      case "as": visitPattern(p.as.pattern); break;
+      case "tuple":
+      case "list": (p[p.type].value ?? p[p.type]).forEach(visitPattern); break;
+      case "uncons": visitPattern(p.uncons.left); visitPattern(p.uncons.right); break;
+      case "named": (p.named.patterns ?? []).forEach(visitPattern); break;
+      case "parentisized": visitPattern("range" in p.parentisized ? p.parentisized : p.parentisized.value); break;
+    }
+  };
+
+  const visitFunction = (fn: Function_) => {
+    if (fn.signature) visitType(fn.signature.value.typeAnnotation);
+    fn.declaration.value.arguments.forEach(visitPattern);
+    visit(fn.declaration.value.expression);
+  };
+
+  const visit = (expr: Node<Expression>): void => {
+    if (!expr?.value) return;
+    const e = expr.value as any;
+    switch (e.type) {
+      case "recordAccess":
+        add(e.recordAccess.name.value, e.recordAccess.name.range, DocumentHighlightKind.Read);
+        break;
+      case "recordAccessFunction": {
+        // `.name`, without the dot
+        const r = expr.range;
+        add(e.recordAccessFunction.slice(1), [r[0], r[1] + 1, r[2], r[3]], DocumentHighlightKind.Read);
+        break;
+      }
+      case "record":
+      case "recordUpdate":
+        for (const setter of e.type === "record" ? e.record : e.recordUpdate.updates) {
+          const field = Array.isArray(setter.value) ? setter.value[0] : setter.value.field;
+          add(field.value, field.range, DocumentHighlightKind.Write);
+        }
+        break;
+      case "let":
+        for (const decl of e.let.declarations) {
+          if (decl.value.type === "function") {
+            visitFunction(decl.value.function);
+          } else {
+            visitPattern(decl.value.destructuring.pattern);
+            visit(decl.value.destructuring.expression);
+          }
+        }
+        visit(e.let.expression);
+        return;
+      case "lambda":
+        e.lambda.patterns.forEach(visitPattern);
+        break;
+      case "case":
+        for (const branch of e.case.cases) visitPattern(branch.pattern);
+        break;
+    }
+    expressionChildren(e).forEach(visit);
+  };
+
+  for (const decl of ast.declarations) {
+    const d = decl.value;
+    switch (d.type) {
+      case "function": visitFunction(d.function); break;
+      case "typeAlias": visitType(d.typeAlias.typeAnnotation); break;
+      case "typedecl": for (const ctor of d.typedecl.constructors) ctor.value.arguments.forEach(visitType); break;
+      case "port": visitType(d.port.typeAnnotation); break;
+      case "destructuring": visitPattern(d.destructuring.pattern); visit(d.destructuring.expression); break;
+    }
+  }
+  return found;
+}
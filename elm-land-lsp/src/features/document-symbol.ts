@@ -1,6 +1,5 @@
-import { parse } from "../elm-ast/bridge";
 import { documentStore } from "../state/document-store";
-import { getCachedAst, setCachedAst } from "../state/ast-cache";
+import { parseCached } from "../state/ast-cache";
 import type {
   Node,
   Declaration,
@@ -19,15 +18,12 @@ export async function getDocumentSymbols(
   const doc = documentStore.get(uri);
   if (!doc) return null;
 
-  const cached = getCachedAst(uri, doc.version);
-  const ast = cached ?? (await parse(doc.text));
+  const ast = await parseCached(doc.text, { key: uri });
 
   if (!ast) {
     return lastGoodSymbols.get(uri) ?? null;
   }
 
-  if (!cached) setCachedAst(uri, doc.version, ast);
-
   const symbols = ast.declarations
     .map((d) => declarationToSymbol(d))
     .filter((s): s is DocumentSymbol => s !== null);
@@ -1,9 +1,9 @@
-import * as fs from "fs/promises";
 import { documentStore } from "../state/document-store";
-import { findElmJsonFor, uriToPath, loadDocs, type ModuleDoc } from "../project/elm-json";
-import { resolveModuleToFile } from "../project/module-resolver";
-import { parse } from "../elm-ast/bridge";
-import { getCachedAst, setCachedAst } from "../state/ast-cache";
+import { projectIndex } from "../state/project-index";
+import { findElmJsonFor, uriToPath, loadDocs, type ModuleDoc, type ElmJsonFile } from "../project/elm-json";
+import { parseCached } from "../state/ast-cache";
+import { inferTypes } from "../project/type-environment";
+import { typeToString, type InferenceResult } from "../elm-ast/infer";
 import {
   type Ast,
   type Node,
@@ -39,7 +39,48 @@ function positionInRange(pos: Position, r: ElmRange): boolean {
   return true;
 }
 
-function declHoverContent(decl: Declaration, moduleName?: string): string {
+// Types for every name in the module, inferred on first use
+type InferredTypes = () => Promise<InferenceResult>;
+
+function lazyInference(ast: Ast, elmJson: ElmJsonFile): InferredTypes {
+  let result: Promise<InferenceResult> | undefined;
+  return () => (result ??= inferTypes(ast, elmJson)
+    // Syntax the engine doesn't handle shouldn't take the rest of hover down with it
+    .catch(() => ({ names: [], caseSubjects: [], problems: [] })));
+}
+
+function sameRange(a: ElmRange, b: ElmRange): boolean {
+  return a[0] === b[0] && a[1] === b[1] && a[2] === b[2] && a[3] === b[3];
+}
+
+// The inferred type of an unannotated top-level function, if it has no signature
+async function inferredDeclType(decl: Declaration, inferred: InferredTypes): Promise<string | undefined> {
+  if (decl.type !== "function" || decl.function.signature) return undefined;
+  const nameRange = decl.function.declaration.value.name.range;
+  const entry = (await inferred()).names.find((n) => sameRange(n.range, nameRange));
+  return entry ? typeToString(entry.type) : undefined;
+}
+
+// Hover for local variables, arguments and anything else the syntax-based
+// lookups couldn't resolve: the type of the innermost inferred name under the cursor
+async function inferredHover(position: Position, inferred: InferredTypes): Promise<HoverResult> {
+  let best: InferenceResult["names"][number] | undefined;
+  for (const entry of (await inferred()).names) {
+    if (!positionInRange(position, entry.range)) continue;
+    if (!best || rangeSize(entry.range) < rangeSize(best.range)) best = entry;
+  }
+  if (!best) return null;
+  return {
+    contents: { kind: "markdown", value: "```elm\n" + best.name + " : " + typeToString(best.type) + "\n```" },
+    range: elmRangeToLsp(best.range),
+  };
+}
+
+function rangeSize(r: ElmRange): number {
+  return (r[2] - r[0]) * 10000 + (r[3] - r[1]);
+}
+
+function declHoverContent(decl: Declaration, moduleName?: string, inferredType?: string): string {
   const parts: string[] = [];
 
   if (decl.type === "function") {
@@ -47,6 +88,8 @@ function declHoverContent(decl: Declaration, moduleName?: string): string {
     if (decl.function.signature) {
       const typeSig = typeAnnotationToString(decl.function.signature.value.typeAnnotation);
       parts.push("```elm\n" + name + " : " + typeSig + "\n```");
+    } else if (inferredType) {
+      parts.push("```elm\n" + name + " : " + inferredType + "\n```");
     } else {
       parts.push("```elm\n" + name + "\n```");
     }
@@ -129,24 +172,16 @@ function docsHoverContent(
 async function hoverFromModule(
   name: string,
   moduleName: string,
-  elmJson: import("../project/elm-json").ElmJsonFile
+  elmJson: ElmJsonFile
 ): Promise<string | null> {
-  // Check local files first
-  const filePath = await resolveModuleToFile(moduleName, elmJson);
-  if (filePath) {
-    try {
-      const source = await fs.readFile(filePath, "utf-8");
-      const ast = await parse(source);
-      if (ast) {
-        if (isExposedFromModule(ast, name)) {
-          const decl = findDeclarationWithName(ast, name);
-          if (decl) return declHoverContent(decl.value, moduleName);
-
-          const variant = findCustomTypeVariantWithName(ast, name);
-          if (variant) return declHoverContent(variant.declaration.value, moduleName);
-        }
-      }
-    } catch {}
+  // Check project modules first
+  const local = await projectIndex.getModule(moduleName, elmJson);
+  if (local && isExposedFromModule(local.ast, name)) {
+    const decl = findDeclarationWithName(local.ast, name);
+    if (decl) return declHoverContent(decl.value, moduleName);
+
+    const variant = findCustomTypeVariantWithName(local.ast, name);
+    if (variant) return declHoverContent(variant.declaration.value, moduleName);
   }
 
   // Check package docs
@@ -166,10 +201,8 @@ export async function getHover(
   const doc = documentStore.get(uri);
   if (!doc) return null;
 
-  const cached = getCachedAst(uri, doc.version);
-  const ast = cached ?? (await parse(doc.text));
+  const ast = await parseCached(doc.text, { key: uri });
   if (!ast) return null;
-  if (!cached) setCachedAst(uri, doc.version, ast);
 
   const filePath = uriToPath(uri);
   const elmJson = await findElmJsonFor(filePath);
@@ -200,6 +233,7 @@ export async function getHover(
 
   // Check declarations
   const tracker = createImportTracker(ast);
+  const inferred = lazyInference(ast, elmJson);
 
   for (const decl of ast.declarations) {
     if (!positionInRange(position, decl.range)) continue;
@@ -209,7 +243,8 @@ export async function getHover(
     if (d.type === "function") {
       const nameNode = d.function.declaration.value.name;
       if (positionInRange(position, nameNode.range)) {
-        return { contents: { kind: "markdown", value: declHoverContent(d) }, range: elmRangeToLsp(nameNode.range) };
+        const content = declHoverContent(d, undefined, await inferredDeclType(d, inferred));
+        return { contents: { kind: "markdown", value: content }, range: elmRangeToLsp(nameNode.range) };
       }
       // Also check signature name
       if (d.function.signature && positionInRange(position, d.function.signature.value.name.range)) {
@@ -225,12 +260,12 @@ export async function getHover(
 
     // Walk expression body
     const result = await findHoverInExpression(
-      uri, decl, position, ast, elmJson, tracker
+      uri, decl, position, ast, elmJson, tracker, inferred
     );
     if (result) return result;
   }
 
-  return null;
+  return inferredHover(position, inferred);
 }
 
 async function findHoverInExpression(
@@ -238,24 +273,26 @@ async function findHoverInExpression(
   decl: Node<Declaration>,
   position: Position,
   ast: Ast,
-  elmJson: import("../project/elm-json").ElmJsonFile,
+  elmJson: ElmJsonFile,
   tracker: import("../elm-ast/types").ImportTracker,
+  inferred: InferredTypes,
 ): Promise<HoverResult> {
   const d = decl.value;
   if (d.type !== "function") return null;
 
   const funcDecl = d.function.declaration.value;
   const expr = funcDecl.expression;
-  return walkExprForHover(expr, position, ast, elmJson, tracker, currentUri);
+  return walkExprForHover(expr, position, ast, elmJson, tracker, currentUri, inferred);
 }
 
 async function walkExprForHover(
   expr: Node<Expression>,
   position: Position,
   ast: Ast,
-  elmJson: import("../project/elm-json").ElmJsonFile,
+  elmJson: ElmJsonFile,
   tracker: import("../elm-ast/types").ImportTracker,
   currentUri: string,
+  inferred: InferredTypes,
 ): Promise<HoverResult> {
   if (!expr?.value) return null;
   if (!positionInRange(position, expr.range)) return null;
@@ -280,10 +317,8 @@ async function walkExprForHover(
     // Same-file declaration
     const localDecl = findDeclarationWithName(ast, name);
     if (localDecl) {
-      return {
-        contents: { kind: "markdown", value: declHoverContent(localDecl.value) },
-        range,
-      };
+      const content = declHoverContent(localDecl.value, undefined, await inferredDeclType(localDecl.value, inferred));
+      return { contents: { kind: "markdown", value: content }, range };
     }
 
     const localVariant = findCustomTypeVariantWithName(ast, name);
@@ -314,55 +349,55 @@ async function walkExprForHover(
   // Recurse into sub-expressions
   if (e.type === "application") {
     for (const arg of e.application) {
-      const r = await walkExprForHover(arg, position, ast, elmJson, tracker, currentUri);
+      const r = await walkExprForHover(arg, position, ast, elmJson, tracker, currentUri, inferred);
       if (r) return r;
     }
   } else if (e.type === "operatorapplication") {
     return (
-      await walkExprForHover(e.operatorapplication.left, position, ast, elmJson, tracker, currentUri) ??
-      await walkExprForHover(e.operatorapplication.right, position, ast, elmJson, tracker, currentUri)
+      await walkExprForHover(e.operatorapplication.left, position, ast, elmJson, tracker, currentUri, inferred) ??
+      await walkExprForHover(e.operatorapplication.right, position, ast, elmJson, tracker, currentUri, inferred)
     );
   } else if (e.type === "ifBlock") {
     return (
-      await walkExprForHover(e.ifBlock.clause, position, ast, elmJson, tracker, currentUri) ??
-      await walkExprForHover(e.ifBlock.then, position, ast, elmJson, tracker, currentUri) ??
-      await walkExprForHover(e.ifBlock.else, position, ast, elmJson, tracker, currentUri)
+      await walkExprForHover(e.ifBlock.clause, position, ast, elmJson, tracker, currentUri, inferred) ??
+      await walkExprForHover(e.ifBlock.then, position, ast, elmJson, tracker, currentUri, inferred) ??
+      await walkExprForHover(e.ifBlock.else, position, ast, elmJson, tracker, currentUri, inferred)
     );
   } else if (e.type === "let") {
     for (const letDecl of e.let.declarations) {
       if (positionInRange(position, letDecl.range) && letDecl.value.type === "function") {
         const r = await walkExprForHover(
-          letDecl.value.function.declaration.value.expression, position, ast, elmJson, tracker, currentUri
+          letDecl.value.function.declaration.value.expression, position, ast, elmJson, tracker, currentUri, inferred
         );
         if (r) return r;
       }
     }
-    return walkExprForHover(e.let.expression, position, ast, elmJson, tracker, currentUri);
+    return walkExprForHover(e.let.expression, position, ast, elmJson, tracker, currentUri, inferred);
   } else if (e.type === "case") {
-    const r = await walkExprForHover(e.case.expression, position, ast, elmJson, tracker, currentUri);
+    const r = await walkExprForHover(e.case.expression, position, ast, elmJson, tracker, currentUri, inferred);
     if (r) return r;
     for (const branch of e.case.cases as any[]) {
-      const r2 = await walkExprForHover(branch.expression, position, ast, elmJson, tracker, currentUri);
+      const r2 = await walkExprForHover(branch.expression, position, ast, elmJson, tracker, currentUri, inferred);
       if (r2) return r2;
     }
   } else if (e.type === "lambda") {
-    return walkExprForHover(e.lambda.expression, position, ast, elmJson, tracker, currentUri);
+    return walkExprForHover(e.lambda.expression, position, ast, elmJson, tracker, currentUri, inferred);
   } else if (e.type === "parenthesized") {
-    return walkExprForHover(e.parenthesized, position, ast, elmJson, tracker, currentUri);
+    return walkExprForHover(e.parenthesized, position, ast, elmJson, tracker, currentUri, inferred);
   } else if (e.type === "negation") {
-    return walkExprForHover(e.negation, position, ast, elmJson, tracker, currentUri);
+    return walkExprForHover(e.negation, position, ast, elmJson, tracker, currentUri, inferred);
   } else if (e.type === "tupled") {
     for (const item of e.tupled) {
-      const r = await walkExprForHover(item, position, ast, elmJson, tracker, currentUri);
+      const r = await walkExprForHover(item, position, ast, elmJson, tracker, currentUri, inferred);
       if (r) return r;
     }
   } else if (e.type === "list") {
     for (const item of e.list) {
-      const r = await walkExprForHover(item, position, ast, elmJson, tracker, currentUri);
+      const r = await walkExprForHover(item, position, ast, elmJson, tracker, currentUri, inferred);
       if (r) return r;
     }
   } else if (e.type === "recordAccess") {
-    return walkExprForHover(e.recordAccess.expression, position, ast, elmJson, tracker, currentUri);
+    return walkExprForHover(e.recordAccess.expression, position, ast, elmJson, tracker, currentUri, inferred);
   }
 
   return null;
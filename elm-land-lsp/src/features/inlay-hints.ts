@@ -0,0 +1,204 @@
+import { documentStore } from "../state/document-store";
+import { findElmJsonFor, uriToPath } from "../project/elm-json";
+import { parseCached } from "../state/ast-cache";
+import { inferTypes } from "../project/type-environment";
+import { typeToString } from "../elm-ast/infer";
+import {
+  type Ast,
+  type Node,
+  type Expression,
+  type Pattern,
+  type Function_,
+  type TypeAnnotation,
+  type Range as ElmRange,
+  expressionChildren,
+  typeAnnotationToString,
+} from "../elm-ast/types";
+import { InlayHintKind, type InlayHint, type Position, type Range } from "../protocol/messages";
+import { throwIfCancelled } from "../protocol/cancellation";
+
+export type InlayHintsOptions = {
+  // `: Int` after `let` bindings without a type annotation
+  types?: boolean;
+  // `name:` before arguments to functions declared in the same module
+  parameterNames?: boolean;
+};
+
+let options: Required<InlayHintsOptions> = { types: true, parameterNames: true };
+
+export function configureInlayHints(settings: InlayHintsOptions = {}): void {
+  options = { ...options, ...settings };
+}
+
+function inRange(pos: Position, range: Range): boolean {
+  if (pos.line < range.start.line || pos.line > range.end.line) return false;
+  if (pos.line === range.start.line && pos.character < range.start.character) return false;
+  if (pos.line === range.end.line && pos.character > range.end.character) return false;
+  return true;
+}
+
+function overlaps(r: ElmRange, range: Range): boolean {
+  return r[0] - 1 <= range.end.line && r[2] - 1 >= range.start.line;
+}
+
+export async function getInlayHints(uri: string, range: Range, signal?: AbortSignal): Promise<InlayHint[]> {
+  if (!options.types && !options.parameterNames) return [];
+  const doc = documentStore.get(uri);
+  if (!doc) return [];
+
+  const ast = await parseCached(doc.text, { key: uri });
+  if (!ast) return [];
+  throwIfCancelled(signal);
+
+  const hints: InlayHint[] = [];
+  if (options.parameterNames) hints.push(...parameterNameHints(ast, range));
+  if (options.types) hints.push(...(await typeHints(uri, ast, range, signal)));
+  return hints.sort((a, b) => a.position.line - b.position.line || a.position.character - b.position.character);
+}
+
+// --- Types of let bindings ---
+
+async function typeHints(uri: string, ast: Ast, range: Range, signal?: AbortSignal): Promise<InlayHint[]> {
+  // Names that would get a hint, before paying for inference
+  const bindings: Node<string>[] = [];
+  const visit = (expr: Node<Expression>) => {
+    if (!expr?.value) return;
+    if (expr.value.type === "let") {
+      for (const decl of expr.value.let.declarations) {
+        const d = decl.value;
+        if (d.type === "function") {
+          if (!d.function.signature) bindings.push(d.function.declaration.value.name);
+        } else {
+          bindings.push(...patternBindings(d.destructuring.pattern));
+        }
+      }
+    }
+    for (const child of expressionChildren(expr.value)) visit(child);
+  };
+  for (const decl of ast.declarations) {
+    if (decl.value.type === "function" && overlaps(decl.range, range)) {
+      visit(decl.value.function.declaration.value.expression);
+    }
+  }
+  const wanted = bindings.filter((b) => inRange(endOf(b.range), range));
+  if (wanted.length === 0) return [];
+
+  const elmJson = await findElmJsonFor(uriToPath(uri));
+  if (!elmJson) return [];
+  let names;
+  try {
+    ({ names } = await inferTypes(ast, elmJson, signal));
+  } catch {
+    throwIfCancelled(signal);
+    // Syntax the inference doesn't handle
+    return [];
+  }
+
+  const hints: InlayHint[] = [];
+  for (const binding of wanted) {
+    const inferred = names.find((n) => n.range.every((x, i) => x === binding.range[i]));
+    if (!inferred) continue;
+    hints.push({
+      position: endOf(binding.range),
+      label: `: ${typeToString(inferred.type)}`,
+      kind: InlayHintKind.Type,
+      paddingLeft: true,
+    });
+  }
+  return hints;
+}
+
+// The names a destructuring pattern binds
+function patternBindings(node: Node<Pattern>): Node<string>[] {
+  const p = node.value as any;
+  switch (p.type) {
+    case "var": return [{ range: node.range, value: p.var.value }];
+    case "record": return p.record.value ?? p.record;
+    case "as": return [...patternBindings(p.as.pattern), p.as.name];
+    case "tuple":
+    case "list": return (p[p.type].value ?? p[p.type]).flatMap(patternBindings);
+    case "uncons": return [...patternBindings(p.uncons.left), ...patternBindings(p.uncons.right)];
+    case "named": return (p.named.patterns ?? []).flatMap(patternBindings);
+    case "parentisized": return patternBindings("range" in p.parentisized ? p.parentisized : p.parentisized.value);
+    default: return [];
+  }
+}
+
+function endOf(r: ElmRange): Position {
+  return { line: r[2] - 1, character: r[3] - 1 };
+}
+
+// --- Argument names ---
+
+function parameterNameHints(ast: Ast, range: Range): InlayHint[] {
+  const hints: InlayHint[] = [];
+
+  const visit = (expr: Node<Expression>, functions: Map<string, Function_>) => {
+    if (!expr?.value) return;
+    const e = expr.value;
+    if (e.type === "let") {
+      // Let functions can be called anywhere in the `let`
+      functions = new Map(functions);
+      for (const decl of e.let.declarations) {
+        if (decl.value.type === "function") functions.set(decl.value.function.declaration.value.name.value, decl.value.function);
+      }
+    }
+    if (e.type === "application") {
+      const [head, ...args] = e.application;
+      const fn = head?.value.type === "functionOrValue" && head.value.functionOrValue.moduleName.length === 0
+        ? functions.get(head.value.functionOrValue.name)
+        : undefined;
+      if (fn) hints.push(...argumentHints(fn, args, range));
+    }
+    for (const child of expressionChildren(e)) visit(child, functions);
+  };
+
+  const topLevel = new Map<string, Function_>();
+  for (const decl of ast.declarations) {
+    if (decl.value.type === "function") topLevel.set(decl.value.function.declaration.value.name.value, decl.value.function);
+  }
+  for (const decl of ast.declarations) {
+    if (decl.value.type === "function" && overlaps(decl.range, range)) {
+      visit(decl.value.function.declaration.value.expression, topLevel);
+    }
+  }
+  return hints;
+}
+
+function argumentHints(fn: Function_, args: Node<Expression>[], range: Range): InlayHint[] {
+  const params = fn.declaration.value.arguments;
+  const types = fn.signature ? parameterTypes(fn.signature.value.typeAnnotation) : [];
+  const hints: InlayHint[] = [];
+
+  args.forEach((arg, i) => {
+    const param = params[i]?.value;
+    if (param?.type !== "var") return;
+    const name = param.var.value;
+    // `add a b` already says what the arguments are
+    if (arg.value.type === "functionOrValue" && arg.value.functionOrValue.name === name) return;
+
+    const position = { line: arg.range[0] - 1, character: arg.range[1] - 1 };
+    if (!inRange(position, range)) return;
+    hints.push({
+      position,
+      label: `${name}:`,
+      kind: InlayHintKind.Parameter,
+      tooltip: types[i] ? `${name} : ${types[i]}` : undefined,
+      paddingRight: true,
+    });
+  });
+  return hints;
+}
+
+// `Int -> (a -> b) -> String` -> ["Int", "(a -> b)"]
+function parameterTypes(annotation: Node<TypeAnnotation>): string[] {
+  const types: string[] = [];
+  let node = annotation;
+  while (node.value.type === "function") {
+    const left = node.value.function.left;
+    const type = typeAnnotationToString(left);
+    types.push(left.value.type === "function" ? `(${type})` : type);
+    node = node.value.function.right;
+  }
+  return types;
+}
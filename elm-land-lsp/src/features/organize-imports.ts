@@ -0,0 +1,250 @@
+import type { ElmJsonFile } from "../project/elm-json";
+import { loadDocs } from "../project/elm-json";
+import { projectIndex, moduleReferences } from "../state/project-index";
+import type { Ast, Import, Node, Range as ElmRange, TopLevelExpose } from "../elm-ast/types";
+import type { TextEdit } from "../protocol/messages";
+
+// What a module exposes, when it can be found among the project's modules or
+// package docs. Used to tell whether `exposing (..)` and `Type(..)` are used.
+type ModuleInterface = {
+  names: Set<string>;
+  constructors: Map<string, string[]>; // type name -> constructor names
+};
+
+// How much of one import line the module uses
+export type ImportUsage = {
+  node: Node<Import>;
+  moduleName: string;
+  alias?: string;
+  // Whether anything from the import is used; if not, the whole line can go
+  used: boolean;
+  usesExposingAll: boolean;
+  usedEntries: Node<TopLevelExpose>[];
+  unusedEntries: Node<TopLevelExpose>[];
+};
+
+export async function importUsage(ast: Ast, elmJson: ElmJsonFile, signal?: AbortSignal): Promise<ImportUsage[]> {
+  const qualifiers = new Set<string>();
+  const unqualified = new Set<string>();
+  for (const ref of moduleReferences(ast)) {
+    if (ref.qualifier) qualifiers.add(ref.qualifier);
+    else unqualified.add(ref.name);
+  }
+
+  const usages: ImportUsage[] = [];
+  for (const node of ast.imports) {
+    const moduleName = node.value.moduleName.value.join(".");
+    const alias = node.value.moduleAlias?.value.join(".");
+    const exposing = node.value.exposingList?.value;
+    const entries = exposing?.type === "explicit" ? exposing.explicit : [];
+
+    const iface = exposing?.type === "all" || entries.some((e) => e.value.type === "typeexpose")
+      ? await moduleInterface(moduleName, elmJson, signal)
+      : undefined;
+
+    const isUsed = ({ value: expose }: Node<TopLevelExpose>): boolean => {
+      switch (expose.type) {
+        case "function": return unqualified.has(expose.function.name);
+        case "typeOrAlias": return unqualified.has(expose.typeOrAlias.name);
+        case "infix": return unqualified.has(expose.infix.name);
+        case "typeexpose": {
+          const ctors = iface?.constructors.get(expose.typeexpose.name);
+          if (!ctors) return true;
+          return unqualified.has(expose.typeexpose.name) || ctors.some((c) => unqualified.has(c));
+        }
+      }
+    };
+    const usedEntries = entries.filter(isUsed);
+    const usesExposingAll = exposing?.type === "all" &&
+      (!iface || Array.from(iface.names).some((name) => unqualified.has(name)));
+    const usedQualified = qualifiers.has(alias ?? moduleName);
+
+    usages.push({
+      node,
+      moduleName,
+      alias,
+      used: usedQualified || usesExposingAll || usedEntries.length > 0,
+      usesExposingAll,
+      usedEntries,
+      unusedEntries: entries.filter((e) => !usedEntries.includes(e)),
+    });
+  }
+  return usages;
+}
+
+type ImportGroup = {
+  moduleName: string;
+  alias?: string;
+  imports: Node<Import>[];
+  // Comment lines directly above the group's imports, which move with them
+  comments: string[];
+  exposingAll: boolean;
+  usesExposingAll: boolean;
+  entries: string[];
+  changed: boolean;
+};
+
+// Removes unused imports and exposed names, merges imports of the same module
+// and sorts the import block. Returns no edits when it's already organized.
+export async function organizeImports(
+  ast: Ast,
+  text: string,
+  elmJson: ElmJsonFile,
+  signal?: AbortSignal
+): Promise<TextEdit[]> {
+  if (ast.imports.length === 0) return [];
+
+  const lines = text.split("\n");
+  const sourceOf = (r: ElmRange) => sliceRange(lines, r);
+
+  const groups: ImportGroup[] = [];
+  for (const usage of await importUsage(ast, elmJson, signal)) {
+    const { moduleName, alias } = usage;
+    let group = groups.find((g) => g.moduleName === moduleName && g.alias === alias);
+    if (!group) {
+      group = {
+        moduleName,
+        alias,
+        imports: [],
+        comments: [],
+        exposingAll: false,
+        usesExposingAll: false,
+        entries: [],
+        changed: false,
+      };
+      groups.push(group);
+    }
+    group.comments.push(...commentsAbove(usage.node, ast, lines));
+    if (!usage.used) continue;
+
+    group.imports.push(usage.node);
+    group.exposingAll ||= usage.node.value.exposingList?.value.type === "all";
+    group.usesExposingAll ||= usage.usesExposingAll;
+    group.changed ||= usage.unusedEntries.length > 0 || group.exposingAll !== usage.usesExposingAll;
+    for (const entry of usage.usedEntries) {
+      const entryText = sourceOf(entry.range);
+      if (!group.entries.includes(entryText)) group.entries.push(entryText);
+    }
+  }
+
+  const rendered: { moduleName: string; lines: string[] }[] = [];
+  for (const group of groups) {
+    if (group.imports.length === 0) continue;
+
+    // Keep the original text of imports that don't change
+    if (group.imports.length === 1 && !group.changed) {
+      rendered.push({ moduleName: group.moduleName, lines: [...group.comments, sourceOf(group.imports[0]!.range)] });
+      continue;
+    }
+
+    let line = `import ${group.moduleName}`;
+    if (group.alias) line += ` as ${group.alias}`;
+    if (group.usesExposingAll) line += " exposing (..)";
+    else if (group.entries.length > 0) line += ` exposing (${group.entries.join(", ")})`;
+    rendered.push({ moduleName: group.moduleName, lines: [...group.comments, line] });
+  }
+
+  rendered.sort((a, b) => (a.moduleName < b.moduleName ? -1 : a.moduleName > b.moduleName ? 1 : 0));
+
+  // Replace the lines from the first import to the last, diffing line by
+  // line so that imports that stay put aren't touched
+  const first = ast.imports[0]!.range[0] - 1;
+  const last = ast.imports[ast.imports.length - 1]!.range[2] - 1;
+  const oldLines = lines.slice(first, last + 1);
+  const newLines = rendered.flatMap((r) => r.lines.flatMap((l) => l.split("\n")));
+  return lineDiff(oldLines, newLines, first);
+}
+
+// Non-blank lines between the previous import (if any) and this one
+function commentsAbove(imp: Node<Import>, ast: Ast, lines: string[]): string[] {
+  const index = ast.imports.indexOf(imp);
+  if (index === 0) return [];
+  const previousEnd = ast.imports[index - 1]!.range[2];
+  return lines.slice(previousEnd, imp.range[0] - 1).filter((line) => line.trim() !== "");
+}
+
+async function moduleInterface(
+  moduleName: string,
+  elmJson: ElmJsonFile,
+  signal?: AbortSignal
+): Promise<ModuleInterface | undefined> {
+  const local = await projectIndex.getModule(moduleName, elmJson, signal);
+  if (local) {
+    const constructors = new Map<string, string[]>();
+    for (const decl of local.ast.declarations) {
+      if (decl.value.type !== "typedecl") continue;
+      constructors.set(
+        decl.value.typedecl.name.value,
+        decl.value.typedecl.constructors.map((c) => c.value.name.value)
+      );
+    }
+    return { names: new Set(local.exports), constructors };
+  }
+
+  for (const dep of elmJson.dependencies) {
+    const doc = (await loadDocs(dep)).find((d) => d.name === moduleName);
+    if (!doc) continue;
+    const constructors = new Map(doc.unions.map((u) => [u.name, u.cases.map(([name]) => name)]));
+    const names = new Set([
+      ...doc.values.map((v) => v.name),
+      ...doc.binops.map((b) => b.name),
+      ...doc.aliases.map((a) => a.name),
+      ...doc.unions.map((u) => u.name),
+      ...Array.from(constructors.values()).flat(),
+    ]);
+    return { names, constructors };
+  }
+  return undefined;
+}
+
+function sliceRange(lines: string[], r: ElmRange): string {
+  if (r[0] === r[2]) return lines[r[0] - 1]!.slice(r[1] - 1, r[3] - 1);
+  return [
+    lines[r[0] - 1]!.slice(r[1] - 1),
+    ...lines.slice(r[0], r[2] - 1),
+    lines[r[2] - 1]!.slice(0, r[3] - 1),
+  ].join("\n");
+}
+
+// Edits that turn `oldLines` (starting at line `offset`) into `newLines`,
+// one per run of changed lines
+function lineDiff(oldLines: string[], newLines: string[], offset: number): TextEdit[] {
+  // Longest common subsequence table, built from the end
+  const lcs: number[][] = Array.from({ length: oldLines.length + 1 }, () => new Array(newLines.length + 1).fill(0));
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i]![j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1]![j + 1]! + 1
+        : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const edits: TextEdit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    const start = i;
+    const inserted: string[] = [];
+    while (i < oldLines.length || j < newLines.length) {
+      if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) break;
+      if (j < newLines.length && (i === oldLines.length || lcs[i]![j + 1]! >= lcs[i + 1]![j]!)) {
+        inserted.push(newLines[j++]!);
+      } else {
+        i++;
+      }
+    }
+    edits.push({
+      range: {
+        start: { line: offset + start, character: 0 },
+        end: { line: offset + i, character: 0 },
+      },
+      newText: inserted.map((line) => line + "\n").join(""),
+    });
+  }
+  return edits;
+}
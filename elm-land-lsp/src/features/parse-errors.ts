@@ -0,0 +1,53 @@
+import { parseWithResult, type ParseOptions } from "../elm-ast/bridge";
+import { chunkStarts } from "../elm-ast/recover";
+import type { Range } from "../protocol/messages";
+
+export type ParseError = {
+  range: Range;
+  message: string;
+};
+
+// The parser only says that a file doesn't parse, not where. The module line,
+// each import and each declaration parse on their own, so the first one that
+// breaks the file is found by bisecting over prefixes made of whole chunks.
+// Returns undefined if it can't tell, e.g. when a parse is dropped or crashes,
+// or once `isStale` says a newer version of the text has come along. Give
+// bisections of one document a key of their own, so that their parses replace
+// each other but not the document's.
+export async function locateParseError(
+  text: string,
+  error: string,
+  options: ParseOptions = {},
+  isStale: () => boolean = () => false
+): Promise<ParseError | undefined> {
+  const lines = text.split("\n");
+  const starts = chunkStarts(lines);
+  const prefix = (chunks: number) => lines.slice(0, starts[chunks] ?? lines.length).join("\n");
+
+  // Parses of the first `good` chunks succeed, of the first `bad` fail
+  let good = 0;
+  let bad = starts.length;
+  while (bad - good > 1) {
+    const mid = Math.floor((good + bad) / 2);
+    if (isStale()) return undefined;
+    const result = await parseWithResult(prefix(mid), options);
+    if (result.kind === "dropped" || result.kind === "crashed") return undefined;
+    if (result.kind === "success") good = mid;
+    else bad = mid;
+  }
+
+  const chunk = bad - 1;
+  const first = starts[chunk] ?? 0;
+  let last = (starts[chunk + 1] ?? lines.length) - 1;
+  while (last > first && lines[last]!.trim() === "") last--;
+
+  const line = lines[first] ?? "";
+  const what = /^(port |effect )?module\b/.test(line) ? "module declaration" : /^import\b/.test(line) ? "import" : "declaration";
+  return {
+    range: {
+      start: { line: first, character: 0 },
+      end: { line: last, character: lines[last]?.length ?? 0 },
+    },
+    message: `${error}: the problem is in this ${what}`,
+  };
+}
@@ -1,10 +1,8 @@
-import * as fs from "fs";
-import { Glob } from "bun";
+import * as fs from "fs/promises";
 import { documentStore } from "../state/document-store";
-import { findElmJsonFor, uriToPath, pathToUri, type ElmJsonFile } from "../project/elm-json";
-import { resolveModuleToFile } from "../project/module-resolver";
-import { parse } from "../elm-ast/bridge";
-import { getCachedAst, setCachedAst } from "../state/ast-cache";
+import { projectIndex } from "../state/project-index";
+import { findElmJsonFor, uriToPath, type ElmJsonFile } from "../project/elm-json";
+import { parseCached, parseCompleteCached } from "../state/ast-cache";
 import {
   type Ast,
   type Node,
@@ -20,6 +18,7 @@ import {
   toModuleData,
 } from "../elm-ast/types";
 import type { Location, Position, Range } from "../protocol/messages";
+import { throwIfCancelled } from "../protocol/cancellation";
 
 function elmRangeToLsp(r: ElmRange): Range {
   return {
@@ -37,7 +36,7 @@ function positionInRange(pos: Position, r: ElmRange): boolean {
   return true;
 }
 
-type SymbolIdentity = {
+export type SymbolIdentity = {
   defModule: string;
   name: string;
   kind: "value" | "type" | "constructor";
@@ -45,7 +44,7 @@ type SymbolIdentity = {
 
 // --- Symbol resolution at cursor ---
 
-async function resolveSymbolAtPosition(
+export async function resolveSymbolAtPosition(
   uri: string,
   position: Position,
   ast: Ast,
@@ -156,13 +155,9 @@ async function findIdentityInExpr(
     }
 
     for (const modName of tracker.unknownImports) {
-      const filePath = await resolveModuleToFile(modName, elmJson);
-      if (filePath) {
-        const source = fs.readFileSync(filePath, "utf-8");
-        const targetAst = await parse(source);
-        if (targetAst && (findDeclarationWithName(targetAst, name) || findCustomTypeVariantWithName(targetAst, name))) {
-          return { defModule: modName, name, kind: "value" };
-        }
+      const indexed = await projectIndex.getModule(modName, elmJson);
+      if (indexed?.declarations.some((d) => d.name === name)) {
+        return { defModule: modName, name, kind: "value" };
       }
     }
 
@@ -220,15 +215,15 @@ async function findIdentityInExpr(
 function nameRangeOfQualifiedExpr(exprRange: ElmRange, moduleParts: string[], name: string): ElmRange {
   const prefix = moduleParts.join(".") + ".";
   const nameStart = exprRange[1] + prefix.length;
-  return [exprRange[0], nameStart, exprRange[2], nameStart + name.length - 1];
+  return [exprRange[0], nameStart, exprRange[2], nameStart + name.length];
 }
 
 // For exposing list items like `Foo(..)`, we want just the name range, not including `(..)`.
 function nameRangeOfExposed(exposedRange: ElmRange, name: string): ElmRange {
-  return [exposedRange[0], exposedRange[1], exposedRange[0], exposedRange[1] + name.length - 1];
+  return [exposedRange[0], exposedRange[1], exposedRange[0], exposedRange[1] + name.length];
 }
 
-function collectRefsInFile(
+export function collectRefsInFile(
   ast: Ast,
   fileUri: string,
   target: SymbolIdentity,
@@ -422,8 +417,8 @@ function collectRefsInPattern(
       collectRefsInPattern(sub, locations, fileUri, target, tracker, fileModuleName);
     }
   } else if (p.type === "uncons") {
-    collectRefsInPattern(p.uncons.hd, locations, fileUri, target, tracker, fileModuleName);
-    collectRefsInPattern(p.uncons.tl, locations, fileUri, target, tracker, fileModuleName);
+    collectRefsInPattern(p.uncons.left, locations, fileUri, target, tracker, fileModuleName);
+    collectRefsInPattern(p.uncons.right, locations, fileUri, target, tracker, fileModuleName);
   } else if (p.type === "list") {
     for (const sub of ((p.list as any).value ?? p.list)) {
       collectRefsInPattern(sub, locations, fileUri, target, tracker, fileModuleName);
@@ -555,18 +550,26 @@ function getExposedNameStr(expose: any): string {
   }
 }
 
+export type FindReferencesOptions = {
+  // Nothing unless every module that may refer to the symbol parses as a
+  // whole, for edits made from the result, e.g. renaming
+  complete?: boolean;
+};
+
 export async function findReferences(
   uri: string,
   position: Position,
-  includeDeclaration: boolean
+  includeDeclaration: boolean,
+  signal?: AbortSignal,
+  options: FindReferencesOptions = {}
 ): Promise<Location[]> {
   const doc = documentStore.get(uri);
   if (!doc) return [];
 
-  const cached = getCachedAst(uri, doc.version);
-  const ast = cached ?? (await parse(doc.text));
+  const ast = options.complete
+    ? await parseCompleteCached(doc.text, { key: uri })
+    : await parseCached(doc.text, { key: uri });
   if (!ast) return [];
-  if (!cached) setCachedAst(uri, doc.version, ast);
 
   const filePath = uriToPath(uri);
   const elmJson = await findElmJsonFor(filePath);
@@ -576,37 +579,39 @@ export async function findReferences(
   if (!identity) return [];
 
   const allLocations: Location[] = [];
-  const glob = new Glob("**/*.elm");
-
-  for (const sourceDir of elmJson.sourceDirectories) {
-    try {
-      for (const match of glob.scanSync({ cwd: sourceDir, absolute: true })) {
-        const source = fs.readFileSync(match, "utf-8");
-        const fileAst = await parse(source);
-        if (!fileAst) continue;
-
-        const fileModule = toModuleName(fileAst);
-        const fileUri = pathToUri(match);
-        const refs = collectRefsInFile(fileAst, fileUri, identity, fileModule);
-
-        if (!includeDeclaration && fileModule === identity.defModule) {
-          const declNode = getDeclNameNode(
-            (findDeclarationWithName(fileAst, identity.name) ?? { value: {} as any }).value
-          );
-          const declRange = declNode ? elmRangeToLsp(declNode.range) : null;
-          for (const ref of refs) {
-            if (declRange &&
-                ref.range.start.line === declRange.start.line &&
-                ref.range.start.character === declRange.start.character) {
-              continue;
-            }
-            allLocations.push(ref);
-          }
-        } else {
-          allLocations.push(...refs);
+
+  for (const mod of await projectIndex.modules(elmJson, signal)) {
+    throwIfCancelled(signal);
+    // A module mid-edit may refer to it in the parts that are missing, and
+    // a stale one where its ranges no longer point
+    if (options.complete && (mod.recovered || mod.stale) &&
+        (await currentText(mod.uri, mod.filePath)).includes(identity.name)) {
+      return [];
+    }
+    // Only modules that mention the name can refer to it
+    if (mod.moduleName !== identity.defModule &&
+        !mod.references.some((r) => r.name === identity.name)) {
+      continue;
+    }
+
+    const refs = collectRefsInFile(mod.ast, mod.uri, identity, mod.moduleName);
+
+    if (!includeDeclaration && mod.moduleName === identity.defModule) {
+      const declNode = getDeclNameNode(
+        (findDeclarationWithName(mod.ast, identity.name) ?? { value: {} as any }).value
+      );
+      const declRange = declNode ? elmRangeToLsp(declNode.range) : null;
+      for (const ref of refs) {
+        if (declRange &&
+            ref.range.start.line === declRange.start.line &&
+            ref.range.start.character === declRange.start.character) {
+          continue;
         }
+        allLocations.push(ref);
       }
-    } catch {}
+    } else {
+      allLocations.push(...refs);
+    }
   }
 
   // Deduplicate by uri+range
@@ -618,3 +623,10 @@ export async function findReferences(
     return true;
   });
 }
+
+// The text of an open document, or else of the file on disk
+async function currentText(uri: string, filePath: string): Promise<string> {
+  const doc = documentStore.get(uri);
+  if (doc) return doc.text;
+  return fs.readFile(filePath, "utf-8").catch(() => "");
+}
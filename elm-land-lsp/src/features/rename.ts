@@ -7,10 +7,11 @@ type WorkspaceEdit = {
 
 export async function prepareRename(
   uri: string,
-  position: Position
+  position: Position,
+  signal?: AbortSignal
 ): Promise<{ range: Range; placeholder: string } | null> {
   // Use find-references to check if this is a renameable symbol
-  const refs = await findReferences(uri, position, true);
+  const refs = await findReferences(uri, position, true, signal, { complete: true });
   if (refs.length === 0) return null;
 
   // Find the reference at this exact position
@@ -48,9 +49,10 @@ export async function prepareRename(
 export async function doRename(
   uri: string,
   position: Position,
-  newName: string
+  newName: string,
+  signal?: AbortSignal
 ): Promise<WorkspaceEdit | null> {
-  const refs = await findReferences(uri, position, true);
+  const refs = await findReferences(uri, position, true, signal, { complete: true });
   if (refs.length === 0) return null;
 
   const changes: Record<string, { range: Range; newText: string }[]> = {};
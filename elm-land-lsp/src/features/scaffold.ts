@@ -0,0 +1,482 @@
+import * as fs from "fs";
+import * as path from "path";
+import { pathToUri, type ElmJsonFile } from "../project/elm-json";
+import {
+  elmLandSourceDir,
+  findPageForUrl,
+  pageModuleToParams,
+  pageModuleToUrl,
+  urlToPageModule,
+} from "../project/elm-land";
+import {
+  type Ast,
+  type Node,
+  type Expression,
+  type Range as ElmRange,
+  expressionChildren,
+} from "../elm-ast/types";
+import type { CodeAction, Position, WorkspaceEdit } from "../protocol/messages";
+
+// Templates mirror what `elm-land add page:<kind>`, `elm-land add layout` and
+// `elm-land customize shared` generate, so the result compiles without the CLI.
+
+export type PageKind = "static" | "sandbox" | "element" | "new";
+
+export const PAGE_KINDS: PageKind[] = ["static", "sandbox", "element", "new"];
+
+export function isPageKind(kind: unknown): kind is PageKind {
+  return PAGE_KINDS.includes(kind as PageKind);
+}
+
+type ScaffoldFile = { filePath: string; text: string };
+
+export function moduleNameToFilePath(moduleName: string, elmJson: ElmJsonFile): string {
+  return path.join(elmLandSourceDir(elmJson), ...moduleName.split(".")) + ".elm";
+}
+
+export function scaffoldPage(moduleName: string, kind: PageKind, elmJson: ElmJsonFile): WorkspaceEdit {
+  return createFilesEdit([
+    { filePath: moduleNameToFilePath(moduleName, elmJson), text: pageTemplate(moduleName, kind) },
+  ]);
+}
+
+export function scaffoldLayout(moduleName: string, elmJson: ElmJsonFile): WorkspaceEdit {
+  return createFilesEdit([
+    { filePath: moduleNameToFilePath(moduleName, elmJson), text: layoutTemplate(moduleName) },
+  ]);
+}
+
+export function scaffoldShared(elmJson: ElmJsonFile): WorkspaceEdit {
+  return createFilesEdit(
+    Object.entries(sharedTemplates()).map(([moduleName, text]) => ({
+      filePath: moduleNameToFilePath(moduleName, elmJson),
+      text,
+    }))
+  );
+}
+
+// Each file becomes a CreateFile operation followed by an insert into the new,
+// empty document. Files that already exist are left untouched.
+function createFilesEdit(files: ScaffoldFile[]): WorkspaceEdit {
+  const documentChanges: WorkspaceEdit["documentChanges"] = [];
+  for (const file of files) {
+    if (fs.existsSync(file.filePath)) continue;
+    const uri = pathToUri(file.filePath);
+    documentChanges.push({ kind: "create", uri, options: { ignoreIfExists: true } });
+    documentChanges.push({
+      textDocument: { uri, version: null },
+      edits: [
+        {
+          range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+          newText: file.text,
+        },
+      ],
+    });
+  }
+  return { documentChanges };
+}
+
+// --- Code actions ---
+
+function posInRange(pos: Position, r: ElmRange): boolean {
+  const line = pos.line + 1;
+  const col = pos.character + 1;
+  if (line < r[0] || line > r[2]) return false;
+  if (line === r[0] && col < r[1]) return false;
+  if (line === r[2] && col > r[3]) return false;
+  return true;
+}
+
+function innermostExpressionAt(expr: Node<Expression>, position: Position): Node<Expression> | null {
+  if (!expr?.value || !posInRange(position, expr.range)) return null;
+  for (const child of expressionChildren(expr.value)) {
+    const inner = innermostExpressionAt(child, position);
+    if (inner) return inner;
+  }
+  return expr;
+}
+
+function expressionAt(ast: Ast, position: Position): Node<Expression> | null {
+  for (const decl of ast.declarations) {
+    if (!posInRange(position, decl.range)) continue;
+    if (decl.value.type === "function") {
+      return innermostExpressionAt(decl.value.function.declaration.value.expression, position);
+    }
+    if (decl.value.type === "destructuring") {
+      return innermostExpressionAt(decl.value.destructuring.expression, position);
+    }
+  }
+  return null;
+}
+
+// Offer to create the Elm Land module a reference under the cursor points at:
+// a page for an unmatched route string, a layout for `Layouts.X`, or a
+// customized Shared module when the project still uses the generated one.
+export function elmLandCodeActions(
+  ast: Ast,
+  position: Position,
+  elmJson: ElmJsonFile
+): CodeAction[] {
+  const actions: CodeAction[] = [];
+
+  for (const imp of ast.imports) {
+    if (!posInRange(position, imp.value.moduleName.range)) continue;
+    const moduleName = imp.value.moduleName.value.join(".");
+    if (/^Shared(\.|$)/.test(moduleName)) actions.push(...customizeSharedActions(elmJson));
+    if (moduleName.startsWith("Layouts.")) actions.push(...addLayoutActions(moduleName, elmJson));
+  }
+
+  const expr = expressionAt(ast, position);
+  if (expr?.value.type === "literal" && expr.value.literal.startsWith("/")) {
+    const url = expr.value.literal;
+    const moduleName = urlToPageModule(url);
+    if (moduleName && !findPageForUrl(url, elmJson)) {
+      actions.push(...addPageActions(moduleName, elmJson));
+    }
+  }
+  if (expr?.value.type === "functionOrValue") {
+    const moduleName = expr.value.functionOrValue.moduleName.join(".");
+    if (moduleName === "Layouts") {
+      actions.push(...addLayoutActions(`Layouts.${expr.value.functionOrValue.name}`, elmJson));
+    } else if (/^Shared(\.|$)/.test(moduleName)) {
+      actions.push(...customizeSharedActions(elmJson));
+    }
+  }
+
+  return actions;
+}
+
+function addPageActions(moduleName: string, elmJson: ElmJsonFile): CodeAction[] {
+  const filePath = moduleNameToFilePath(moduleName, elmJson);
+  if (fs.existsSync(filePath)) return [];
+  return PAGE_KINDS.map((kind) => ({
+    title: `Create ${kind} page ${moduleName}`,
+    kind: "quickfix",
+    edit: scaffoldPage(moduleName, kind, elmJson),
+  }));
+}
+
+function addLayoutActions(moduleName: string, elmJson: ElmJsonFile): CodeAction[] {
+  const filePath = moduleNameToFilePath(moduleName, elmJson);
+  if (fs.existsSync(filePath)) return [];
+  return [{ title: `Create layout ${moduleName}`, kind: "quickfix", edit: scaffoldLayout(moduleName, elmJson) }];
+}
+
+function customizeSharedActions(elmJson: ElmJsonFile): CodeAction[] {
+  if (fs.existsSync(moduleNameToFilePath("Shared", elmJson))) return [];
+  return [{ title: "Customize Shared module", kind: "quickfix", edit: scaffoldShared(elmJson) }];
+}
+
+// --- Templates ---
+
+function paramsRecord(moduleName: string): string | null {
+  const params = pageModuleToParams(moduleName);
+  if (params.length === 0) return null;
+  return "{ " + params.map((p) => `${p.name} : ${p.type}`).join(", ") + " }";
+}
+
+function viewBody(moduleName: string, indent: string): string[] {
+  return [
+    `${indent}{ title = "${moduleName}"`,
+    `${indent}, body = [ Html.text "${pageModuleToUrl(moduleName)}" ]`,
+    `${indent}}`,
+  ];
+}
+
+export function pageTemplate(moduleName: string, kind: PageKind): string {
+  switch (kind) {
+    case "static": return staticPageTemplate(moduleName);
+    case "sandbox": return sandboxPageTemplate(moduleName);
+    case "element": return elementPageTemplate(moduleName);
+    case "new": return newPageTemplate(moduleName);
+  }
+}
+
+function staticPageTemplate(moduleName: string): string {
+  const params = paramsRecord(moduleName);
+  return lines(
+    `module ${moduleName} exposing (page)`,
+    "",
+    "import Html",
+    "import View exposing (View)",
+    "",
+    "",
+    params ? `page : ${params} -> View msg` : "page : View msg",
+    params ? "page params =" : "page =",
+    ...viewBody(moduleName, "    ")
+  );
+}
+
+// Pages with route params need the Shared.Model -> Route form of `page`
+function pageHeader(moduleName: string, extraImports: string[], alwaysRoute: boolean): string[] {
+  const params = paramsRecord(moduleName);
+  const withRoute = alwaysRoute || params !== null;
+  const imports = [
+    ...extraImports,
+    "import Html",
+    "import Page exposing (Page)",
+    ...(withRoute ? ["import Route exposing (Route)", "import Shared"] : []),
+    "import View exposing (View)",
+  ].sort();
+
+  return [
+    `module ${moduleName} exposing (Model, Msg, page)`,
+    "",
+    ...imports,
+    "",
+    "",
+    withRoute ? `page : Shared.Model -> Route ${params ?? "()"} -> Page Model Msg` : "page : Page Model Msg",
+    withRoute ? "page shared route =" : "page =",
+  ];
+}
+
+function section(title: string): string[] {
+  return ["", "", "", `-- ${title}`, "", ""];
+}
+
+function sandboxPageTemplate(moduleName: string): string {
+  return lines(
+    ...pageHeader(moduleName, [], false),
+    "    Page.sandbox",
+    "        { init = init",
+    "        , update = update",
+    "        , view = view",
+    "        }",
+    ...section("INIT"),
+    "type alias Model =",
+    "    {}",
+    "",
+    "",
+    "init : Model",
+    "init =",
+    "    {}",
+    ...section("UPDATE"),
+    "type Msg",
+    "    = ExampleMsgReplaceMe",
+    "",
+    "",
+    "update : Msg -> Model -> Model",
+    "update msg model =",
+    "    case msg of",
+    "        ExampleMsgReplaceMe ->",
+    "            model",
+    ...section("VIEW"),
+    "view : Model -> View Msg",
+    "view model =",
+    ...viewBody(moduleName, "    ")
+  );
+}
+
+function elementPageTemplate(moduleName: string): string {
+  return lines(
+    ...pageHeader(moduleName, [], false),
+    "    Page.element",
+    "        { init = init",
+    "        , update = update",
+    "        , subscriptions = subscriptions",
+    "        , view = view",
+    "        }",
+    ...section("INIT"),
+    "type alias Model =",
+    "    {}",
+    "",
+    "",
+    "init : ( Model, Cmd Msg )",
+    "init =",
+    "    ( {}",
+    "    , Cmd.none",
+    "    )",
+    ...section("UPDATE"),
+    "type Msg",
+    "    = ExampleMsgReplaceMe",
+    "",
+    "",
+    "update : Msg -> Model -> ( Model, Cmd Msg )",
+    "update msg model =",
+    "    case msg of",
+    "        ExampleMsgReplaceMe ->",
+    "            ( model",
+    "            , Cmd.none",
+    "            )",
+    ...section("SUBSCRIPTIONS"),
+    "subscriptions : Model -> Sub Msg",
+    "subscriptions model =",
+    "    Sub.none",
+    ...section("VIEW"),
+    "view : Model -> View Msg",
+    "view model =",
+    ...viewBody(moduleName, "    ")
+  );
+}
+
+function newPageTemplate(moduleName: string): string {
+  return lines(
+    ...pageHeader(moduleName, ["import Effect exposing (Effect)"], true),
+    "    Page.new",
+    "        { init = init",
+    "        , update = update",
+    "        , subscriptions = subscriptions",
+    "        , view = view",
+    "        }",
+    ...section("INIT"),
+    "type alias Model =",
+    "    {}",
+    "",
+    "",
+    "init : () -> ( Model, Effect Msg )",
+    "init () =",
+    "    ( {}",
+    "    , Effect.none",
+    "    )",
+    ...section("UPDATE"),
+    "type Msg",
+    "    = NoOp",
+    "",
+    "",
+    "update : Msg -> Model -> ( Model, Effect Msg )",
+    "update msg model =",
+    "    case msg of",
+    "        NoOp ->",
+    "            ( model",
+    "            , Effect.none",
+    "            )",
+    ...section("SUBSCRIPTIONS"),
+    "subscriptions : Model -> Sub Msg",
+    "subscriptions model =",
+    "    Sub.none",
+    ...section("VIEW"),
+    "view : Model -> View Msg",
+    "view model =",
+    ...viewBody(moduleName, "    ")
+  );
+}
+
+export function layoutTemplate(moduleName: string): string {
+  return lines(
+    `module ${moduleName} exposing (Model, Msg, Props, layout)`,
+    "",
+    "import Effect exposing (Effect)",
+    "import Html exposing (Html)",
+    "import Layout exposing (Layout)",
+    "import Route exposing (Route)",
+    "import Shared",
+    "import View exposing (View)",
+    "",
+    "",
+    "type alias Props =",
+    "    {}",
+    "",
+    "",
+    "layout : Props -> Shared.Model -> Route () -> Layout () Model Msg contentMsg",
+    "layout props shared route =",
+    "    Layout.new",
+    "        { init = init",
+    "        , update = update",
+    "        , view = view",
+    "        , subscriptions = subscriptions",
+    "        }",
+    ...section("MODEL"),
+    "type alias Model =",
+    "    {}",
+    "",
+    "",
+    "init : () -> ( Model, Effect Msg )",
+    "init _ =",
+    "    ( {}",
+    "    , Effect.none",
+    "    )",
+    ...section("UPDATE"),
+    "type Msg",
+    "    = ReplaceMe",
+    "",
+    "",
+    "update : Msg -> Model -> ( Model, Effect Msg )",
+    "update msg model =",
+    "    case msg of",
+    "        ReplaceMe ->",
+    "            ( model",
+    "            , Effect.none",
+    "            )",
+    "",
+    "",
+    "subscriptions : Model -> Sub Msg",
+    "subscriptions model =",
+    "    Sub.none",
+    ...section("VIEW"),
+    "view : { toContentMsg : Msg -> contentMsg, content : View contentMsg, model : Model } -> View contentMsg",
+    "view { toContentMsg, model, content } =",
+    "    { title = content.title",
+    `    , body = [ Html.text "${moduleName}", Html.div [] content.body ]`,
+    "    }"
+  );
+}
+
+export function sharedTemplates(): Record<string, string> {
+  return {
+    Shared: lines(
+      "module Shared exposing",
+      "    ( Flags, decoder",
+      "    , Model, Msg",
+      "    , init, update, subscriptions",
+      "    )",
+      "",
+      "import Effect exposing (Effect)",
+      "import Json.Decode",
+      "import Route exposing (Route)",
+      "import Shared.Model",
+      "import Shared.Msg",
+      ...section("FLAGS"),
+      "type alias Flags =",
+      "    {}",
+      "",
+      "",
+      "decoder : Json.Decode.Decoder Flags",
+      "decoder =",
+      "    Json.Decode.succeed {}",
+      ...section("INIT"),
+      "type alias Model =",
+      "    Shared.Model.Model",
+      "",
+      "",
+      "init : Result Json.Decode.Error Flags -> Route () -> ( Model, Effect Msg )",
+      "init flagsResult route =",
+      "    ( {}",
+      "    , Effect.none",
+      "    )",
+      ...section("UPDATE"),
+      "type alias Msg =",
+      "    Shared.Msg.Msg",
+      "",
+      "",
+      "update : Route () -> Msg -> Model -> ( Model, Effect Msg )",
+      "update route msg model =",
+      "    case msg of",
+      "        Shared.Msg.NoOp ->",
+      "            ( model",
+      "            , Effect.none",
+      "            )",
+      ...section("SUBSCRIPTIONS"),
+      "subscriptions : Route () -> Model -> Sub Msg",
+      "subscriptions route model =",
+      "    Sub.none"
+    ),
+    "Shared.Model": lines(
+      "module Shared.Model exposing (Model)",
+      "",
+      "",
+      "type alias Model =",
+      "    {}"
+    ),
+    "Shared.Msg": lines(
+      "module Shared.Msg exposing (Msg(..))",
+      "",
+      "",
+      "type Msg",
+      "    = NoOp"
+    ),
+  };
+}
+
+function lines(...ls: string[]): string {
+  return ls.join("\n") + "\n";
+}
@@ -0,0 +1,488 @@
+import { documentStore } from "../state/document-store";
+import { projectIndex } from "../state/project-index";
+import { findElmJsonFor, uriToPath, loadDocs, type ElmJsonFile } from "../project/elm-json";
+import { parseCached } from "../state/ast-cache";
+import {
+  type Ast,
+  type Node,
+  type Expression,
+  type Pattern,
+  type TypeAnnotation,
+  type Exposing,
+  type Function_,
+  type ImportTracker,
+  type Range as ElmRange,
+  type RecordSetter,
+  createImportTracker,
+  isExposedFromModule,
+  toModuleData,
+} from "../elm-ast/types";
+import type { Range, SemanticTokens } from "../protocol/messages";
+import { throwIfCancelled } from "../protocol/cancellation";
+
+// Indices into the legend. Ports have no standard token type, so clients
+// that don't know `port` can leave them unstyled.
+const TOKEN_TYPES = [
+  "namespace", // modules
+  "type",
+  "typeParameter", // type variables
+  "parameter", // arguments and names bound by patterns
+  "variable", // let bindings
+  "property", // record fields
+  "enumMember", // constructors
+  "function",
+  "port",
+] as const;
+
+const TOKEN_MODIFIERS = ["declaration", "deprecated", "defaultLibrary"] as const;
+
+type TokenType = (typeof TOKEN_TYPES)[number];
+type TokenModifier = (typeof TOKEN_MODIFIERS)[number];
+
+export const semanticTokensLegend = {
+  tokenTypes: [...TOKEN_TYPES],
+  tokenModifiers: [...TOKEN_MODIFIERS],
+};
+
+type Token = {
+  line: number; // 0-based
+  character: number;
+  length: number;
+  type: TokenType;
+  modifiers: TokenModifier[];
+};
+
+// What a name from another module refers to
+type Exported = { type: TokenType; deprecated: boolean };
+
+type ModuleInfo = {
+  // Comes from a dependency's docs rather than the project
+  isPackage: boolean;
+  exports: Map<string, Exported>;
+};
+
+type Context = {
+  tracker: ImportTracker;
+  modules: Map<string, ModuleInfo>;
+  // Top-level names of the current module
+  locals: Map<string, Exported>;
+  tokens: Token[];
+};
+
+// Names bound in the enclosing function, let and case expressions
+type Scope = Map<string, TokenType>;
+
+// Modules every Elm file imports implicitly
+const DEFAULT_IMPORTS = ["Basics", "List", "Maybe", "Result", "String", "Char", "Tuple", "Debug", "Platform", "Platform.Cmd", "Platform.Sub"];
+
+export async function getSemanticTokens(
+  uri: string,
+  range?: Range,
+  signal?: AbortSignal
+): Promise<SemanticTokens | null> {
+  const doc = documentStore.get(uri);
+  if (!doc) return null;
+
+  const ast = await parseCached(doc.text, { key: uri });
+  if (!ast) return null;
+  throwIfCancelled(signal);
+
+  const elmJson = await findElmJsonFor(uriToPath(uri));
+  const tracker = createImportTracker(ast);
+  const modules = elmJson ? await importedModules(ast, elmJson, signal) : new Map<string, ModuleInfo>();
+  throwIfCancelled(signal);
+
+  const ctx: Context = { tracker, modules, locals: topLevelNames(ast), tokens: [] };
+  collectTokens(ast, ctx);
+
+  const tokens = range
+    ? ctx.tokens.filter((t) => t.line >= range.start.line && t.line <= range.end.line)
+    : ctx.tokens;
+  return { data: encodeTokens(tokens) };
+}
+
+// The exports of every module the file can refer to, from the project index
+// or the dependencies' docs
+async function importedModules(ast: Ast, elmJson: ElmJsonFile, signal?: AbortSignal): Promise<Map<string, ModuleInfo>> {
+  const names = new Set([...DEFAULT_IMPORTS, ...ast.imports.map((imp) => imp.value.moduleName.value.join("."))]);
+  const modules = new Map<string, ModuleInfo>();
+
+  for (const name of names) {
+    const local = await projectIndex.getModule(name, elmJson, signal);
+    if (!local) continue;
+    const exports = new Map<string, Exported>();
+    for (const [exported, info] of topLevelNames(local.ast)) {
+      if (isExposedFromModule(local.ast, exported)) exports.set(exported, info);
+    }
+    modules.set(name, { isPackage: false, exports });
+  }
+
+  for (const dep of elmJson.dependencies) {
+    for (const mod of await loadDocs(dep)) {
+      if (!names.has(mod.name) || modules.has(mod.name)) continue;
+      const exports = new Map<string, Exported>();
+      for (const value of mod.values) exports.set(value.name, { type: "function", deprecated: isDeprecated(value.comment) });
+      for (const alias of mod.aliases) exports.set(alias.name, { type: "type", deprecated: isDeprecated(alias.comment) });
+      for (const union of mod.unions) {
+        const deprecated = isDeprecated(union.comment);
+        exports.set(union.name, { type: "type", deprecated });
+        for (const [ctor] of union.cases) exports.set(ctor, { type: "enumMember", deprecated });
+      }
+      modules.set(mod.name, { isPackage: true, exports });
+    }
+  }
+  return modules;
+}
+
+function topLevelNames(ast: Ast): Map<string, Exported> {
+  const names = new Map<string, Exported>();
+  for (const decl of ast.declarations) {
+    const d = decl.value;
+    switch (d.type) {
+      case "function":
+        names.set(d.function.declaration.value.name.value, { type: "function", deprecated: isDeprecated(d.function.documentation?.value) });
+        break;
+      case "port":
+        names.set(d.port.name.value, { type: "port", deprecated: false });
+        break;
+      case "typeAlias":
+        names.set(d.typeAlias.name.value, { type: "type", deprecated: isDeprecated(d.typeAlias.documentation?.value) });
+        break;
+      case "typedecl": {
+        const deprecated = isDeprecated(d.typedecl.documentation?.value);
+        names.set(d.typedecl.name.value, { type: "type", deprecated });
+        for (const ctor of d.typedecl.constructors) names.set(ctor.value.name.value, { type: "enumMember", deprecated });
+        break;
+      }
+    }
+  }
+  return names;
+}
+
+// Elm has no deprecation attribute, so go by the docs convention of a line
+// starting with "Deprecated" or "**Deprecated**"
+function isDeprecated(comment: string | undefined): boolean {
+  return !!comment && /^(\{-\|)?\s*(\*\*|_)?deprecated\b/im.test(comment);
+}
+
+// LSP's relative encoding: five integers per token, each position relative
+// to the previous token
+function encodeTokens(tokens: Token[]): number[] {
+  const sorted = [...tokens].sort((a, b) => a.line - b.line || a.character - b.character);
+  const data: number[] = [];
+  let line = 0;
+  let character = 0;
+  let end = -1;
+  for (const token of sorted) {
+    if (token.length <= 0) continue;
+    // Tokens may not overlap
+    if (token.line === line && token.character < end) continue;
+    const deltaLine = token.line - line;
+    const deltaStart = deltaLine === 0 ? token.character - character : token.character;
+    const modifiers = token.modifiers.reduce((bits, m) => bits | (1 << TOKEN_MODIFIERS.indexOf(m)), 0);
+    data.push(deltaLine, deltaStart, token.length, TOKEN_TYPES.indexOf(token.type), modifiers);
+    line = token.line;
+    character = token.character;
+    end = token.character + token.length;
+  }
+  return data;
+}
+
+function push(ctx: Context, line: number, column: number, length: number, type: TokenType, modifiers: TokenModifier[] = []): void {
+  ctx.tokens.push({ line: line - 1, character: column - 1, length, type, modifiers });
+}
+
+function pushRange(ctx: Context, r: ElmRange, type: TokenType, modifiers: TokenModifier[] = []): void {
+  if (r[0] !== r[2]) return;
+  push(ctx, r[0], r[1], r[3] - r[1], type, modifiers);
+}
+
+function modifiersFor(info: Exported, isPackage: boolean): TokenModifier[] {
+  const modifiers: TokenModifier[] = [];
+  if (info.deprecated) modifiers.push("deprecated");
+  if (isPackage) modifiers.push("defaultLibrary");
+  return modifiers;
+}
+
+// A possibly qualified name starting at `r`, e.g. `Html.Attributes.class`:
+// the qualifier as a module, then the name itself
+function pushQualified(ctx: Context, r: ElmRange, moduleName: string[], name: string, fallback: TokenType): void {
+  let column = r[1];
+  const resolved = resolveName(ctx, moduleName, name);
+  if (moduleName.length > 0) {
+    const qualifier = moduleName.join(".");
+    push(ctx, r[0], column, qualifier.length, "namespace", resolved?.isPackage ? ["defaultLibrary"] : []);
+    column += qualifier.length + 1;
+  }
+  if (resolved) push(ctx, r[0], column, name.length, resolved.info.type, modifiersFor(resolved.info, resolved.isPackage));
+  else push(ctx, r[0], column, name.length, fallback);
+}
+
+function resolveName(ctx: Context, moduleName: string[], name: string): { info: Exported; isPackage: boolean } | undefined {
+  let candidates: string[];
+  if (moduleName.length > 0) {
+    const qualifier = moduleName.join(".");
+    candidates = ctx.tracker.aliasMapping.get(qualifier) ?? [qualifier];
+  } else {
+    const local = ctx.locals.get(name);
+    if (local) return { info: local, isPackage: false };
+    candidates = [...(ctx.tracker.explicitExposing.get(name) ?? []), ...ctx.tracker.unknownImports];
+  }
+  for (const candidate of candidates) {
+    const mod = ctx.modules.get(candidate);
+    const info = mod?.exports.get(name);
+    if (mod && info) return { info, isPackage: mod.isPackage };
+  }
+  return undefined;
+}
+
+function collectTokens(ast: Ast, ctx: Context): void {
+  const moduleData = toModuleData(ast);
+  pushRange(ctx, moduleData.moduleName.range, "namespace", ["declaration"]);
+  exposingTokens(ctx, moduleData.exposingList.value, (name) => resolveName(ctx, [], name));
+
+  for (const imp of ast.imports) {
+    const moduleName = imp.value.moduleName.value.join(".");
+    const mod = ctx.modules.get(moduleName);
+    pushRange(ctx, imp.value.moduleName.range, "namespace", mod?.isPackage ? ["defaultLibrary"] : []);
+    if (imp.value.moduleAlias) pushRange(ctx, imp.value.moduleAlias.range, "namespace", ["declaration"]);
+    if (imp.value.exposingList) {
+      exposingTokens(ctx, imp.value.exposingList.value, (name) => {
+        const info = mod?.exports.get(name);
+        return info && { info, isPackage: mod!.isPackage };
+      });
+    }
+  }
+
+  for (const decl of ast.declarations) {
+    const d = decl.value;
+    switch (d.type) {
+      case "function":
+        functionTokens(ctx, d.function, new Map(), "function");
+        break;
+      case "port":
+        pushRange(ctx, d.port.name.range, "port", ["declaration"]);
+        annotationTokens(ctx, d.port.typeAnnotation);
+        break;
+      case "typeAlias":
+        pushRange(ctx, d.typeAlias.name.range, "type", ["declaration"]);
+        for (const generic of d.typeAlias.generics) pushRange(ctx, generic.range, "typeParameter", ["declaration"]);
+        annotationTokens(ctx, d.typeAlias.typeAnnotation);
+        break;
+      case "typedecl":
+        pushRange(ctx, d.typedecl.name.range, "type", ["declaration"]);
+        for (const generic of d.typedecl.generics) pushRange(ctx, generic.range, "typeParameter", ["declaration"]);
+        for (const ctor of d.typedecl.constructors) {
+          pushRange(ctx, ctor.value.name.range, "enumMember", ["declaration"]);
+          for (const arg of ctor.value.arguments) annotationTokens(ctx, arg);
+        }
+        break;
+      case "destructuring": {
+        const scope: Scope = new Map();
+        patternTokens(ctx, d.destructuring.pattern, scope, "function");
+        expressionTokens(ctx, d.destructuring.expression, new Map());
+        break;
+      }
+    }
+  }
+}
+
+function exposingTokens(
+  ctx: Context,
+  exposing: Exposing,
+  resolve: (name: string) => { info: Exported; isPackage: boolean } | undefined
+): void {
+  if (exposing.type !== "explicit") return;
+  for (const node of exposing.explicit) {
+    const e = node.value;
+    let name: string;
+    switch (e.type) {
+      case "function": name = e.function.name; break;
+      case "typeOrAlias": name = e.typeOrAlias.name; break;
+      case "typeexpose": name = e.typeexpose.name; break;
+      default: continue;
+    }
+    const resolved = resolve(name);
+    const type = resolved?.info.type ?? (e.type === "function" ? "function" : "type");
+    push(ctx, node.range[0], node.range[1], name.length, type, resolved ? modifiersFor(resolved.info, resolved.isPackage) : []);
+  }
+}
+
+// A top-level or let function: its signature, name, arguments and body
+function functionTokens(ctx: Context, fn: Function_, scope: Scope, type: TokenType): void {
+  const modifiers: TokenModifier[] = ["declaration"];
+  if (isDeprecated(fn.documentation?.value)) modifiers.push("deprecated");
+  if (fn.signature) {
+    pushRange(ctx, fn.signature.value.name.range, type, modifiers);
+    annotationTokens(ctx, fn.signature.value.typeAnnotation);
+  }
+
+  const declaration = fn.declaration.value;
+  pushRange(ctx, declaration.name.range, type, modifiers);
+  const inner: Scope = new Map(scope);
+  for (const arg of declaration.arguments) patternTokens(ctx, arg, inner, "parameter");
+  expressionTokens(ctx, declaration.expression, inner);
+}
+
+function annotationTokens(ctx: Context, node: Node<TypeAnnotation>): void {
+  const t = node.value as any;
+  switch (t.type) {
+    case "generic":
+      pushRange(ctx, node.range, "typeParameter");
+      break;
+    case "typed": {
+      const { range, value } = t.typed.moduleNameAndName;
+      pushQualified(ctx, range, value.moduleName, value.name, "type");
+      for (const arg of t.typed.args) annotationTokens(ctx, arg);
+      break;
+    }
+    case "tupled":
+      for (const part of t.tupled) annotationTokens(ctx, part);
+      break;
+    case "function":
+      annotationTokens(ctx, t.function.left);
+      annotationTokens(ctx, t.function.right);
+      break;
+    case "record":
+      for (const field of t.record.value ?? t.record) fieldTokens(ctx, field);
+      break;
+    case "genericRecord":
+      pushRange(ctx, t.genericRecord.name.range, "typeParameter");
+      for (const field of t.genericRecord.values.value ?? []) fieldTokens(ctx, field);
+      break;
+  }
+}
+
+function fieldTokens(ctx: Context, field: Node<{ name: Node<string>; typeAnnotation: Node<TypeAnnotation> }>): void {
+  pushRange(ctx, field.value.name.range, "property");
+  annotationTokens(ctx, field.value.typeAnnotation);
+}
+
+// Names the pattern binds are added to `scope` as `type`
+function patternTokens(ctx: Context, node: Node<Pattern>, scope: Scope, type: TokenType): void {
+  const p = node.value as any;
+  const bind = (name: string, r: ElmRange) => {
+    scope.set(name, type);
+    pushRange(ctx, r, type, ["declaration"]);
+  };
+  switch (p.type) {
+    case "var":
+      bind(p.var.value, node.range);
+      break;
+    case "record":
+      for (const field of p.record.value ?? p.record) bind(field.value, field.range);
+      break;
+    case "as":
+      patternTokens(ctx, p.as.pattern, scope, type);
+      bind(p.as.name.value, p.as.name.range);
+      break;
+    case "tuple":
+    case "list":
+      for (const part of p[p.type].value ?? p[p.type]) patternTokens(ctx, part, scope, type);
+      break;
+    case "uncons":
+      patternTokens(ctx, p.uncons.left, scope, type);
+      patternTokens(ctx, p.uncons.right, scope, type);
+      break;
+    case "parentisized":
+      patternTokens(ctx, "range" in p.parentisized ? p.parentisized : p.parentisized.value, scope, type);
+      break;
+    case "named": {
+      const { moduleName, name } = p.named.qualified;
+      pushQualified(ctx, node.range, moduleName, name, "enumMember");
+      for (const arg of p.named.patterns ?? []) patternTokens(ctx, arg, scope, type);
+      break;
+    }
+  }
+}
+
+function expressionTokens(ctx: Context, node: Node<Expression>, scope: Scope): void {
+  if (!node?.value) return;
+  const e = node.value as any;
+  switch (e.type) {
+    case "functionOrValue": {
+      const { moduleName, name } = e.functionOrValue;
+      if (!/^[A-Za-z]/.test(name)) return;
+      const local = moduleName.length === 0 ? scope.get(name) : undefined;
+      if (local) pushRange(ctx, node.range, local);
+      else pushQualified(ctx, node.range, moduleName, name, /^[A-Z]/.test(name) ? "enumMember" : "function");
+      return;
+    }
+    case "recordAccess":
+      expressionTokens(ctx, e.recordAccess.expression, scope);
+      pushRange(ctx, e.recordAccess.name.range, "property");
+      return;
+    case "recordAccessFunction":
+      // `.name`, without the dot
+      push(ctx, node.range[0], node.range[1] + 1, e.recordAccessFunction.length - 1, "property");
+      return;
+    case "record":
+      for (const setter of e.record) setterTokens(ctx, setter, scope);
+      return;
+    case "recordUpdate": {
+      const { name, updates } = e.recordUpdate;
+      const local = scope.get(name.value);
+      if (local) pushRange(ctx, name.range, local);
+      else pushQualified(ctx, name.range, [], name.value, "function");
+      for (const setter of updates) setterTokens(ctx, setter, scope);
+      return;
+    }
+    case "let": {
+      // Let bindings can refer to each other, whatever their order
+      const inner: Scope = new Map(scope);
+      for (const decl of e.let.declarations) {
+        if (decl.value.type === "function") inner.set(decl.value.function.declaration.value.name.value, "variable");
+      }
+      for (const decl of e.let.declarations) {
+        const d = decl.value;
+        if (d.type === "function") {
+          functionTokens(ctx, d.function, inner, "variable");
+        } else {
+          patternTokens(ctx, d.destructuring.pattern, inner, "variable");
+          expressionTokens(ctx, d.destructuring.expression, inner);
+        }
+      }
+      expressionTokens(ctx, e.let.expression, inner);
+      return;
+    }
+    case "lambda": {
+      const inner: Scope = new Map(scope);
+      for (const pattern of e.lambda.patterns) patternTokens(ctx, pattern, inner, "parameter");
+      expressionTokens(ctx, e.lambda.expression, inner);
+      return;
+    }
+    case "case":
+      expressionTokens(ctx, e.case.expression, scope);
+      for (const branch of e.case.cases) {
+        const inner: Scope = new Map(scope);
+        patternTokens(ctx, branch.pattern, inner, "parameter");
+        expressionTokens(ctx, branch.expression, inner);
+      }
+      return;
+    case "application":
+    case "tupled":
+    case "list":
+      for (const child of e[e.type]) expressionTokens(ctx, child, scope);
+      return;
+    case "operatorapplication":
+      expressionTokens(ctx, e.operatorapplication.left, scope);
+      expressionTokens(ctx, e.operatorapplication.right, scope);
+      return;
+    case "ifBlock":
+      expressionTokens(ctx, e.ifBlock.clause, scope);
+      expressionTokens(ctx, e.ifBlock.then, scope);
+      expressionTokens(ctx, e.ifBlock.else, scope);
+      return;
+    case "negation":
+      expressionTokens(ctx, e.negation, scope);
+      return;
+    case "parenthesized":
+      expressionTokens(ctx, e.parenthesized, scope);
+      return;
+  }
+}
+
+function setterTokens(ctx: Context, setter: Node<RecordSetter>, scope: Scope): void {
+  pushRange(ctx, setter.value.field.range, "property");
+  expressionTokens(ctx, setter.value.expression, scope);
+}
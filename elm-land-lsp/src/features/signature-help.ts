@@ -0,0 +1,325 @@
+import { documentStore } from "../state/document-store";
+import { projectIndex } from "../state/project-index";
+import { findElmJsonFor, uriToPath, loadDocs, type ElmJsonFile } from "../project/elm-json";
+import { parse } from "../elm-ast/bridge";
+import { parseCached } from "../state/ast-cache";
+import { inferTypes } from "../project/type-environment";
+import { typeToString } from "../elm-ast/infer";
+import {
+  type Ast,
+  type Node,
+  type Expression,
+  type TypeAnnotation,
+  type ImportTracker,
+  type Range as ElmRange,
+  createImportTracker,
+  expressionChildren,
+  findDeclarationWithName,
+  findCustomTypeVariantWithName,
+  isExposedFromModule,
+  typeAnnotationToString,
+} from "../elm-ast/types";
+import type { Position, SignatureHelp } from "../protocol/messages";
+import { throwIfCancelled } from "../protocol/cancellation";
+
+// A function's type split at its arrows
+type Signature = {
+  name: string;
+  params: string[];
+  result: string;
+  documentation?: string;
+};
+
+// An application around the cursor and the argument the cursor is on
+type Candidate = {
+  head: Node<Expression>;
+  active: number;
+  // The cursor is past the last argument, where the next one would go
+  trailing: boolean;
+};
+
+function positionInRange(pos: Position, r: ElmRange): boolean {
+  const line = pos.line + 1;
+  const col = pos.character + 1;
+  if (line < r[0] || line > r[2]) return false;
+  if (line === r[0] && col < r[1]) return false;
+  if (line === r[2] && col > r[3]) return false;
+  return true;
+}
+
+export async function getSignatureHelp(
+  uri: string,
+  position: Position,
+  signal?: AbortSignal
+): Promise<SignatureHelp | null> {
+  const doc = documentStore.get(uri);
+  if (!doc) return null;
+
+  const elmJson = await findElmJsonFor(uriToPath(uri));
+  if (!elmJson) return null;
+
+  const ast = await parseCached(doc.text, { key: uri });
+  throwIfCancelled(signal);
+
+  const lines = doc.text.split("\n");
+  const help = ast && (await helpFromAst(ast, lines, position, elmJson, signal));
+  if (help) return help;
+
+  // Arguments are usually typed before the code parses again, and `view |`
+  // isn't an application yet, so also try the text before the cursor,
+  // completed just enough to parse
+  const completed = await parse(completedPrefix(lines, position), {
+    key: `${uri}#signature-help`,
+    priority: "interactive",
+  });
+  throwIfCancelled(signal);
+  return completed ? helpFromAst(completed, lines, position, elmJson, signal) : null;
+}
+
+async function helpFromAst(
+  ast: Ast,
+  lines: string[],
+  position: Position,
+  elmJson: ElmJsonFile,
+  signal?: AbortSignal
+): Promise<SignatureHelp | null> {
+  const tracker = createImportTracker(ast);
+  for (const candidate of applicationsAt(ast, lines, position)) {
+    const signature = await resolveSignature(candidate.head, ast, elmJson, tracker, signal);
+    throwIfCancelled(signal);
+    if (!signature) continue;
+    // `text "Hi" |` is more likely the end of the argument than another one
+    if (candidate.trailing && candidate.active >= signature.params.length) continue;
+    return signatureHelp(signature, candidate.active);
+  }
+  return null;
+}
+
+function signatureHelp(signature: Signature, active: number): SignatureHelp {
+  let label = `${signature.name} : `;
+  const parameters: { label: [number, number] }[] = [];
+  for (const param of signature.params) {
+    parameters.push({ label: [label.length, label.length + param.length] });
+    label += param + " -> ";
+  }
+  label += signature.result;
+
+  return {
+    signatures: [
+      {
+        label,
+        documentation: signature.documentation ? { kind: "markdown", value: signature.documentation } : undefined,
+        parameters,
+        activeParameter: active,
+      },
+    ],
+    activeSignature: 0,
+    activeParameter: active,
+  };
+}
+
+// The text up to the cursor, with a placeholder argument where one is about
+// to be typed and closing brackets for any left open:
+//   `Html.div [ class "a" ] (` -> `Html.div [ class "a" ] (x)`
+function completedPrefix(lines: string[], position: Position): string {
+  const prefix = [...lines.slice(0, position.line), (lines[position.line] ?? "").slice(0, position.character)].join("\n");
+  const placeholder = /[\s([{,]$/.test(prefix) ? "x" : "";
+
+  const open: string[] = [];
+  const closing: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+  for (let i = 0; i < prefix.length; i++) {
+    const c = prefix[i]!;
+    if (c === '"' || c === "'") {
+      // Skip the literal, minding escapes
+      for (i++; i < prefix.length && prefix[i] !== c; i++) if (prefix[i] === "\\") i++;
+    } else if (c === "-" && prefix[i + 1] === "-") {
+      while (i < prefix.length && prefix[i] !== "\n") i++;
+    } else if (c === "{" && prefix[i + 1] === "-") {
+      const end = prefix.indexOf("-}", i + 2);
+      i = end === -1 ? prefix.length : end + 1;
+    } else if (c in closing) {
+      open.push(closing[c]!);
+    } else if (c === ")" || c === "]" || c === "}") {
+      open.pop();
+    }
+  }
+  return prefix + placeholder + open.reverse().join("");
+}
+
+// Applications the cursor is in, or just after with a space in between,
+// innermost first
+function applicationsAt(ast: Ast, lines: string[], position: Position): Candidate[] {
+  const candidates: (Candidate & { range: ElmRange })[] = [];
+
+  const visit = (expr: Node<Expression>) => {
+    if (!expr?.value) return;
+    const e = expr.value;
+    if (e.type === "application" && e.application.length > 0) {
+      const [head, ...args] = e.application;
+      const candidate = applicationCandidate(expr.range, head!, args, lines, position);
+      if (candidate) candidates.push({ ...candidate, range: expr.range });
+    }
+    for (const child of expressionChildren(e)) visit(child);
+  };
+
+  for (const decl of ast.declarations) {
+    if (decl.value.type === "function") visit(decl.value.function.declaration.value.expression);
+  }
+
+  return candidates.sort((a, b) => b.range[0] - a.range[0] || b.range[1] - a.range[1]);
+}
+
+function applicationCandidate(
+  range: ElmRange,
+  head: Node<Expression>,
+  args: Node<Expression>[],
+  lines: string[],
+  position: Position
+): Candidate | undefined {
+  if (head.value.type !== "functionOrValue" || positionInRange(position, head.range)) return undefined;
+
+  if (positionInRange(position, range)) {
+    // On an argument, or in the space before the next one
+    const index = args.findIndex((arg) => positionInRange(position, arg.range) || isBefore(position, arg.range));
+    return { head, active: index === -1 ? args.length : index, trailing: false };
+  }
+
+  // `view model |`: after the last argument on the same line
+  const endLine = range[2] - 1;
+  const gap = (lines[endLine] ?? "").slice(range[3] - 1, position.character);
+  if (position.line === endLine && position.character >= range[3] && /^\s+$/.test(gap)) {
+    return { head, active: args.length, trailing: true };
+  }
+  return undefined;
+}
+
+function isBefore(pos: Position, r: ElmRange): boolean {
+  return pos.line + 1 < r[0] || (pos.line + 1 === r[0] && pos.character + 1 < r[1]);
+}
+
+// Finds the type of the function being applied the way hover does: local
+// declarations, then imports, then the inferred type of the name
+async function resolveSignature(
+  head: Node<Expression>,
+  ast: Ast,
+  elmJson: ElmJsonFile,
+  tracker: ImportTracker,
+  signal?: AbortSignal
+): Promise<Signature | undefined> {
+  if (head.value.type !== "functionOrValue") return undefined;
+  const { moduleName: moduleParts, name } = head.value.functionOrValue;
+
+  if (moduleParts.length > 0) {
+    const qualifier = moduleParts.join(".");
+    for (const moduleName of tracker.aliasMapping.get(qualifier) ?? [qualifier]) {
+      const signature = await signatureFromModule(name, moduleName, elmJson);
+      if (signature) return signature;
+    }
+    return undefined;
+  }
+
+  const local = signatureFromAst(name, ast);
+  if (local) return local;
+
+  for (const moduleName of [...(tracker.explicitExposing.get(name) ?? []), ...tracker.unknownImports]) {
+    const signature = await signatureFromModule(name, moduleName, elmJson);
+    if (signature) return signature;
+  }
+
+  // Unannotated functions, let bindings and arguments
+  throwIfCancelled(signal);
+  let inferred: Signature | undefined;
+  try {
+    const { names } = await inferTypes(ast, elmJson);
+    const use = names.find((n) => n.range.every((x, i) => x === head.range[i]));
+    if (use) {
+      const [result, ...params] = splitArrows(typeToString(use.type)).reverse();
+      inferred = { name, params: params.reverse(), result: result! };
+    }
+  } catch {
+    // Syntax the inference doesn't handle
+  }
+  throwIfCancelled(signal);
+  return inferred;
+}
+
+// Annotated functions and constructors declared in `ast`
+function signatureFromAst(name: string, ast: Ast): Signature | undefined {
+  const decl = findDeclarationWithName(ast, name)?.value;
+  if (decl?.type === "function" && decl.function.signature) {
+    return {
+      ...annotationSignature(name, decl.function.signature.value.typeAnnotation),
+      documentation: decl.function.documentation?.value,
+    };
+  }
+  if (decl?.type === "port") return annotationSignature(name, decl.port.typeAnnotation);
+
+  const variant = findCustomTypeVariantWithName(ast, name);
+  if (variant && variant.declaration.value.type === "typedecl") {
+    const typedecl = variant.declaration.value.typedecl;
+    const ctor = typedecl.constructors.find((c) => c.value.name.value === name)!;
+    return {
+      name,
+      params: ctor.value.arguments.map(typeAnnotationToString),
+      result: [typedecl.name.value, ...typedecl.generics.map((g) => g.value)].join(" "),
+    };
+  }
+  return undefined;
+}
+
+function annotationSignature(name: string, annotation: Node<TypeAnnotation>): Signature {
+  const params: string[] = [];
+  let node = annotation;
+  while (node.value.type === "function") {
+    const left = node.value.function.left;
+    const param = typeAnnotationToString(left);
+    params.push(left.value.type === "function" ? `(${param})` : param);
+    node = node.value.function.right;
+  }
+  return { name, params, result: typeAnnotationToString(node) };
+}
+
+async function signatureFromModule(
+  name: string,
+  moduleName: string,
+  elmJson: ElmJsonFile
+): Promise<Signature | undefined> {
+  const local = await projectIndex.getModule(moduleName, elmJson);
+  if (local) {
+    return isExposedFromModule(local.ast, name) ? signatureFromAst(name, local.ast) : undefined;
+  }
+
+  for (const dep of elmJson.dependencies) {
+    const mod = (await loadDocs(dep)).find((d) => d.name === moduleName);
+    if (!mod) continue;
+
+    const value = mod.values.find((v) => v.name === name);
+    if (value) {
+      const [result, ...params] = splitArrows(value.type).reverse();
+      return { name, params: params.reverse(), result: result!, documentation: value.comment || undefined };
+    }
+    for (const union of mod.unions) {
+      const ctor = union.cases.find(([ctorName]) => ctorName === name);
+      if (ctor) return { name, params: ctor[1], result: [union.name, ...union.args].join(" ") };
+    }
+  }
+  return undefined;
+}
+
+// "(a -> b) -> List a -> List b" -> ["(a -> b)", "List a", "List b"]
+function splitArrows(type: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < type.length; i++) {
+    const c = type[i]!;
+    if (c === "(" || c === "{" || c === "[") depth++;
+    else if (c === ")" || c === "}" || c === "]") depth--;
+    else if (depth === 0 && type.startsWith("->", i)) {
+      parts.push(type.slice(start, i).trim());
+      start = i + 2;
+    }
+  }
+  parts.push(type.slice(start).trim());
+  return parts;
+}
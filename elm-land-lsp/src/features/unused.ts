@@ -0,0 +1,182 @@
+import type { ElmJsonFile } from "../project/elm-json";
+import { moduleReferences, type ReferenceSite } from "../state/project-index";
+import { importUsage } from "./organize-imports";
+import {
+  type Ast,
+  type Node,
+  type Expression,
+  type Pattern,
+  type Function_,
+  type TopLevelExpose,
+  type Range as ElmRange,
+  expressionChildren,
+  isExposedFromModule,
+  toModuleData,
+} from "../elm-ast/types";
+
+export type UnusedKind = "import" | "exposing" | "value" | "let" | "pattern" | "constructor";
+
+export type UnusedCode = {
+  kind: UnusedKind;
+  name: string;
+  range: ElmRange;
+};
+
+// A name a pattern or declaration introduces, and where it can be used from.
+// Elm doesn't allow shadowing, so any use of the name within `scope` is a use
+// of this binding.
+type Binding = {
+  kind: "value" | "let" | "pattern";
+  name: Node<string>;
+  scope?: ElmRange; // the whole module when missing
+  own?: ElmRange; // the binding's own definition, where recursive uses don't count
+};
+
+function contains(outer: ElmRange, inner: ElmRange): boolean {
+  const startsAfter = inner[0] > outer[0] || (inner[0] === outer[0] && inner[1] >= outer[1]);
+  const endsBefore = inner[2] < outer[2] || (inner[2] === outer[2] && inner[3] <= outer[3]);
+  return startsAfter && endsBefore;
+}
+
+// Dead code in a module: imports and exposed names nothing uses, values,
+// let bindings and pattern variables that are never referenced, and variants
+// of types private to the module that are never constructed
+export async function findUnusedCode(ast: Ast, elmJson: ElmJsonFile, signal?: AbortSignal): Promise<UnusedCode[]> {
+  const unused: UnusedCode[] = [];
+
+  for (const usage of await importUsage(ast, elmJson, signal)) {
+    if (!usage.used) {
+      unused.push({ kind: "import", name: usage.moduleName, range: usage.node.range });
+      continue;
+    }
+    for (const entry of usage.unusedEntries) {
+      unused.push({ kind: "exposing", name: exposedName(entry.value), range: entry.range });
+    }
+  }
+
+  const references = moduleReferences(ast);
+  const valueUses = references.filter((r) => !r.qualifier && !r.context);
+  const isUsed = (binding: Binding) =>
+    valueUses.some((r) =>
+      r.name === binding.name.value &&
+      (!binding.scope || contains(binding.scope, r.range)) &&
+      !(binding.own && contains(binding.own, r.range))
+    );
+
+  for (const binding of bindingsOf(ast)) {
+    if (!isUsed(binding)) {
+      unused.push({ kind: binding.kind, name: binding.name.value, range: binding.name.range });
+    }
+  }
+
+  unused.push(...unconstructedVariants(ast, references));
+  return unused;
+}
+
+function exposedName(expose: TopLevelExpose): string {
+  switch (expose.type) {
+    case "function": return expose.function.name;
+    case "typeOrAlias": return expose.typeOrAlias.name;
+    case "typeexpose": return expose.typeexpose.name;
+    case "infix": return expose.infix.name;
+  }
+}
+
+function bindingsOf(ast: Ast): Binding[] {
+  const bindings: Binding[] = [];
+  const exposesAll = toModuleData(ast).exposingList.value.type === "all";
+
+  for (const decl of ast.declarations) {
+    const d = decl.value;
+    if (d.type !== "function") continue;
+    const name = d.function.declaration.value.name;
+    if (!exposesAll && !isExposedFromModule(ast, name.value)) {
+      bindings.push({ kind: "value", name, own: decl.range });
+    }
+    functionBindings(d.function, bindings);
+  }
+  return bindings;
+}
+
+// Arguments of a function, and everything bound inside its body
+function functionBindings(func: Function_, bindings: Binding[]): void {
+  const { arguments: args, expression } = func.declaration.value;
+  for (const arg of args) {
+    for (const name of patternVariables(arg)) bindings.push({ kind: "pattern", name, scope: expression.range });
+  }
+  expressionBindings(expression, bindings);
+}
+
+function expressionBindings(expr: Node<Expression>, bindings: Binding[]): void {
+  if (!expr?.value) return;
+  const e = expr.value;
+
+  if (e.type === "let") {
+    for (const decl of e.let.declarations) {
+      const d = decl.value;
+      if (d.type === "function") {
+        bindings.push({ kind: "let", name: d.function.declaration.value.name, scope: expr.range, own: decl.range });
+        functionBindings(d.function, bindings);
+      } else {
+        for (const name of patternVariables(d.destructuring.pattern)) {
+          bindings.push({ kind: "let", name, scope: expr.range, own: decl.range });
+        }
+        expressionBindings(d.destructuring.expression, bindings);
+      }
+    }
+    expressionBindings(e.let.expression, bindings);
+    return;
+  }
+
+  if (e.type === "lambda") {
+    for (const pattern of e.lambda.patterns) {
+      for (const name of patternVariables(pattern)) bindings.push({ kind: "pattern", name, scope: e.lambda.expression.range });
+    }
+  } else if (e.type === "case") {
+    for (const branch of e.case.cases) {
+      for (const name of patternVariables(branch.pattern)) bindings.push({ kind: "pattern", name, scope: branch.expression.range });
+    }
+  }
+
+  for (const child of expressionChildren(e)) expressionBindings(child, bindings);
+}
+
+// The variables a pattern binds, with the range of each name
+function patternVariables(node: Node<Pattern>): Node<string>[] {
+  if (!node?.value) return [];
+  const p = node.value as any;
+  const items = (x: any): Node<Pattern>[] => (Array.isArray(x) ? x : x?.value ?? []);
+
+  switch (p.type) {
+    case "var": return [{ range: node.range, value: p.var.value }];
+    case "record": return items(p.record) as any;
+    case "as": return [...patternVariables(p.as.pattern), p.as.name];
+    case "tuple": return items(p.tuple).flatMap(patternVariables);
+    case "list": return items(p.list).flatMap(patternVariables);
+    case "uncons": return [...patternVariables(p.uncons.left), ...patternVariables(p.uncons.right)];
+    case "named": return (p.named.patterns ?? []).flatMap(patternVariables);
+    case "parentisized": return patternVariables("range" in p.parentisized ? p.parentisized : p.parentisized.value);
+    default: return [];
+  }
+}
+
+// Variants of custom types whose constructors aren't exposed, so nothing
+// outside the module can create them
+function unconstructedVariants(ast: Ast, references: ReferenceSite[]): UnusedCode[] {
+  const exposing = toModuleData(ast).exposingList.value;
+  if (exposing.type === "all") return [];
+  const openTypes = new Set(
+    exposing.explicit.flatMap((e) => (e.value.type === "typeexpose" ? [e.value.typeexpose.name] : []))
+  );
+
+  const unused: UnusedCode[] = [];
+  for (const decl of ast.declarations) {
+    if (decl.value.type !== "typedecl" || openTypes.has(decl.value.typedecl.name.value)) continue;
+    for (const ctor of decl.value.typedecl.constructors) {
+      const name = ctor.value.name;
+      const constructed = references.some((r) => r.name === name.value && !r.qualifier && !r.context);
+      if (!constructed) unused.push({ kind: "constructor", name: name.value, range: name.range });
+    }
+  }
+  return unused;
+}
@@ -0,0 +1,62 @@
+import * as path from "path";
+import { documentStore } from "../state/document-store";
+import { projectIndex } from "../state/project-index";
+import { invalidateCachedFile } from "../state/ast-cache";
+import { findElmJsonFor, invalidateElmJsonCaches, uriToPath } from "../project/elm-json";
+import type { FileEvent } from "../protocol/messages";
+import { runDiagnostics, runLiveDiagnostics } from "./diagnostics";
+
+// Registered with client/registerCapability once the client says it supports
+// dynamic registration for workspace/didChangeWatchedFiles
+export const watchedFilesRegistration = {
+  id: "elm-land-lsp-watched-files",
+  method: "workspace/didChangeWatchedFiles",
+  registerOptions: {
+    watchers: [
+      { globPattern: "**/*.elm" },
+      { globPattern: "**/elm.json" },
+      { globPattern: "**/elm-land.json" },
+    ],
+  },
+};
+
+// Changes made outside the editor (git checkout, elm install, generators).
+// Open documents are still read from the document store, but anything
+// derived from disk is dropped and diagnostics re-run for the open files of
+// each affected project.
+export async function onWatchedFilesChanged(changes: FileEvent[]): Promise<void> {
+  const affectedProjects = new Set<string>();
+
+  // elm.json first: later lookups for .elm files must see the new contents
+  for (const change of changes) {
+    const filePath = uriToPath(change.uri);
+    if (path.basename(filePath) !== "elm.json") continue;
+    const projectFolder = path.dirname(filePath);
+    invalidateElmJsonCaches();
+    projectIndex.removeProject(projectFolder);
+    affectedProjects.add(projectFolder);
+  }
+
+  for (const change of changes) {
+    const filePath = uriToPath(change.uri);
+    const fileName = path.basename(filePath);
+    if (fileName === "elm-land.json") {
+      affectedProjects.add(path.dirname(filePath));
+    } else if (fileName.endsWith(".elm")) {
+      invalidateCachedFile(filePath);
+      projectIndex.invalidate(change.uri);
+      const elmJson = await findElmJsonFor(filePath);
+      if (elmJson) affectedProjects.add(elmJson.projectFolder);
+    }
+  }
+
+  for (const doc of documentStore.all()) {
+    if (!doc.uri.endsWith(".elm")) continue;
+    const elmJson = await findElmJsonFor(uriToPath(doc.uri));
+    if (elmJson && affectedProjects.has(elmJson.projectFolder)) {
+      runDiagnostics(doc.uri);
+      // Whether an `exposing (..)` import is used depends on the other module
+      runLiveDiagnostics(doc.uri);
+    }
+  }
+}
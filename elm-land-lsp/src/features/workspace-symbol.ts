@@ -1,8 +1,8 @@
-import * as fs from "fs";
 import * as path from "path";
-import { Glob } from "bun";
-import { findElmJsonFor, pathToUri, type ElmJsonFile } from "../project/elm-json";
+import { findElmJsonFor, uriToPath, type ElmJsonFile } from "../project/elm-json";
 import { documentStore } from "../state/document-store";
+import { projectIndex, type IndexedDeclaration } from "../state/project-index";
+import type { Range as ElmRange } from "../elm-ast/types";
 import type { Range } from "../protocol/messages";
 import { SymbolKind } from "../protocol/messages";
 
@@ -12,73 +12,20 @@ type SymbolInformation = {
   location: { uri: string; range: Range };
 };
 
-const ELM_KEYWORDS = new Set([
-  "module", "import", "exposing", "as", "if", "then", "else",
-  "case", "of", "let", "in", "type", "alias", "port", "where",
-]);
-
-function extractSymbols(source: string, uri: string): SymbolInformation[] {
-  const symbols: SymbolInformation[] = [];
-  const lines = source.split("\n");
-  const seen = new Set<string>();
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]!;
-
-    // Type alias
-    let match = line.match(/^type\s+alias\s+(\p{Lu}[\w]*)/u);
-    if (match && !seen.has(match[1]!)) {
-      seen.add(match[1]!);
-      symbols.push(makeSymbol(match[1]!, SymbolKind.Object, uri, i, line.indexOf(match[1]!), match[1]!.length));
-      continue;
-    }
-
-    // Custom type
-    match = line.match(/^type\s+(\p{Lu}[\w]*)/u);
-    if (match && !seen.has(match[1]!)) {
-      seen.add(match[1]!);
-      symbols.push(makeSymbol(match[1]!, SymbolKind.Enum, uri, i, line.indexOf(match[1]!), match[1]!.length));
-      continue;
-    }
-
-    // Port declaration (not "port module")
-    match = line.match(/^port\s+(\p{Ll}[\w]*)/u);
-    if (match && !seen.has(match[1]!)) {
-      seen.add(match[1]!);
-      symbols.push(makeSymbol(match[1]!, SymbolKind.Function, uri, i, line.indexOf(match[1]!), match[1]!.length));
-      continue;
-    }
-
-    // Top-level function: lowercase at col 0, not a keyword, followed by args or type annotation
-    match = line.match(/^(\p{Ll}[\w]*)\s+(?:[:,=]|[^\s])/u);
-    if (match && !ELM_KEYWORDS.has(match[1]!) && !seen.has(match[1]!)) {
-      seen.add(match[1]!);
-      symbols.push(makeSymbol(match[1]!, SymbolKind.Function, uri, i, 0, match[1]!.length));
-      continue;
-    }
+function symbolKind(kind: IndexedDeclaration["kind"]): SymbolKind | null {
+  switch (kind) {
+    case "value": return SymbolKind.Function;
+    case "port": return SymbolKind.Function;
+    case "type": return SymbolKind.Enum;
+    case "typeAlias": return SymbolKind.Object;
+    case "constructor": return null;
   }
-
-  return symbols;
 }
 
-function makeSymbol(
-  name: string,
-  kind: SymbolKind,
-  uri: string,
-  line: number,
-  col: number,
-  nameLen: number
-): SymbolInformation {
+function elmRangeToLsp(r: ElmRange): Range {
   return {
-    name,
-    kind,
-    location: {
-      uri,
-      range: {
-        start: { line, character: col },
-        end: { line, character: col + nameLen },
-      },
-    },
+    start: { line: r[0] - 1, character: r[1] - 1 },
+    end: { line: r[2] - 1, character: r[3] - 1 },
   };
 }
 
@@ -92,61 +39,46 @@ function fuzzyMatch(query: string, name: string): boolean {
   return qi === lowerQuery.length;
 }
 
-let cachedSymbols: SymbolInformation[] | null = null;
-let cachedProjectFolder: string | null = null;
+async function workspaceProjects(rootUri: string): Promise<ElmJsonFile[]> {
+  const indexed = projectIndex.indexedProjects();
+  if (indexed.length > 0) return indexed;
 
-async function getAllSymbols(rootUri: string): Promise<SymbolInformation[]> {
-  // Find elm.json from any open document or from rootUri
-  let elmJson: ElmJsonFile | undefined;
+  // Nothing indexed yet: find elm.json from any open document or from rootUri
   for (const doc of documentStore.all()) {
-    const filePath = decodeURIComponent(doc.uri.replace("file://", ""));
-    elmJson = await findElmJsonFor(filePath);
-    if (elmJson) break;
-  }
-
-  if (!elmJson) {
-    const rootPath = decodeURIComponent(rootUri.replace("file://", ""));
-    elmJson = await findElmJsonFor(path.join(rootPath, "src", "dummy.elm"));
-  }
-
-  if (!elmJson) return [];
-
-  if (cachedProjectFolder === elmJson.projectFolder && cachedSymbols) {
-    return cachedSymbols;
+    const elmJson = await findElmJsonFor(uriToPath(doc.uri));
+    if (elmJson) return [elmJson];
   }
+  const elmJson = await findElmJsonFor(path.join(uriToPath(rootUri), "src", "dummy.elm"));
+  return elmJson ? [elmJson] : [];
+}
 
+async function getAllSymbols(
+  rootUri: string,
+  signal?: AbortSignal
+): Promise<SymbolInformation[]> {
   const symbols: SymbolInformation[] = [];
-  const glob = new Glob("**/*.elm");
-
-  for (const sourceDir of elmJson.sourceDirectories) {
-    try {
-      for (const match of glob.scanSync({ cwd: sourceDir, absolute: true })) {
-        try {
-          const source = fs.readFileSync(match, "utf-8");
-          const uri = pathToUri(match);
-          symbols.push(...extractSymbols(source, uri));
-        } catch {}
+  for (const elmJson of await workspaceProjects(rootUri)) {
+    for (const mod of await projectIndex.modules(elmJson, signal)) {
+      for (const decl of mod.declarations) {
+        const kind = symbolKind(decl.kind);
+        if (kind === null) continue;
+        symbols.push({
+          name: decl.name,
+          kind,
+          location: { uri: mod.uri, range: elmRangeToLsp(decl.range) },
+        });
       }
-    } catch {}
+    }
   }
-
-  cachedSymbols = symbols;
-  cachedProjectFolder = elmJson.projectFolder;
-
-  // Invalidate cache after 5 seconds (new files, etc.)
-  setTimeout(() => {
-    cachedSymbols = null;
-    cachedProjectFolder = null;
-  }, 5000);
-
   return symbols;
 }
 
 export async function getWorkspaceSymbols(
   query: string,
-  rootUri: string
+  rootUri: string,
+  signal?: AbortSignal
 ): Promise<SymbolInformation[]> {
-  const allSymbols = await getAllSymbols(rootUri);
+  const allSymbols = await getAllSymbols(rootUri, signal);
   if (!query) return allSymbols;
   return allSymbols.filter((s) => fuzzyMatch(query, s.name));
 }
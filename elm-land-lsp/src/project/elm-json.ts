@@ -97,6 +97,14 @@ export async function findElmJsonFor(filePath: string): Promise<ElmJsonFile | un
   return undefined;
 }
 
+// Forget every cached elm.json and package docs, e.g. after `elm install` or
+// a branch switch. A new elm.json can shadow one found for a subfolder, so the
+// whole elm.json cache goes rather than a single entry.
+export function invalidateElmJsonCaches(): void {
+  elmJsonCache.clear();
+  docsCache.clear();
+}
+
 export async function loadDocs(dep: Dependency): Promise<ModuleDoc[]> {
   const cached = docsCache.get(dep.docsPath);
   if (cached) return cached;
@@ -0,0 +1,184 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { ElmJsonFile } from "./elm-json";
+import { findModulesInNamespace, resolveModuleToFile, type ModuleFile } from "./module-resolver";
+
+// Elm Land conventions:
+//   src/Pages/Home_.elm          -> Route.Path.Home_           -> "/"
+//   src/Pages/SignIn.elm         -> Route.Path.SignIn          -> "/sign-in"
+//   src/Pages/Users/Id_.elm      -> Route.Path.Users_Id_       -> "/users/:id"
+//   src/Pages/Blog/ALL_.elm      -> Route.Path.Blog_ALL_       -> "/blog/*"
+// The generated `Route.Path` module lives in `.elm-land/src`, which Elm Land
+// lists in elm.json's source-directories.
+
+export const ROUTE_PATH_MODULE = "Route.Path";
+const PAGES_NAMESPACE = "Pages";
+
+export type PageRoute = ModuleFile & {
+  routeName: string;
+  segments: RouteSegment[];
+};
+
+export type RouteSegment =
+  | { kind: "static"; value: string }
+  | { kind: "dynamic"; param: string }
+  | { kind: "catchAll" };
+
+export function isElmLandProject(elmJson: ElmJsonFile): boolean {
+  return fs.existsSync(path.join(elmJson.projectFolder, "elm-land.json"));
+}
+
+export function isPageModule(moduleName: string): boolean {
+  return moduleName.startsWith(PAGES_NAMESPACE + ".");
+}
+
+// "Pages.Users.Id_" -> "Users_Id_"
+export function pageModuleToRouteName(moduleName: string): string {
+  return moduleName.split(".").slice(1).join("_");
+}
+
+// "Pages.Users.Id_" -> [static "users", dynamic "id"]
+export function pageModuleToSegments(moduleName: string): RouteSegment[] {
+  const parts = moduleName.split(".").slice(1);
+  if (parts.length === 1 && (parts[0] === "Home_" || parts[0] === "NotFound_")) return [];
+
+  return parts.map((part): RouteSegment => {
+    if (part === "ALL_") return { kind: "catchAll" };
+    if (part.endsWith("_")) return { kind: "dynamic", param: toParamName(part.slice(0, -1)) };
+    return { kind: "static", value: toKebabCase(part) };
+  });
+}
+
+// "Pages.Users.Id_" -> "/users/:id"
+export function pageModuleToUrl(moduleName: string): string {
+  const segments = pageModuleToSegments(moduleName).map((s) => {
+    switch (s.kind) {
+      case "static": return s.value;
+      case "dynamic": return ":" + s.param;
+      case "catchAll": return "*";
+    }
+  });
+  return "/" + segments.join("/");
+}
+
+// Names of the params record fields, e.g. ["id"] for Pages/Users/Id_.elm
+export function pageModuleToParams(moduleName: string): { name: string; type: string }[] {
+  return pageModuleToSegments(moduleName).flatMap((s) => {
+    if (s.kind === "dynamic") return [{ name: s.param, type: "String" }];
+    if (s.kind === "catchAll") return [{ name: "all_", type: "List String" }];
+    return [];
+  });
+}
+
+export function listPageRoutes(elmJson: ElmJsonFile): PageRoute[] {
+  return findModulesInNamespace(PAGES_NAMESPACE, elmJson).map((page) => ({
+    ...page,
+    routeName: pageModuleToRouteName(page.moduleName),
+    segments: pageModuleToSegments(page.moduleName),
+  }));
+}
+
+export function findPageForRoute(
+  routeName: string,
+  elmJson: ElmJsonFile
+): PageRoute | undefined {
+  return listPageRoutes(elmJson).find((p) => p.routeName === routeName);
+}
+
+// Match a URL such as "/users/42?tab=posts" against the pages folder. Static
+// segments win over dynamic ones, and catch-all pages are the last resort.
+export function findPageForUrl(
+  url: string,
+  elmJson: ElmJsonFile
+): PageRoute | undefined {
+  const pathname = url.split(/[?#]/)[0]!;
+  const parts = pathname.split("/").filter((p) => p.length > 0).map(decodeSegment);
+
+  let best: { page: PageRoute; score: number } | undefined;
+  for (const page of listPageRoutes(elmJson)) {
+    if (page.routeName === "NotFound_") continue;
+    const score = matchSegments(page.segments, parts);
+    if (score !== null && (!best || score > best.score)) {
+      best = { page, score };
+    }
+  }
+  return best?.page;
+}
+
+// "/users/:id" -> "Pages.Users.Id_", "/sign-in" -> "Pages.SignIn", "/" -> "Pages.Home_"
+export function urlToPageModule(url: string): string | undefined {
+  const pathname = url.split(/[?#]/)[0]!;
+  const parts = pathname.split("/").filter((p) => p.length > 0);
+  if (parts.length === 0) return `${PAGES_NAMESPACE}.Home_`;
+
+  const moduleParts: string[] = [];
+  for (const part of parts) {
+    if (part === "*") moduleParts.push("ALL_");
+    else if (part.startsWith(":")) moduleParts.push(toPascalCase(part.slice(1)) + "_");
+    else moduleParts.push(toPascalCase(part));
+  }
+  if (moduleParts.some((p) => !/^\p{Lu}[\w]*$/u.test(p))) return undefined;
+  return [PAGES_NAMESPACE, ...moduleParts].join(".");
+}
+
+// The project's own source folder (as opposed to the generated .elm-land/src),
+// where new pages, layouts and a customized Shared module are created
+export function elmLandSourceDir(elmJson: ElmJsonFile): string {
+  const generated = path.join(elmJson.projectFolder, ".elm-land");
+  const own = elmJson.sourceDirectories.filter((d) => !d.startsWith(generated));
+  return own[0] ?? path.join(elmJson.projectFolder, "src");
+}
+
+export async function resolveRoutePathFile(elmJson: ElmJsonFile): Promise<string | undefined> {
+  return resolveModuleToFile(ROUTE_PATH_MODULE, elmJson);
+}
+
+function matchSegments(segments: RouteSegment[], parts: string[]): number | null {
+  let score = 0;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i]!;
+    if (segment.kind === "catchAll") {
+      // Elm Land's catch-all needs at least one remaining segment
+      return i < parts.length ? score : null;
+    }
+    const part = parts[i];
+    if (part === undefined) return null;
+    if (segment.kind === "static") {
+      if (segment.value !== part) return null;
+      score += 2;
+    } else {
+      score += 1;
+    }
+  }
+  return segments.length === parts.length ? score + 1 : null;
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+// "SignIn" -> "sign-in"
+function toKebabCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/([A-Z])([A-Z][a-z])/g, "$1-$2")
+    .toLowerCase();
+}
+
+// "sign-in" -> "SignIn", "userId" -> "UserId"
+function toPascalCase(segment: string): string {
+  return segment
+    .split(/[-_\s]+/)
+    .filter((w) => w.length > 0)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join("");
+}
+
+// "Id" -> "id", "UserId" -> "userId"
+function toParamName(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
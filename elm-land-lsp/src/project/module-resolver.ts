@@ -1,5 +1,6 @@
 import * as path from "path";
 import * as fs from "fs/promises";
+import { Glob } from "bun";
 import type { ElmJsonFile } from "./elm-json";
 import { pathToUri } from "./elm-json";
 
@@ -29,3 +30,36 @@ export async function resolveModuleToUri(
   const fsPath = await resolveModuleToFile(moduleName, elmJson);
   return fsPath ? pathToUri(fsPath) : undefined;
 }
+
+export type ModuleFile = {
+  moduleName: string;
+  filePath: string;
+};
+
+// List every module below a namespace, e.g. "Pages" finds Pages.Home_ and
+// Pages.Users.Id_ in whichever source directories contain a Pages/ folder.
+export function findModulesInNamespace(
+  namespace: string,
+  elmJson: ElmJsonFile
+): ModuleFile[] {
+  const namespaceParts = namespace.split(".");
+  const glob = new Glob("**/*.elm");
+  const modules: ModuleFile[] = [];
+
+  for (const sourceDir of elmJson.sourceDirectories) {
+    const folder = path.join(sourceDir, ...namespaceParts);
+    try {
+      for (const relative of glob.scanSync({ cwd: folder })) {
+        const parts = relative.slice(0, -".elm".length).split(path.sep);
+        modules.push({
+          moduleName: [...namespaceParts, ...parts].join("."),
+          filePath: path.join(folder, relative),
+        });
+      }
+    } catch {
+      // namespace folder doesn't exist in this source directory
+    }
+  }
+
+  return modules;
+}
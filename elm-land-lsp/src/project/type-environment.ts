@@ -0,0 +1,47 @@
+import { loadDocs, type ElmJsonFile } from "./elm-json";
+import { projectIndex, type IndexedModule } from "../state/project-index";
+import { TypeEnvironment, inferModule, type InferenceResult } from "../elm-ast/infer";
+import type { Ast } from "../elm-ast/types";
+
+// Everything `ast` can see through its imports: the docs of every package
+// dependency, plus the project modules it imports (directly or indirectly),
+// added so that each module comes after the modules it imports.
+export async function buildTypeEnvironment(
+  ast: Ast,
+  elmJson: ElmJsonFile,
+  signal?: AbortSignal
+): Promise<TypeEnvironment> {
+  const env = new TypeEnvironment();
+  for (const dep of elmJson.dependencies) {
+    env.addDocs(await loadDocs(dep));
+  }
+
+  const modules = new Map<string, IndexedModule>();
+  for (const mod of await projectIndex.modules(elmJson, signal)) {
+    modules.set(mod.moduleName, mod);
+  }
+
+  const visited = new Set<string>();
+  const visit = (imports: Ast["imports"]) => {
+    for (const imp of imports) {
+      const name = imp.value.moduleName.value.join(".");
+      const mod = modules.get(name);
+      // Import cycles are a compile error; stop at the first repeat
+      if (!mod || visited.has(name)) continue;
+      visited.add(name);
+      visit(mod.ast.imports);
+      env.addModule(mod.ast);
+    }
+  };
+  visit(ast.imports);
+
+  return env;
+}
+
+export async function inferTypes(
+  ast: Ast,
+  elmJson: ElmJsonFile,
+  signal?: AbortSignal
+): Promise<InferenceResult> {
+  return inferModule(ast, await buildTypeEnvironment(ast, elmJson, signal));
+}
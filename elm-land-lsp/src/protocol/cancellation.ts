@@ -0,0 +1,13 @@
+import { ErrorCodes, RequestError } from "./messages";
+
+export class RequestCancelledError extends RequestError {
+  constructor() {
+    super(ErrorCodes.RequestCancelled, "Request cancelled");
+  }
+}
+
+// Feature code calls this between units of work (one file, one module) so a
+// `$/cancelRequest` stops a long scan instead of only discarding its result.
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) throw new RequestCancelledError();
+}
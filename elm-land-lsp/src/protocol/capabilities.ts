@@ -1,7 +1,10 @@
+import { COMMANDS, ORGANIZE_IMPORTS } from "../features/code-action";
+import { semanticTokensLegend } from "../features/semantic-tokens";
+
 export const serverCapabilities = {
   textDocumentSync: {
     openClose: true,
-    change: 1, // Full content sync
+    change: 2, // Incremental content sync
     save: { includeText: false },
   },
   documentFormattingProvider: true,
@@ -10,8 +13,21 @@ export const serverCapabilities = {
   completionProvider: {
     triggerCharacters: ["."],
   },
+  signatureHelpProvider: {
+    triggerCharacters: [" ", "("],
+  },
   definitionProvider: true,
   referencesProvider: true,
+  documentHighlightProvider: true,
   renameProvider: { prepareProvider: true },
   workspaceSymbolProvider: true,
+  codeActionProvider: { codeActionKinds: ["quickfix", ORGANIZE_IMPORTS] },
+  codeLensProvider: { resolveProvider: true },
+  inlayHintProvider: true,
+  semanticTokensProvider: {
+    legend: semanticTokensLegend,
+    full: true,
+    range: true,
+  },
+  executeCommandProvider: { commands: Object.values(COMMANDS) },
 };
@@ -0,0 +1,102 @@
+import {
+  isRequest,
+  isNotification,
+  isResponse,
+  ErrorCodes,
+  RequestError,
+  type RequestMessage,
+  type NotificationMessage,
+  type ResponseMessage,
+} from "./messages";
+import { RequestCancelledError } from "./cancellation";
+
+type RequestId = number | string;
+
+export type DispatcherHandlers = {
+  request(msg: RequestMessage, signal: AbortSignal): Promise<unknown>;
+  notification(msg: NotificationMessage): Promise<void> | void;
+  // Answers from the client to requests the server sent (e.g. workspace/applyEdit)
+  response(msg: ResponseMessage): void;
+  respond(id: RequestId, result: unknown): void;
+  respondError(id: RequestId, code: number, message: string): void;
+};
+
+// Routes incoming messages. Notifications are processed strictly in arrival
+// order; requests run concurrently with each other, but each one only starts
+// once every notification received before it has been handled, so a request
+// never observes a document older than the edits that preceded it.
+export class Dispatcher {
+  private inFlight = new Map<RequestId, AbortController>();
+  private notifications: Promise<void> = Promise.resolve();
+
+  constructor(private handlers: DispatcherHandlers) {}
+
+  dispatch(msg: unknown): void {
+    if (isRequest(msg)) {
+      this.dispatchRequest(msg);
+    } else if (isResponse(msg)) {
+      this.handlers.response(msg);
+    } else if (isNotification(msg)) {
+      if (msg.method === "$/cancelRequest") {
+        const params = msg.params as { id: RequestId };
+        this.cancel(params.id);
+        return;
+      }
+      this.notifications = this.notifications
+        .then(() => this.handlers.notification(msg))
+        .catch((err) => {
+          console.error("[server] Unhandled error:", err);
+        });
+    }
+  }
+
+  cancel(id: RequestId): void {
+    const controller = this.inFlight.get(id);
+    if (!controller) return;
+    this.inFlight.delete(id);
+    controller.abort();
+    this.handlers.respondError(id, ErrorCodes.RequestCancelled, "Request cancelled");
+  }
+
+  inFlightIds(): RequestId[] {
+    return Array.from(this.inFlight.keys());
+  }
+
+  // Resolves once every notification received so far has been handled
+  idle(): Promise<void> {
+    return this.notifications;
+  }
+
+  private dispatchRequest(msg: RequestMessage): void {
+    const controller = new AbortController();
+    this.inFlight.set(msg.id, controller);
+
+    this.notifications
+      .then(() => {
+        if (controller.signal.aborted) throw new RequestCancelledError();
+        return this.handlers.request(msg, controller.signal);
+      })
+      .then(
+        (result) => {
+          if (!this.finish(msg.id, controller)) return;
+          this.handlers.respond(msg.id, result);
+        },
+        (err) => {
+          if (!this.finish(msg.id, controller)) return;
+          if (err instanceof RequestError) {
+            this.handlers.respondError(msg.id, err.code, err.message);
+          } else {
+            console.error("[server] Unhandled error:", err);
+            this.handlers.respondError(msg.id, ErrorCodes.InternalError, String(err));
+          }
+        }
+      );
+  }
+
+  // Returns false when the request was already answered by `cancel`
+  private finish(id: RequestId, controller: AbortController): boolean {
+    if (this.inFlight.get(id) !== controller) return false;
+    this.inFlight.delete(id);
+    return true;
+  }
+}
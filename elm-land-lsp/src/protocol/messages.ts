@@ -33,6 +33,15 @@ export function isRequest(msg: unknown): msg is RequestMessage {
   );
 }
 
+export function isResponse(msg: unknown): msg is ResponseMessage {
+  return (
+    typeof msg === "object" &&
+    msg !== null &&
+    "id" in msg &&
+    !("method" in msg)
+  );
+}
+
 export function isNotification(msg: unknown): msg is NotificationMessage {
   return (
     typeof msg === "object" &&
@@ -48,6 +57,18 @@ export type Range = { start: Position; end: Position };
 
 export type Location = { uri: string; range: Range };
 
+export type TextDocumentContentChangeEvent =
+  | { range: Range; rangeLength?: number; text: string }
+  | { text: string };
+
+export const enum FileChangeType {
+  Created = 1,
+  Changed = 2,
+  Deleted = 3,
+}
+
+export type FileEvent = { uri: string; type: FileChangeType };
+
 export const enum DiagnosticSeverity {
   Error = 1,
   Warning = 2,
@@ -55,11 +76,19 @@ export const enum DiagnosticSeverity {
   Hint = 4,
 }
 
+export const enum DiagnosticTag {
+  Unnecessary = 1, // Rendered faded out
+  Deprecated = 2,
+}
+
 export type Diagnostic = {
   range: Range;
   severity?: DiagnosticSeverity;
   source?: string;
   message: string;
+  tags?: DiagnosticTag[];
+  // Kept by the client and sent back with code action requests
+  data?: unknown;
 };
 
 export type TextEdit = {
@@ -67,6 +96,55 @@ export type TextEdit = {
   newText: string;
 };
 
+export type CreateFile = {
+  kind: "create";
+  uri: string;
+  options?: { overwrite?: boolean; ignoreIfExists?: boolean };
+};
+
+export type TextDocumentEdit = {
+  textDocument: { uri: string; version: number | null };
+  edits: TextEdit[];
+};
+
+export type WorkspaceEdit = {
+  changes?: Record<string, TextEdit[]>;
+  documentChanges?: (TextDocumentEdit | CreateFile)[];
+};
+
+export type Command = {
+  title: string;
+  command: string;
+  arguments?: unknown[];
+};
+
+export type CodeAction = {
+  title: string;
+  kind?: string;
+  diagnostics?: Diagnostic[];
+  isPreferred?: boolean;
+  edit?: WorkspaceEdit;
+  command?: Command;
+};
+
+export const enum DocumentHighlightKind {
+  Text = 1,
+  Read = 2,
+  Write = 3, // Where the name is bound
+}
+
+export type DocumentHighlight = {
+  range: Range;
+  kind?: DocumentHighlightKind;
+};
+
+// Sent without `command` and resolved later; `data` is kept by the client
+export type CodeLens = {
+  range: Range;
+  command?: Command;
+  data?: unknown;
+};
+
 export const enum SymbolKind {
   Function = 12,
   Variable = 13,
@@ -84,6 +162,39 @@ export type DocumentSymbol = {
   children?: DocumentSymbol[];
 };
 
+export type SignatureInformation = {
+  label: string;
+  documentation?: { kind: "markdown"; value: string };
+  // Offsets of each parameter in `label`
+  parameters: { label: [number, number] }[];
+  activeParameter?: number;
+};
+
+export type SignatureHelp = {
+  signatures: SignatureInformation[];
+  activeSignature?: number;
+  activeParameter?: number;
+};
+
+export const enum InlayHintKind {
+  Type = 1,
+  Parameter = 2,
+}
+
+export type InlayHint = {
+  position: Position;
+  label: string;
+  kind?: InlayHintKind;
+  tooltip?: string;
+  paddingLeft?: boolean;
+  paddingRight?: boolean;
+};
+
+// Five integers per token, see `encodeTokens` in features/semantic-tokens.ts
+export type SemanticTokens = {
+  data: number[];
+};
+
 export const ErrorCodes = {
   ParseError: -32700,
   InvalidRequest: -32600,
@@ -93,3 +204,13 @@ export const ErrorCodes = {
   ServerNotInitialized: -32002,
   RequestCancelled: -32800,
 } as const;
+
+// Thrown by request handlers to answer with a JSON-RPC error instead of a result
+export class RequestError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
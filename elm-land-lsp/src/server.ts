@@ -1,27 +1,62 @@
 import { encode, tryParse } from "./protocol/transport";
 import {
-  isRequest,
-  isNotification,
   ErrorCodes,
+  RequestError,
   type RequestMessage,
   type NotificationMessage,
   type ResponseMessage,
+  type Diagnostic,
+  type CodeLens,
+  type FileEvent,
+  type Range,
+  type TextDocumentContentChangeEvent,
 } from "./protocol/messages";
 import { serverCapabilities } from "./protocol/capabilities";
+import { Dispatcher } from "./protocol/dispatcher";
 import { documentStore } from "./state/document-store";
-import { runDiagnostics } from "./features/diagnostics";
+import { projectIndex } from "./state/project-index";
+import { uriToPath } from "./project/elm-json";
+import { configureParser, parserStatus, type ParserOptions } from "./elm-ast/bridge";
+import { configureAstCache, astCacheStats, forgetCachedDocument, type AstCacheOptions } from "./state/ast-cache";
+import { configureIndexCache, type IndexCacheOptions } from "./state/index-cache";
+import {
+  runDiagnostics,
+  runLiveDiagnostics,
+  clearLiveDiagnostics,
+  configureDiagnostics,
+  type DiagnosticsOptions,
+} from "./features/diagnostics";
 import { formatDocument } from "./features/formatting";
 import { getDocumentSymbols } from "./features/document-symbol";
 import { getDefinition } from "./features/definition";
 import { getWorkspaceSymbols } from "./features/workspace-symbol";
 import { getCompletions } from "./features/completion";
 import { getHover } from "./features/hover";
+import { getSignatureHelp } from "./features/signature-help";
+import { getSemanticTokens } from "./features/semantic-tokens";
+import { getInlayHints, configureInlayHints, type InlayHintsOptions } from "./features/inlay-hints";
 import { findReferences } from "./features/references";
+import { getDocumentHighlights } from "./features/document-highlight";
 import { prepareRename, doRename } from "./features/rename";
+import { getCodeActions, executeCommand } from "./features/code-action";
+import { getCodeLenses, resolveCodeLens } from "./features/code-lens";
+import { onWatchedFilesChanged, watchedFilesRegistration } from "./features/watched-files";
 
 let initialized = false;
 let shuttingDown = false;
 let rootUri = "";
+let clientCapabilities: {
+  workspace?: { didChangeWatchedFiles?: { dynamicRegistration?: boolean } };
+} = {};
+
+// Settings the client passes in `initialize`
+type InitializationOptions = {
+  diagnostics?: DiagnosticsOptions;
+  inlayHints?: InlayHintsOptions;
+  parser?: ParserOptions;
+  astCache?: AstCacheOptions;
+  indexCache?: IndexCacheOptions;
+};
 
 function send(message: ResponseMessage | object): void {
   process.stdout.write(encode(message));
@@ -43,28 +78,65 @@ export function sendNotification(method: string, params: unknown): void {
   send({ jsonrpc: "2.0", method, params });
 }
 
-async function handleRequest(msg: RequestMessage): Promise<void> {
+// Server -> client requests (e.g. workspace/applyEdit), keyed by our own ids
+let serverRequestCounter = 0;
+const pendingServerRequests = new Map<
+  string,
+  { resolve: (result: unknown) => void; reject: (err: Error) => void }
+>();
+
+export function sendRequest(method: string, params: unknown): Promise<unknown> {
+  const id = `elm-land-lsp-${++serverRequestCounter}`;
+  return new Promise((resolve, reject) => {
+    pendingServerRequests.set(id, { resolve, reject });
+    send({ jsonrpc: "2.0", id, method, params });
+  });
+}
+
+function handleResponse(msg: ResponseMessage): void {
+  const pending = pendingServerRequests.get(String(msg.id));
+  if (!pending) return;
+  pendingServerRequests.delete(String(msg.id));
+  if (msg.error) {
+    pending.reject(new RequestError(msg.error.code, msg.error.message));
+  } else {
+    pending.resolve(msg.result);
+  }
+}
+
+async function handleRequest(
+  msg: RequestMessage,
+  signal: AbortSignal
+): Promise<unknown> {
   if (msg.method === "initialize") {
     initialized = true;
-    const params = msg.params as { rootUri?: string };
+    const params = msg.params as {
+      rootUri?: string;
+      capabilities?: typeof clientCapabilities;
+      initializationOptions?: InitializationOptions;
+    };
     rootUri = params.rootUri ?? "";
-    sendResponse(msg.id, {
+    clientCapabilities = params.capabilities ?? {};
+    configureDiagnostics(params.initializationOptions?.diagnostics);
+    configureInlayHints(params.initializationOptions?.inlayHints);
+    configureParser(params.initializationOptions?.parser);
+    configureAstCache(params.initializationOptions?.astCache);
+    // Saved between runs unless the client says not to
+    configureIndexCache({ enabled: true, ...params.initializationOptions?.indexCache });
+    return {
       capabilities: serverCapabilities,
       serverInfo: { name: "elm-land-lsp", version: "0.1.0" },
-    });
-    return;
+    };
   }
 
   if (!initialized) {
-    sendError(msg.id, ErrorCodes.ServerNotInitialized, "Server not initialized");
-    return;
+    throw new RequestError(ErrorCodes.ServerNotInitialized, "Server not initialized");
   }
 
   switch (msg.method) {
     case "shutdown": {
       shuttingDown = true;
-      sendResponse(msg.id, null);
-      return;
+      return null;
     }
 
     case "textDocument/hover": {
@@ -72,9 +144,15 @@ async function handleRequest(msg: RequestMessage): Promise<void> {
         textDocument: { uri: string };
         position: { line: number; character: number };
       };
-      const result = await getHover(params.textDocument.uri, params.position);
-      sendResponse(msg.id, result);
-      return;
+      return getHover(params.textDocument.uri, params.position);
+    }
+
+    case "textDocument/signatureHelp": {
+      const params = msg.params as {
+        textDocument: { uri: string };
+        position: { line: number; character: number };
+      };
+      return getSignatureHelp(params.textDocument.uri, params.position, signal);
     }
 
     case "textDocument/completion": {
@@ -82,27 +160,44 @@ async function handleRequest(msg: RequestMessage): Promise<void> {
         textDocument: { uri: string };
         position: { line: number; character: number };
       };
-      const result = await getCompletions(params.textDocument.uri, params.position);
-      sendResponse(msg.id, result);
-      return;
+      return getCompletions(params.textDocument.uri, params.position, signal);
     }
 
     case "textDocument/formatting": {
       const params = msg.params as {
         textDocument: { uri: string };
       };
-      const result = await formatDocument(params.textDocument.uri);
-      sendResponse(msg.id, result);
-      return;
+      return formatDocument(params.textDocument.uri);
     }
 
     case "textDocument/documentSymbol": {
       const params = msg.params as {
         textDocument: { uri: string };
       };
-      const result = await getDocumentSymbols(params.textDocument.uri);
-      sendResponse(msg.id, result);
-      return;
+      return getDocumentSymbols(params.textDocument.uri);
+    }
+
+    case "textDocument/inlayHint": {
+      const params = msg.params as {
+        textDocument: { uri: string };
+        range: Range;
+      };
+      return getInlayHints(params.textDocument.uri, params.range, signal);
+    }
+
+    case "textDocument/semanticTokens/full": {
+      const params = msg.params as {
+        textDocument: { uri: string };
+      };
+      return getSemanticTokens(params.textDocument.uri, undefined, signal);
+    }
+
+    case "textDocument/semanticTokens/range": {
+      const params = msg.params as {
+        textDocument: { uri: string };
+        range: Range;
+      };
+      return getSemanticTokens(params.textDocument.uri, params.range, signal);
     }
 
     case "textDocument/definition": {
@@ -110,12 +205,10 @@ async function handleRequest(msg: RequestMessage): Promise<void> {
         textDocument: { uri: string };
         position: { line: number; character: number };
       };
-      const result = await getDefinition(
+      return getDefinition(
         params.textDocument.uri,
         params.position
       );
-      sendResponse(msg.id, result);
-      return;
     }
 
     case "textDocument/prepareRename": {
@@ -123,9 +216,7 @@ async function handleRequest(msg: RequestMessage): Promise<void> {
         textDocument: { uri: string };
         position: { line: number; character: number };
       };
-      const result = await prepareRename(params.textDocument.uri, params.position);
-      sendResponse(msg.id, result);
-      return;
+      return prepareRename(params.textDocument.uri, params.position, signal);
     }
 
     case "textDocument/rename": {
@@ -134,13 +225,12 @@ async function handleRequest(msg: RequestMessage): Promise<void> {
         position: { line: number; character: number };
         newName: string;
       };
-      const result = await doRename(
+      return doRename(
         params.textDocument.uri,
         params.position,
-        params.newName
+        params.newName,
+        signal
       );
-      sendResponse(msg.id, result);
-      return;
     }
 
     case "textDocument/references": {
@@ -149,24 +239,69 @@ async function handleRequest(msg: RequestMessage): Promise<void> {
         position: { line: number; character: number };
         context: { includeDeclaration: boolean };
       };
-      const result = await findReferences(
+      return findReferences(
         params.textDocument.uri,
         params.position,
-        params.context?.includeDeclaration ?? true
+        params.context?.includeDeclaration ?? true,
+        signal
       );
-      sendResponse(msg.id, result);
-      return;
+    }
+
+    case "textDocument/documentHighlight": {
+      const params = msg.params as {
+        textDocument: { uri: string };
+        position: { line: number; character: number };
+      };
+      return getDocumentHighlights(params.textDocument.uri, params.position, signal);
+    }
+
+    case "textDocument/codeAction": {
+      const params = msg.params as {
+        textDocument: { uri: string };
+        range: Range;
+        context: { diagnostics: Diagnostic[]; only?: string[] };
+      };
+      return getCodeActions(
+        params.textDocument.uri,
+        params.range,
+        params.context ?? { diagnostics: [] },
+        signal
+      );
+    }
+
+    case "textDocument/codeLens": {
+      const params = msg.params as {
+        textDocument: { uri: string };
+      };
+      return getCodeLenses(params.textDocument.uri);
+    }
+
+    case "codeLens/resolve": {
+      return resolveCodeLens(msg.params as CodeLens, signal);
+    }
+
+    case "workspace/executeCommand": {
+      const params = msg.params as { command: string; arguments?: unknown[] };
+      return executeCommand(params.command, params.arguments);
+    }
+
+    // Health of the parser workers, for debugging
+    case "elm-land/parserStatus": {
+      return parserStatus();
+    }
+
+    // Size and hit rate of the AST cache, for debugging
+    case "elm-land/astCacheStatus": {
+      return astCacheStats();
     }
 
     case "workspace/symbol": {
       const params = msg.params as { query: string };
-      const result = await getWorkspaceSymbols(params.query, rootUri);
-      sendResponse(msg.id, result);
-      return;
+      return getWorkspaceSymbols(params.query, rootUri, signal);
     }
 
     default: {
-      sendError(msg.id, ErrorCodes.MethodNotFound, `Unknown method: ${msg.method}`);
+      throw new RequestError(ErrorCodes.MethodNotFound, `Unknown method: ${msg.method}`);
     }
   }
 }
@@ -180,7 +315,22 @@ async function handleNotification(msg: NotificationMessage): Promise<void> {
 
   switch (msg.method) {
     case "initialized":
+      // Index in the background; queries wait for it to finish
+      if (rootUri) projectIndex.indexWorkspace(uriToPath(rootUri));
+      if (clientCapabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration) {
+        sendRequest("client/registerCapability", {
+          registrations: [watchedFilesRegistration],
+        }).catch((err) => {
+          console.error("[server] Could not register file watchers:", err);
+        });
+      }
+      return;
+
+    case "workspace/didChangeWatchedFiles": {
+      const params = msg.params as { changes: FileEvent[] };
+      await onWatchedFilesChanged(params.changes);
       return;
+    }
 
     case "textDocument/didOpen": {
       const params = msg.params as {
@@ -191,19 +341,24 @@ async function handleNotification(msg: NotificationMessage): Promise<void> {
         params.textDocument.text,
         params.textDocument.version
       );
+      projectIndex.invalidate(params.textDocument.uri);
       runDiagnostics(params.textDocument.uri);
+      runLiveDiagnostics(params.textDocument.uri);
       return;
     }
 
     case "textDocument/didChange": {
       const params = msg.params as {
         textDocument: { uri: string; version: number };
-        contentChanges: { text: string }[];
+        contentChanges: TextDocumentContentChangeEvent[];
       };
-      const text = params.contentChanges[params.contentChanges.length - 1]?.text;
-      if (text !== undefined) {
-        documentStore.change(params.textDocument.uri, text, params.textDocument.version);
-      }
+      documentStore.applyChanges(
+        params.textDocument.uri,
+        params.contentChanges,
+        params.textDocument.version
+      );
+      projectIndex.invalidate(params.textDocument.uri);
+      runLiveDiagnostics(params.textDocument.uri);
       return;
     }
 
@@ -212,6 +367,9 @@ async function handleNotification(msg: NotificationMessage): Promise<void> {
         textDocument: { uri: string };
       };
       documentStore.close(params.textDocument.uri);
+      forgetCachedDocument(params.textDocument.uri);
+      projectIndex.invalidate(params.textDocument.uri);
+      clearLiveDiagnostics(params.textDocument.uri);
       return;
     }
 
@@ -219,6 +377,7 @@ async function handleNotification(msg: NotificationMessage): Promise<void> {
       const params = msg.params as {
         textDocument: { uri: string };
       };
+      projectIndex.invalidate(params.textDocument.uri);
       runDiagnostics(params.textDocument.uri);
 
       // If elm.json was saved, re-run diagnostics for all open files
@@ -232,6 +391,14 @@ async function handleNotification(msg: NotificationMessage): Promise<void> {
   }
 }
 
+const dispatcher = new Dispatcher({
+  request: handleRequest,
+  notification: handleNotification,
+  response: handleResponse,
+  respond: sendResponse,
+  respondError: sendError,
+});
+
 export async function startServer(): Promise<void> {
   let buffer: Uint8Array = new Uint8Array(0);
   const reader = Bun.stdin.stream().getReader();
@@ -251,18 +418,7 @@ export async function startServer(): Promise<void> {
       const msg = result.value;
       buffer = new Uint8Array(result.rest);
 
-      try {
-        if (isRequest(msg)) {
-          await handleRequest(msg);
-        } else if (isNotification(msg)) {
-          await handleNotification(msg);
-        }
-      } catch (err) {
-        console.error("[server] Unhandled error:", err);
-        if (isRequest(msg)) {
-          sendError((msg as any).id, ErrorCodes.InternalError, String(err));
-        }
-      }
+      dispatcher.dispatch(msg);
 
       result = tryParse(Buffer.from(buffer));
     }
@@ -1,34 +1,211 @@
 import type { Ast } from "../elm-ast/types";
+import { parseWithResult, type ParseOptions } from "../elm-ast/bridge";
+import { recoverAst, type LastGood } from "../elm-ast/recover";
+
+export type AstCacheOptions = {
+  // Roughly how much memory the cached ASTs may take before the least
+  // recently used are dropped
+  maxBytes?: number;
+};
+
+export type AstCacheStats = {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+};
+
+// When a file on disk was last written, to tell whether its text changed
+// without reading it
+export type FileStamp = { mtimeMs: number; size: number };
 
 type CacheEntry = {
-  uri: string;
-  version: number;
   ast: Ast;
+  bytes: number;
+  // Pieced together from the parts of text that doesn't parse as a whole
+  recovered: boolean;
 };
 
-const MAX_SIZE = 50;
-const entries: CacheEntry[] = [];
-
-export function getCachedAst(uri: string, version: number): Ast | undefined {
-  const entry = entries.find((e) => e.uri === uri && e.version === version);
-  if (entry) {
-    // Move to end (most recently used)
-    const idx = entries.indexOf(entry);
-    entries.splice(idx, 1);
-    entries.push(entry);
-    return entry.ast;
+// An AST takes about this much heap per character of the source it came from
+const BYTES_PER_SOURCE_CHAR = 40;
+
+let options: Required<AstCacheOptions> = { maxBytes: 64 * 1024 * 1024 };
+
+// Keyed by a hash of the source, so that a document and the same file on
+// disk, or a document edited back to an earlier text, share one AST. Map
+// order is least to most recently used.
+const entries = new Map<string, CacheEntry>();
+// The source each file on disk had when it was last parsed, by path
+const files = new Map<string, { stamp: FileStamp; key: string }>();
+// The source each document (by parse key) had when it last parsed as a whole,
+// to recover later versions from
+const lastGood = new Map<string, { key: string; text: string }>();
+// The source each document (by parse key) is being recovered for, so that
+// recoveries of older versions give up
+const latestRecovery = new Map<string, string>();
+// Recoveries under way, by the hash of their source. Their options are shared
+// with the parses still to come, so that a later caller can raise the priority.
+const recovering = new Map<string, { promise: Promise<Ast | undefined>; options: ParseOptions }>();
+let bytes = 0;
+const counters = { hits: 0, misses: 0, evictions: 0 };
+
+export function configureAstCache(settings: AstCacheOptions = {}): void {
+  options = { ...options, ...settings };
+  evict();
+}
+
+export function astCacheStats(): AstCacheStats {
+  return { entries: entries.size, bytes, maxBytes: options.maxBytes, ...counters };
+}
+
+// Also names files in the on-disk index cache
+export function contentKey(text: string): string {
+  return `${text.length}-${Bun.hash(text).toString(36)}`;
+}
+
+function lookup(key: string | undefined): CacheEntry | undefined {
+  const entry = key === undefined ? undefined : entries.get(key);
+  if (!entry) {
+    counters.misses++;
+    return undefined;
+  }
+  counters.hits++;
+  entries.delete(key!);
+  entries.set(key!, entry);
+  return entry;
+}
+
+function store(key: string, text: string, ast: Ast, recovered: boolean): void {
+  const existing = entries.get(key);
+  if (existing) {
+    bytes -= existing.bytes;
+    entries.delete(key);
   }
-  return undefined;
+  const entry = { ast, bytes: text.length * BYTES_PER_SOURCE_CHAR, recovered };
+  entries.set(key, entry);
+  bytes += entry.bytes;
+  evict();
 }
 
-export function setCachedAst(uri: string, version: number, ast: Ast): void {
-  // Remove existing entry for this uri if present
-  const idx = entries.findIndex((e) => e.uri === uri);
-  if (idx !== -1) entries.splice(idx, 1);
+// Only ASTs of text that parses as a whole; see parseCached for the others
+export function getCachedAst(text: string): Ast | undefined {
+  const entry = lookup(contentKey(text));
+  return entry?.recovered ? undefined : entry?.ast;
+}
 
-  entries.push({ uri, version, ast });
+// `parseKey` is the key the text was parsed under, usually the document's
+// uri, so that later versions that don't parse can be recovered from it
+export function setCachedAst(text: string, ast: Ast, parseKey?: string): void {
+  const key = contentKey(text);
+  store(key, text, ast, false);
+  if (parseKey !== undefined) lastGood.set(parseKey, { key, text });
+}
+
+// The AST of a file on disk, if it hasn't been written since it was parsed
+export function getCachedFileAst(filePath: string, stamp: FileStamp): Ast | undefined {
+  const file = files.get(filePath);
+  const unchanged = file && file.stamp.mtimeMs === stamp.mtimeMs && file.stamp.size === stamp.size;
+  const entry = lookup(unchanged ? file.key : undefined);
+  return entry?.recovered ? undefined : entry?.ast;
+}
+
+export function setCachedFileAst(filePath: string, stamp: FileStamp, text: string, ast: Ast): void {
+  setCachedAst(text, ast);
+  files.set(filePath, { stamp: { mtimeMs: stamp.mtimeMs, size: stamp.size }, key: contentKey(text) });
+}
+
+// Forget what a document (by parse key) last parsed as, e.g. when it's closed.
+// Its recovery, if one is under way, gives up.
+export function forgetCachedDocument(parseKey: string): void {
+  lastGood.delete(parseKey);
+  latestRecovery.delete(parseKey);
+}
+
+// Forget what a file on disk held, e.g. when a watcher says it changed within
+// the resolution of its modification time
+export function invalidateCachedFile(filePath: string): void {
+  files.delete(filePath);
+}
+
+// Parse `text`, or reuse the AST of an earlier parse of the same text. Text
+// that doesn't parse, e.g. mid-edit, gets an AST of the parts that do.
+export function parseCached(text: string, parseOptions: ParseOptions = {}): Promise<Ast | undefined> {
+  return parseOrReuse(text, parseOptions, true);
+}
+
+// Like parseCached, but undefined for text that doesn't parse as a whole. For
+// edits worked out from the AST, which would lose the parts that are missing.
+export function parseCompleteCached(text: string, parseOptions: ParseOptions = {}): Promise<Ast | undefined> {
+  return parseOrReuse(text, parseOptions, false);
+}
+
+async function parseOrReuse(text: string, parseOptions: ParseOptions, recover: boolean): Promise<Ast | undefined> {
+  const key = contentKey(text);
+  const cached = lookup(key);
+  if (cached && !cached.recovered) {
+    if (parseOptions.key !== undefined) lastGood.set(parseOptions.key, { key, text });
+    return cached.ast;
+  }
+  if (cached && recover) return cached.ast;
+
+  const result = await parseWithResult(text, parseOptions);
+  if (result.kind === "success") {
+    setCachedAst(text, result.ast, parseOptions.key);
+    return result.ast;
+  }
+  if (result.kind === "dropped" || result.kind === "crashed" || !recover) return undefined;
+  return recoverCached(text, parseOptions);
+}
+
+// An AST of the parts of `text` that parse, for text that doesn't as a whole.
+// Undefined once a newer version of the same document is being recovered.
+export function recoverCached(text: string, parseOptions: ParseOptions = {}): Promise<Ast | undefined> {
+  const key = contentKey(text);
+  const cached = entries.get(key);
+  if (cached) return Promise.resolve(cached.ast);
+
+  const pending = recovering.get(key);
+  if (pending) {
+    if (parseOptions.priority !== "background") pending.options.priority = "interactive";
+    return pending.promise;
+  }
+
+  const parseKey = parseOptions.key;
+  if (parseKey !== undefined) latestRecovery.set(parseKey, key);
+  const previous = parseKey === undefined ? undefined : lastGood.get(parseKey);
+  const previousAst = previous && entries.get(previous.key)?.ast;
+  const base: LastGood | undefined = previous && previousAst ? { text: previous.text, ast: previousAst } : undefined;
+  // Under a key of its own, so that its parses replace those of recoveries of
+  // older versions but not the document's own parses
+  const options: ParseOptions = {
+    key: parseKey === undefined ? undefined : `${parseKey}#recover`,
+    priority: parseOptions.priority,
+  };
+  const isStale = () => parseKey !== undefined && latestRecovery.get(parseKey) !== key;
+  const promise = recoverAst(text, base, options, isStale)
+    .then((recovered) => {
+      if (recovered) store(key, text, recovered, true);
+      return recovered;
+    })
+    .catch((err) => {
+      console.error("[ast-cache] Recovering a parse failed:", err);
+      return undefined;
+    })
+    .finally(() => {
+      recovering.delete(key);
+      if (parseKey !== undefined && !isStale()) latestRecovery.delete(parseKey);
+    });
+  recovering.set(key, { promise, options });
+  return promise;
+}
 
-  if (entries.length > MAX_SIZE) {
-    entries.shift();
+function evict(): void {
+  for (const [key, entry] of entries) {
+    if (bytes <= options.maxBytes) break;
+    entries.delete(key);
+    bytes -= entry.bytes;
+    counters.evictions++;
   }
 }
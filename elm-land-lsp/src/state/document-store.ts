@@ -1,9 +1,45 @@
+import type { Position, TextDocumentContentChangeEvent } from "../protocol/messages";
+
 export type Document = {
   uri: string;
   text: string;
   version: number;
 };
 
+// Convert an LSP position to an offset into `text`. LSP characters are UTF-16
+// code units, which is also how JS strings are indexed, so the character can
+// be added to the line start directly once it is clamped to the line length.
+export function offsetAt(text: string, position: Position): number {
+  let lineStart = 0;
+  for (let line = 0; line < position.line; line++) {
+    const newline = text.indexOf("\n", lineStart);
+    if (newline === -1) return text.length;
+    lineStart = newline + 1;
+  }
+
+  let lineEnd = text.indexOf("\n", lineStart);
+  if (lineEnd === -1) lineEnd = text.length;
+  if (lineEnd > lineStart && text[lineEnd - 1] === "\r") lineEnd--;
+
+  return Math.min(lineStart + Math.max(position.character, 0), lineEnd);
+}
+
+export function applyContentChanges(
+  text: string,
+  changes: TextDocumentContentChangeEvent[]
+): string {
+  for (const change of changes) {
+    if (!("range" in change) || !change.range) {
+      text = change.text;
+      continue;
+    }
+    const start = offsetAt(text, change.range.start);
+    const end = Math.max(start, offsetAt(text, change.range.end));
+    text = text.slice(0, start) + change.text + text.slice(end);
+  }
+  return text;
+}
+
 class DocumentStore {
   private docs = new Map<string, Document>();
 
@@ -15,6 +51,17 @@ class DocumentStore {
     this.docs.set(uri, { uri, text, version });
   }
 
+  applyChanges(
+    uri: string,
+    changes: TextDocumentContentChangeEvent[],
+    version: number
+  ): Document {
+    const base = this.docs.get(uri)?.text ?? "";
+    const updated = { uri, text: applyContentChanges(base, changes), version };
+    this.docs.set(uri, updated);
+    return updated;
+  }
+
   close(uri: string): void {
     this.docs.delete(uri);
   }
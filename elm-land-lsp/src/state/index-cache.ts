@@ -0,0 +1,131 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { parserVersion } from "../elm-ast/bridge";
+import { contentKey } from "./ast-cache";
+import type { IndexedModule } from "./project-index";
+
+export type IndexCacheOptions = {
+  // Off unless turned on; the server turns it on by default
+  enabled?: boolean;
+  // Where indexed modules are saved between runs, in an elm-land-lsp folder.
+  // Defaults to $XDG_CACHE_HOME, or ~/.cache.
+  directory?: string;
+};
+
+// What's saved for each module: everything but where it was found, since
+// the same text can live at several paths
+export type CachedModule = Omit<IndexedModule, "uri" | "filePath">;
+
+type CacheFile = {
+  format: number;
+  key: string;
+  module: CachedModule;
+};
+
+// Bumped when CacheFile or IndexedModule change shape
+const FORMAT = 1;
+
+// The folder inside `directory` that's ours to clear
+const FOLDER = "elm-land-lsp";
+
+let options: Required<IndexCacheOptions> = { enabled: false, directory: defaultDirectory() };
+// Saved with other parser versions, cleared once per directory
+let cleared: Promise<void> | undefined;
+
+function defaultDirectory(): string {
+  return process.env.XDG_CACHE_HOME || path.join(process.env.HOME || os.homedir(), ".cache");
+}
+
+export function configureIndexCache(settings: IndexCacheOptions = {}): void {
+  options = { ...options, ...settings };
+  cleared = undefined;
+}
+
+// Modules are saved by the hash of their text, in a directory per parser
+// version. Only the current version's directory is kept.
+async function versionDirectory(): Promise<string> {
+  const version = await parserVersion();
+  cleared ??= clearOtherVersions(version);
+  await cleared;
+  return path.join(options.directory, FOLDER, version);
+}
+
+async function clearOtherVersions(version: string): Promise<void> {
+  const folder = path.join(options.directory, FOLDER);
+  let names: string[];
+  try {
+    names = await fs.readdir(folder);
+  } catch {
+    return; // nothing saved yet
+  }
+  for (const name of names) {
+    if (name !== version) await fs.rm(path.join(folder, name), { recursive: true, force: true });
+  }
+}
+
+// The module saved for this text, if any. Anything unreadable is deleted and
+// treated as missing, so it gets parsed and saved again.
+export async function readCachedModule(text: string): Promise<CachedModule | undefined> {
+  if (!options.enabled) return undefined;
+  const key = contentKey(text);
+  const file = path.join(await versionDirectory(), `${key}.json.gz`);
+
+  const contents = await fs.readFile(file).catch(() => undefined);
+  if (!contents) return undefined;
+  try {
+    const saved: unknown = JSON.parse(new TextDecoder().decode(Bun.gunzipSync(contents)));
+    if (isCacheFile(saved) && saved.format === FORMAT && saved.key === key) return saved.module;
+  } catch {
+    // Corrupted, e.g. by a write cut short
+  }
+  await fs.rm(file, { force: true });
+  return undefined;
+}
+
+// Save a freshly parsed module. Failing to is harmless: it's parsed again
+// next time.
+export async function writeCachedModule(text: string, module: IndexedModule): Promise<void> {
+  if (!options.enabled) return;
+  try {
+    const directory = await versionDirectory();
+    await fs.mkdir(directory, { recursive: true });
+    const key = contentKey(text);
+    const { uri: _uri, filePath: _filePath, ...cached } = module;
+    const saved: CacheFile = { format: FORMAT, key, module: cached };
+    const file = path.join(directory, `${key}.json.gz`);
+    // Written aside and renamed, so readers never see half a file
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, Bun.gzipSync(JSON.stringify(saved)));
+    await fs.rename(temporary, file);
+  } catch (err) {
+    console.error("[index] Could not save to the index cache:", err);
+  }
+}
+
+// Saved files are only trusted as far as these checks go
+function isCacheFile(value: unknown): value is CacheFile {
+  return (
+    isRecord(value) &&
+    typeof value.format === "number" &&
+    typeof value.key === "string" &&
+    isCachedModule(value.module)
+  );
+}
+
+function isCachedModule(value: unknown): value is CachedModule {
+  return (
+    isRecord(value) &&
+    typeof value.moduleName === "string" &&
+    isRecord(value.ast) &&
+    Array.isArray(value.ast.declarations) &&
+    Array.isArray(value.declarations) &&
+    Array.isArray(value.exports) &&
+    Array.isArray(value.imports) &&
+    Array.isArray(value.references)
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
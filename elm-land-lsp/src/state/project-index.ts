@@ -0,0 +1,450 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Glob } from "bun";
+import { parseWithResult } from "../elm-ast/bridge";
+import {
+  getCachedAst,
+  setCachedAst,
+  getCachedFileAst,
+  setCachedFileAst,
+  recoverCached,
+  type FileStamp,
+} from "./ast-cache";
+import { readCachedModule, writeCachedModule } from "./index-cache";
+import { documentStore } from "./document-store";
+import { findElmJsonFor, pathToUri, uriToPath, type ElmJsonFile } from "../project/elm-json";
+import { throwIfCancelled } from "../protocol/cancellation";
+import {
+  type Ast,
+  type Node,
+  type Declaration,
+  type Expression,
+  type Pattern,
+  type TypeAnnotation,
+  type TopLevelExpose,
+  type Range as ElmRange,
+  expressionChildren,
+  isExposedFromModule,
+  toModuleName,
+} from "../elm-ast/types";
+
+export type IndexedDeclaration = {
+  name: string;
+  kind: "value" | "port" | "type" | "typeAlias" | "constructor";
+  range: ElmRange; // just the name
+  exposed: boolean;
+};
+
+// A name as written in the source; qualifiers are not resolved against
+// imports, so "D.field" has qualifier "D" even if D aliases Json.Decode
+export type ReferenceSite = {
+  name: string;
+  qualifier: string;
+  range: ElmRange;
+  // Set for names that aren't used as values: a constructor matched in a
+  // pattern, or a type in an annotation
+  context?: "pattern" | "type";
+};
+
+export type IndexedModule = {
+  moduleName: string;
+  uri: string;
+  filePath: string;
+  ast: Ast;
+  declarations: IndexedDeclaration[];
+  exports: string[];
+  imports: string[];
+  references: ReferenceSite[];
+  // Indexed from the parts of an open document that parse, mid-edit
+  recovered?: boolean;
+  // Indexed from an earlier version of the text, which parsed. The text has
+  // changed since and doesn't parse.
+  stale?: boolean;
+};
+
+type ProjectState = {
+  elmJson: ElmJsonFile;
+  modules: Map<string, IndexedModule>; // keyed by uri
+  // Files to re-read before the next query, e.g. after didChange
+  dirty: Set<string>;
+  // Text that failed to parse, so it isn't re-parsed on every query
+  failed: Map<string, string>;
+  // Indexing and refreshes run one at a time, in order
+  work: Promise<void>;
+};
+
+// Parses every module in a project's source directories once, then keeps the
+// results up to date as documents change. Features query the index rather
+// than scanning and re-parsing the filesystem on each request.
+class ProjectIndex {
+  private projects = new Map<string, ProjectState>();
+
+  // Start indexing the project rooted at `rootPath` in the background
+  async indexWorkspace(rootPath: string): Promise<void> {
+    const elmJson = await findElmJsonFor(path.join(rootPath, "elm.json"));
+    if (elmJson) await this.project(elmJson).work;
+  }
+
+  async modules(elmJson: ElmJsonFile, signal?: AbortSignal): Promise<IndexedModule[]> {
+    const state = this.project(elmJson);
+    if (state.dirty.size > 0) {
+      this.enqueue(state, () => this.refreshDirty(state));
+    }
+    await state.work;
+    throwIfCancelled(signal);
+    return Array.from(state.modules.values());
+  }
+
+  async getModule(
+    moduleName: string,
+    elmJson: ElmJsonFile,
+    signal?: AbortSignal
+  ): Promise<IndexedModule | undefined> {
+    const modules = await this.modules(elmJson, signal);
+    return modules.find((m) => m.moduleName === moduleName);
+  }
+
+  // Every project indexed so far, e.g. for workspace/symbol
+  indexedProjects(): ElmJsonFile[] {
+    return Array.from(this.projects.values()).map((p) => p.elmJson);
+  }
+
+  // Re-read `uri` (from the document store if open, otherwise from disk)
+  // before the next query of any project whose source directories hold it
+  invalidate(uri: string): void {
+    const filePath = uriToPath(uri);
+    if (!filePath.endsWith(".elm")) return;
+    for (const state of this.projects.values()) {
+      if (isInSourceDirectories(filePath, state.elmJson)) {
+        state.dirty.add(uri);
+      }
+    }
+  }
+
+  // Drop a project whose elm.json changed; its source directories may differ,
+  // so it is re-indexed from scratch on the next query
+  removeProject(projectFolder: string): void {
+    this.projects.delete(projectFolder);
+  }
+
+  private project(elmJson: ElmJsonFile): ProjectState {
+    let state = this.projects.get(elmJson.projectFolder);
+    if (!state) {
+      state = {
+        elmJson,
+        modules: new Map(),
+        dirty: new Set(),
+        failed: new Map(),
+        work: Promise.resolve(),
+      };
+      this.projects.set(elmJson.projectFolder, state);
+      const initial = state;
+      this.enqueue(state, () => this.indexAll(initial));
+    }
+    return state;
+  }
+
+  private enqueue(state: ProjectState, task: () => Promise<void>): void {
+    state.work = state.work.then(task).catch((err) => {
+      console.error("[index] Indexing failed:", err);
+    });
+  }
+
+  private async indexAll(state: ProjectState): Promise<void> {
+    const glob = new Glob("**/*.elm");
+    for (const sourceDir of state.elmJson.sourceDirectories) {
+      let files: string[];
+      try {
+        files = Array.from(glob.scanSync({ cwd: sourceDir, absolute: true }));
+      } catch {
+        continue; // source directory doesn't exist
+      }
+      for (const filePath of files) {
+        await this.indexFile(state, pathToUri(filePath));
+      }
+    }
+  }
+
+  private async refreshDirty(state: ProjectState): Promise<void> {
+    const uris = Array.from(state.dirty);
+    state.dirty.clear();
+    for (const uri of uris) {
+      await this.indexFile(state, uri);
+    }
+  }
+
+  private async indexFile(state: ProjectState, uri: string): Promise<void> {
+    const doc = documentStore.get(uri);
+    const filePath = uriToPath(uri);
+    let text: string;
+    let stamp: FileStamp | undefined;
+    if (doc) {
+      text = doc.text;
+    } else {
+      try {
+        stamp = await fs.stat(filePath);
+        // Unchanged on disk since it was last parsed
+        const ast = getCachedFileAst(filePath, stamp);
+        if (ast) {
+          state.failed.delete(uri);
+          state.modules.set(uri, indexModule(ast, uri));
+          return;
+        }
+        text = await fs.readFile(filePath, "utf-8");
+      } catch {
+        // Deleted since it was indexed
+        state.modules.delete(uri);
+        state.failed.delete(uri);
+        return;
+      }
+    }
+    if (state.failed.get(uri) === text) return;
+
+    let module: IndexedModule | undefined;
+    const ast = getCachedAst(text);
+    if (ast) {
+      module = indexModule(ast, uri);
+    } else if (stamp) {
+      // Saved by an earlier run. Open documents change too often to be worth
+      // saving, so only files read from disk are.
+      const saved = await readCachedModule(text);
+      if (saved) module = { ...saved, uri, filePath };
+    }
+    if (!module) {
+      const result = await parseWithResult(text, { key: uri, priority: "background" });
+      // A newer version of the file replaced this parse, or the parser
+      // crashed on it; index it next time
+      if (result.kind === "dropped" || result.kind === "crashed") {
+        state.dirty.add(uri);
+        return;
+      }
+      if (result.kind === "failure") {
+        // An open document is usually mid-edit, so index the declarations
+        // that still parse. Files on disk keep the last good index of the
+        // module until they parse again.
+        const recovered = doc ? await recoverCached(text, { key: uri, priority: "background" }) : undefined;
+        if (!recovered) {
+          state.failed.set(uri, text);
+          const previous = state.modules.get(uri);
+          if (previous) state.modules.set(uri, { ...previous, stale: true });
+          return;
+        }
+        state.failed.delete(uri);
+        state.modules.set(uri, { ...indexModule(recovered, uri), recovered: true });
+        return;
+      }
+      module = indexModule(result.ast, uri);
+      if (stamp) await writeCachedModule(text, module);
+    }
+    if (stamp) setCachedFileAst(filePath, stamp, text, module.ast);
+    else setCachedAst(text, module.ast, uri);
+    state.failed.delete(uri);
+    state.modules.set(uri, module);
+  }
+}
+
+function isInSourceDirectories(filePath: string, elmJson: ElmJsonFile): boolean {
+  return elmJson.sourceDirectories.some((dir) => {
+    const relative = path.relative(dir, filePath);
+    return !relative.startsWith("..") && !path.isAbsolute(relative);
+  });
+}
+
+export function indexModule(ast: Ast, uri: string): IndexedModule {
+  const declarations = ast.declarations.flatMap((decl) => declarationsOf(ast, decl.value));
+  const references = moduleReferences(ast);
+
+  for (const imp of ast.imports) {
+    const exposing = imp.value.exposingList?.value;
+    if (exposing?.type !== "explicit") continue;
+    for (const exposed of exposing.explicit) {
+      references.push({ name: exposedName(exposed.value), qualifier: "", range: exposed.range });
+    }
+  }
+
+  return {
+    moduleName: toModuleName(ast),
+    uri,
+    filePath: uriToPath(uri),
+    ast,
+    declarations,
+    exports: declarations.filter((d) => d.exposed).map((d) => d.name),
+    imports: ast.imports.map((imp) => imp.value.moduleName.value.join(".")),
+    references,
+  };
+}
+
+// Every name used in the module's declarations, qualified or not, including
+// operators. Import lines are not included.
+export function moduleReferences(ast: Ast): ReferenceSite[] {
+  const references: ReferenceSite[] = [];
+  for (const decl of ast.declarations) {
+    collectDeclarationReferences(decl.value, references);
+  }
+  return references;
+}
+
+function declarationsOf(ast: Ast, decl: Declaration): IndexedDeclaration[] {
+  const declaration = (name: Node<string>, kind: IndexedDeclaration["kind"]): IndexedDeclaration => ({
+    name: name.value,
+    kind,
+    range: name.range,
+    exposed: isExposedFromModule(ast, name.value),
+  });
+
+  switch (decl.type) {
+    case "function": return [declaration(decl.function.declaration.value.name, "value")];
+    case "port": return [declaration(decl.port.name, "port")];
+    case "typeAlias": return [declaration(decl.typeAlias.name, "typeAlias")];
+    case "typedecl":
+      return [
+        declaration(decl.typedecl.name, "type"),
+        ...decl.typedecl.constructors.map((ctor) => declaration(ctor.value.name, "constructor")),
+      ];
+    default: return [];
+  }
+}
+
+function exposedName(expose: TopLevelExpose): string {
+  switch (expose.type) {
+    case "function": return expose.function.name;
+    case "typeOrAlias": return expose.typeOrAlias.name;
+    case "typeexpose": return expose.typeexpose.name;
+    case "infix": return expose.infix.name;
+  }
+}
+
+function collectDeclarationReferences(decl: Declaration, refs: ReferenceSite[]): void {
+  switch (decl.type) {
+    case "function":
+      if (decl.function.signature) {
+        collectTypeReferences(decl.function.signature.value.typeAnnotation, refs);
+      }
+      for (const arg of decl.function.declaration.value.arguments) {
+        collectPatternReferences(arg, refs);
+      }
+      collectExpressionReferences(decl.function.declaration.value.expression, refs);
+      break;
+    case "port":
+      collectTypeReferences(decl.port.typeAnnotation, refs);
+      break;
+    case "typeAlias":
+      collectTypeReferences(decl.typeAlias.typeAnnotation, refs);
+      break;
+    case "typedecl":
+      for (const ctor of decl.typedecl.constructors) {
+        for (const arg of ctor.value.arguments) collectTypeReferences(arg, refs);
+      }
+      break;
+    case "destructuring":
+      collectPatternReferences(decl.destructuring.pattern, refs);
+      collectExpressionReferences(decl.destructuring.expression, refs);
+      break;
+  }
+}
+
+function collectExpressionReferences(expr: Node<Expression>, refs: ReferenceSite[]): void {
+  if (!expr?.value) return;
+  const e = expr.value;
+
+  if (e.type === "functionOrValue") {
+    refs.push({
+      name: e.functionOrValue.name,
+      qualifier: e.functionOrValue.moduleName.join("."),
+      range: expr.range,
+    });
+    return;
+  }
+
+  if (e.type === "operatorapplication") {
+    refs.push({ name: e.operatorapplication.operator, qualifier: "", range: expr.range });
+  } else if (e.type === "prefixoperator") {
+    refs.push({ name: e.prefixoperator, qualifier: "", range: expr.range });
+  } else if (e.type === "recordUpdate") {
+    refs.push({ name: e.recordUpdate.name.value, qualifier: "", range: e.recordUpdate.name.range });
+  }
+
+  // Patterns and annotations that expressionChildren doesn't reach
+  if (e.type === "let") {
+    for (const d of e.let.declarations) {
+      if (d.value.type === "function") {
+        if (d.value.function.signature) {
+          collectTypeReferences(d.value.function.signature.value.typeAnnotation, refs);
+        }
+        d.value.function.declaration.value.arguments.forEach((p) => collectPatternReferences(p, refs));
+      } else {
+        collectPatternReferences(d.value.destructuring.pattern, refs);
+      }
+    }
+  } else if (e.type === "case") {
+    e.case.cases.forEach((branch) => collectPatternReferences(branch.pattern, refs));
+  } else if (e.type === "lambda") {
+    e.lambda.patterns.forEach((p) => collectPatternReferences(p, refs));
+  }
+
+  for (const child of expressionChildren(e)) {
+    collectExpressionReferences(child, refs);
+  }
+}
+
+function collectPatternReferences(pat: Node<Pattern>, refs: ReferenceSite[]): void {
+  if (!pat?.value) return;
+  const p = pat.value;
+
+  switch (p.type) {
+    case "named":
+      refs.push({
+        name: p.named.qualified.name,
+        qualifier: p.named.qualified.moduleName.join("."),
+        range: pat.range,
+        context: "pattern",
+      });
+      (p.named.patterns ?? []).forEach((sub) => collectPatternReferences(sub, refs));
+      break;
+    case "tuple": ((p.tuple as any).value ?? p.tuple).forEach((sub: Node<Pattern>) => collectPatternReferences(sub, refs)); break;
+    case "list": ((p.list as any).value ?? p.list).forEach((sub: Node<Pattern>) => collectPatternReferences(sub, refs)); break;
+    case "uncons":
+      collectPatternReferences(p.uncons.left, refs);
+      collectPatternReferences(p.uncons.right, refs);
+      break;
+    case "as": collectPatternReferences(p.as.pattern, refs); break;
+    case "parentisized": {
+      const inner = p.parentisized as any;
+      collectPatternReferences("range" in inner ? inner : inner.value, refs);
+      break;
+    }
+  }
+}
+
+function collectTypeReferences(ta: Node<TypeAnnotation>, refs: ReferenceSite[]): void {
+  if (!ta?.value) return;
+  const t = ta.value;
+
+  switch (t.type) {
+    case "typed": {
+      const mn = t.typed.moduleNameAndName;
+      refs.push({ name: mn.value.name, qualifier: mn.value.moduleName.join("."), range: mn.range, context: "type" });
+      t.typed.args.forEach((arg) => collectTypeReferences(arg, refs));
+      break;
+    }
+    case "function":
+      collectTypeReferences(t.function.left, refs);
+      collectTypeReferences(t.function.right, refs);
+      break;
+    case "tupled":
+      ((t.tupled as any).values ?? t.tupled).forEach((item: Node<TypeAnnotation>) => collectTypeReferences(item, refs));
+      break;
+    case "record":
+      for (const field of ((t.record as any).value ?? t.record)) {
+        collectTypeReferences(field.value.typeAnnotation, refs);
+      }
+      break;
+    case "genericRecord":
+      for (const field of ((t.genericRecord.values as any).value ?? [])) {
+        collectTypeReferences(field.value.typeAnnotation, refs);
+      }
+      break;
+  }
+}
+
+export const projectIndex = new ProjectIndex();
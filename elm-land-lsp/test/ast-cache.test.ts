@@ -0,0 +1,97 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import {
+  parseCached,
+  parseCompleteCached,
+  recoverCached,
+  forgetCachedDocument,
+  getCachedAst,
+  setCachedAst,
+  getCachedFileAst,
+  setCachedFileAst,
+  invalidateCachedFile,
+  configureAstCache,
+  astCacheStats,
+} from "../src/state/ast-cache";
+
+const source = (name: string) => `module ${name} exposing (x)\n\nx = 1\n`;
+
+describe("AST cache", () => {
+  afterAll(() => configureAstCache({ maxBytes: 64 * 1024 * 1024 }));
+
+  test("reuses the AST of the same text", async () => {
+    const text = source("Same");
+    const first = await parseCached(text, { key: "file:///Same.elm" });
+    const before = astCacheStats();
+    const second = await parseCached(text, { key: "file:///Other.elm" });
+    expect(second).toBe(first!);
+    expect(astCacheStats().hits).toBe(before.hits + 1);
+  });
+
+  test("misses when the text changes", async () => {
+    await parseCached(source("Changed"));
+    const before = astCacheStats();
+    expect(getCachedAst(source("Changed") + "\n")).toBeUndefined();
+    expect(astCacheStats().misses).toBe(before.misses + 1);
+  });
+
+  test("doesn't cache failed parses", async () => {
+    expect(await parseCached("this is not elm {{{{")).toBeUndefined();
+    expect(getCachedAst("this is not elm {{{{")).toBeUndefined();
+  });
+
+  test("recovers text that doesn't parse, apart from complete parses", async () => {
+    const text = "module Editing exposing (..)\n\n\nbroken =\n    (\n\n\nx = 1\n";
+    const recovered = await parseCached(text, { key: "file:///Editing.elm" });
+    expect(recovered!.declarations).toHaveLength(1);
+    expect(getCachedAst(text)).toBeUndefined();
+    expect(await parseCompleteCached(text, { key: "file:///Editing.elm" })).toBeUndefined();
+  });
+
+  test("gives up recovering a document once a newer version is being recovered", async () => {
+    const version = (n: number) => `module Typing exposing (..)\n\n\nbroken =\n    (${n}\n\n\nx = 1\n\n\ny = 2\n`;
+    const older = recoverCached(version(1), { key: "file:///Typing.elm" });
+    const newer = recoverCached(version(2), { key: "file:///Typing.elm" });
+    expect(await older).toBeUndefined();
+    expect((await newer)!.declarations).toHaveLength(2);
+  });
+
+  test("forgets the last good version of a closed document", async () => {
+    const good = "module Closing exposing (one)\n\none = 1\n";
+    const broken = (n: number) => `module Closing exposing (one,\n\none = ${n}\n`;
+    await parseCached(good, { key: "file:///Closing.elm" });
+    expect(await parseCached(broken(2), { key: "file:///Closing.elm" })).not.toBeUndefined();
+
+    forgetCachedDocument("file:///Closing.elm");
+    expect(await parseCached(broken(3), { key: "file:///Closing.elm" })).toBeUndefined();
+  });
+
+  test("finds files on disk by modification time and size", async () => {
+    const text = source("OnDisk");
+    const ast = (await parseCached(text))!;
+    const stamp = { mtimeMs: 1000, size: text.length };
+    setCachedFileAst("/project/src/OnDisk.elm", stamp, text, ast);
+
+    expect(getCachedFileAst("/project/src/OnDisk.elm", stamp)).toBe(ast);
+    expect(getCachedFileAst("/project/src/OnDisk.elm", { ...stamp, mtimeMs: 2000 })).toBeUndefined();
+
+    invalidateCachedFile("/project/src/OnDisk.elm");
+    expect(getCachedFileAst("/project/src/OnDisk.elm", stamp)).toBeUndefined();
+  });
+
+  test("evicts the least recently used ASTs over budget", async () => {
+    const [a, b, c] = await Promise.all(["EvictA", "EvictB", "EvictC"].map((n) => parseCached(source(n))));
+    // Room for about two of these
+    configureAstCache({ maxBytes: source("EvictA").length * 40 * 2 });
+    setCachedAst(source("EvictA"), a!);
+    setCachedAst(source("EvictB"), b!);
+    getCachedAst(source("EvictA"));
+    const before = astCacheStats();
+    setCachedAst(source("EvictC"), c!);
+
+    expect(astCacheStats().evictions).toBe(before.evictions + 1);
+    expect(getCachedAst(source("EvictB"))).toBeUndefined();
+    expect(getCachedAst(source("EvictA"))).toBe(a!);
+    expect(getCachedAst(source("EvictC"))).toBe(c!);
+    expect(astCacheStats().bytes).toBeLessThanOrEqual(astCacheStats().maxBytes);
+  });
+});
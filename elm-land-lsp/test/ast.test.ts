@@ -1,5 +1,5 @@
-import { describe, test, expect } from "bun:test";
-import { parse } from "../src/elm-ast/bridge";
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { parse, parseWithResult, configureParser, parserStatus } from "../src/elm-ast/bridge";
 import {
   toModuleName,
   toDeclarationName,
@@ -82,17 +82,102 @@ describe("AST parser", () => {
     }
   });
 
-  test("sequential parses work (queue)", async () => {
+  test("parses of different sources all complete", async () => {
     const results = await Promise.all([
       parse("module A exposing (a)\n\na = 1\n"),
       parse("module B exposing (b)\n\nb = 2\n"),
       parse("module C exposing (c)\n\nc = 3\n"),
     ]);
-    // At least the last one should succeed (queue drops intermediates)
-    const successful = results.filter((r) => r !== undefined);
-    expect(successful.length).toBeGreaterThanOrEqual(1);
-    // Last one always completes
-    expect(results[2]).not.toBeUndefined();
+    expect(results.map((ast) => ast && toModuleName(ast))).toEqual(["A", "B", "C"]);
+  });
+});
+
+const source = (name: string) => `module ${name} exposing (x)\n\nx = 1\n`;
+
+describe("parse scheduling", () => {
+  // One worker, so that parses queue behind each other
+  beforeAll(() => configureParser({ workers: 1 }));
+
+  test("a newer parse with the same key drops the waiting one", async () => {
+    const busy = parseWithResult(source("Busy"));
+    const older = parseWithResult(source("Old"), { key: "file:///A.elm" });
+    const newer = parseWithResult(source("New"), { key: "file:///A.elm" });
+    const other = parseWithResult(source("Other"), { key: "file:///B.elm" });
+
+    expect((await busy).kind).toBe("success");
+    expect(await older).toEqual({ kind: "dropped" });
+    const result = await newer;
+    expect(result.kind === "success" && toModuleName(result.ast)).toBe("New");
+    expect((await other).kind).toBe("success");
+  });
+
+  test("the same source under one key is parsed once", async () => {
+    const busy = parse(source("Busy"));
+    const first = parseWithResult(source("Same"), { key: "file:///Same.elm" });
+    const second = parseWithResult(source("Same"), { key: "file:///Same.elm" });
+    await busy;
+    const [a, b] = await Promise.all([first, second]);
+    expect(a.kind).toBe("success");
+    expect(b).toBe(a);
+  });
+
+  test("interactive parses run before background ones", async () => {
+    const finished: string[] = [];
+    const track = (name: string, promise: Promise<unknown>) => promise.then(() => finished.push(name));
+
+    await Promise.all([
+      track("busy", parse(source("Busy"))),
+      track("indexing", parse(source("Indexed"), { key: "file:///Indexed.elm", priority: "background" })),
+      track("editing", parse(source("Edited"), { key: "file:///Edited.elm" })),
+    ]);
+    expect(finished).toEqual(["busy", "editing", "indexing"]);
+  });
+
+  test("syntax errors fail rather than drop", async () => {
+    const result = await parseWithResult("this is not elm at all {{{{", { key: "file:///Broken.elm" });
+    expect(result.kind).toBe("failure");
+  });
+});
+
+describe("parser workers", () => {
+  afterAll(() => configureParser({ timeoutMs: 10_000 }));
+
+  test("replaces a worker that times out", async () => {
+    const before = parserStatus();
+    // Takes far longer than the shortest timeout to parse
+    const slow = source("Slow") + Array.from({ length: 2000 }, (_, i) => `f${i} a b =\n    [ a, b, a + b ]\n`).join("\n");
+    configureParser({ timeoutMs: 0 });
+    expect(await parseWithResult(slow)).toEqual({ kind: "crashed", error: "The parser timed out" });
+
+    configureParser({ timeoutMs: 10_000 });
+    const ast = await parse(source("Again"));
+    expect(ast && toModuleName(ast)).toBe("Again");
+
+    const after = parserStatus();
+    expect(after.timeouts).toBe(before.timeouts + 1);
+    expect(after.parsed).toBe(before.parsed + 1);
+    expect(after.workers).toBe(1);
+    expect(after.busy).toBe(0);
+  });
+
+  test("replaces a worker that crashes", async () => {
+    const before = parserStatus();
+    // The parser's port only takes strings; anything else throws in the worker
+    expect(await parseWithResult(42 as unknown as string)).toEqual({ kind: "crashed", error: "The parser crashed" });
+
+    const ast = await parse(source("AfterCrash"));
+    expect(ast && toModuleName(ast)).toBe("AfterCrash");
+    const after = parserStatus();
+    expect(after.crashes).toBe(before.crashes + 1);
+    expect(after.workers).toBe(1);
+  });
+
+  test("keeps at least one worker", async () => {
+    configureParser({ workers: 0 });
+    const ast = await parse(source("NoWorkers"));
+    expect(ast && toModuleName(ast)).toBe("NoWorkers");
+    expect(parserStatus().workers).toBe(1);
+    configureParser({ workers: 1 });
   });
 });
 
@@ -120,6 +205,17 @@ describe("AST helpers", () => {
     expect(findCustomTypeVariantWithName(ast!, "Yellow")).toBeUndefined();
   });
 
+  test("patternDefinitionNames names both sides of an uncons pattern", async () => {
+    const ast = await parse("module M exposing (..)\n\nfirst list =\n    case list of\n        x :: rest -> x\n        [] -> 0\n");
+    const decl = ast!.declarations[0]!.value;
+    if (decl.type !== "function") throw new Error("expected a function");
+    const caseExpr = decl.function.declaration.value.expression.value;
+    if (caseExpr.type !== "case") throw new Error("expected a case expression");
+    const pattern = caseExpr.case.cases[0]!.pattern.value;
+    expect(pattern.type).toBe("uncons");
+    expect(patternDefinitionNames(pattern)).toEqual(["x", "rest"]);
+  });
+
   test("isExposedFromModule checks exposing list", async () => {
     const ast = await parse("module M exposing (foo, Bar)\n\nfoo = 1\n\ntype Bar = B\n\nbaz = 2\n");
     expect(isExposedFromModule(ast!, "foo")).toBe(true);
@@ -0,0 +1,72 @@
+import { describe, test, expect } from "bun:test";
+import { parse } from "../src/elm-ast/bridge";
+import { importEdits, importHeader, isExposedByImports } from "../src/features/auto-import";
+
+const SOURCE = [
+  "module Main exposing (main)",
+  "",
+  "import Html exposing (Html, div)",
+  "import Json.Decode as D",
+  "import Types exposing (Msg)",
+  "",
+  "",
+  "main =",
+  "    div [] [ tex",
+  "",
+].join("\n");
+
+async function header() {
+  return (await parse(importHeader(SOURCE)))!;
+}
+
+describe("auto import", () => {
+  test("parses the header of a module whose body doesn't parse", async () => {
+    expect(importHeader(SOURCE).split("\n").length).toBe(7);
+    expect((await header()).imports.length).toBe(3);
+  });
+
+  test("skips lines inside the module documentation comment", () => {
+    const source = "module A exposing (a)\n\n{-| about\n\nthis module\n-}\n\nimport B\n\na = 1\n";
+    expect(importHeader(source)).toBe("module A exposing (a)\n\n{-| about\n\nthis module\n-}\n\nimport B\n");
+  });
+
+  test("knows what imports and the defaults already expose", async () => {
+    const ast = await header();
+    expect(isExposedByImports(ast, "Html", "div")).toBe(true);
+    expect(isExposedByImports(ast, "Html", "text")).toBe(false);
+    expect(isExposedByImports(ast, "Types", "Msg")).toBe(true);
+    expect(isExposedByImports(ast, "Types", "Msg(..)")).toBe(false);
+    expect(isExposedByImports(ast, "Maybe", "Maybe(..)")).toBe(true);
+    expect(isExposedByImports(ast, "Basics", "identity")).toBe(true);
+    expect(isExposedByImports(ast, "List", "map")).toBe(false);
+  });
+
+  test("extends an existing exposing list", async () => {
+    expect(importEdits(await header(), "Html", "text")).toEqual([
+      { range: { start: { line: 2, character: 31 }, end: { line: 2, character: 31 } }, newText: ", text" },
+    ]);
+  });
+
+  test("adds an exposing list to an aliased import", async () => {
+    expect(importEdits(await header(), "Json.Decode", "field")).toEqual([
+      { range: { start: { line: 3, character: 23 }, end: { line: 3, character: 23 } }, newText: " exposing (field)" },
+    ]);
+  });
+
+  test("exposes the constructors of a type imported without them", async () => {
+    expect(importEdits(await header(), "Types", "Msg(..)")).toEqual([
+      { range: { start: { line: 4, character: 23 }, end: { line: 4, character: 26 } }, newText: "Msg(..)" },
+    ]);
+  });
+
+  test("adds a new import below the others", async () => {
+    expect(importEdits(await header(), "Helpers", "add")).toEqual([
+      { range: { start: { line: 5, character: 0 }, end: { line: 5, character: 0 } }, newText: "import Helpers exposing (add)\n" },
+    ]);
+
+    const noImports = (await parse("module A exposing (..)\n\na = 1\n"))!;
+    expect(importEdits(noImports, "Helpers", "add")).toEqual([
+      { range: { start: { line: 1, character: 0 }, end: { line: 1, character: 0 } }, newText: "\nimport Helpers exposing (add)\n" },
+    ]);
+  });
+});
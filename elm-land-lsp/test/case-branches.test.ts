@@ -0,0 +1,106 @@
+import { describe, test, expect } from "bun:test";
+import * as path from "path";
+import { parse } from "../src/elm-ast/bridge";
+import { findElmJsonFor } from "../src/project/elm-json";
+import { missingBranchesActions } from "../src/features/case-branches";
+import type { Position } from "../src/protocol/messages";
+import { SMALL_PROJECT } from "./helpers";
+
+const uri = "file:///project/src/Branches.elm";
+
+async function branches(lines: string[], position: Position) {
+  const elmJson = (await findElmJsonFor(path.join(SMALL_PROJECT, "src", "Main.elm")))!;
+  const text = lines.join("\n");
+  const actions = await missingBranchesActions(uri, (await parse(text))!, text, position, elmJson);
+  return actions.map((a) => a.edit!.changes![uri]);
+}
+
+describe("missing case branches", () => {
+  test("adds a branch for each constructor of a local type, naming arguments from their types", async () => {
+    const result = await branches([
+      "module Branches exposing (update)",
+      "",
+      "",
+      "type Msg",
+      "    = Reset",
+      "    | SetUser User",
+      "    | AddItems (List Item) Int Int",
+      "    | Choose (Maybe String)",
+      "",
+      "",
+      "type alias User = { name : String }",
+      "",
+      "",
+      "type alias Item = { price : Int }",
+      "",
+      "",
+      "update : Msg -> Int -> Int",
+      "update msg user =",
+      "    case msg of",
+      "        Reset ->",
+      "            0",
+      "",
+    ], { line: 18, character: 6 });
+
+    expect(result).toEqual([[
+      {
+        range: { start: { line: 20, character: 13 }, end: { line: 20, character: 13 } },
+        newText: [
+          "",
+          "",
+          "        SetUser user2 ->",
+          '            Debug.todo "SetUser user2"',
+          "",
+          "        AddItems items int int2 ->",
+          '            Debug.todo "AddItems items int int2"',
+          "",
+          "        Choose maybeString ->",
+          '            Debug.todo "Choose maybeString"',
+        ].join("\n"),
+      },
+    ]]);
+  });
+
+  test("works out the type of the subject for types from other modules", async () => {
+    const result = await branches([
+      "module Branches exposing (view)",
+      "",
+      "import Types",
+      "",
+      "",
+      "view : Types.Msg -> String",
+      "view msg =",
+      "    case msg of",
+      "        Types.Increment -> \"+\"",
+      "",
+    ], { line: 7, character: 4 });
+
+    expect(result[0]![0]!.newText).toBe([
+      "",
+      "",
+      "        Types.Decrement ->",
+      '            Debug.todo "Types.Decrement"',
+      "",
+      "        Types.SetName string ->",
+      '            Debug.todo "Types.SetName string"',
+    ].join("\n"));
+  });
+
+  test("isn't offered when every constructor or anything else is matched", async () => {
+    const source = (branch: string) => [
+      "module Branches exposing (isOn)",
+      "",
+      "",
+      "type Switch = On | Off",
+      "",
+      "",
+      "isOn switch =",
+      "    case switch of",
+      "        On -> True",
+      `        ${branch} -> False`,
+      "",
+    ];
+    expect(await branches(source("Off"), { line: 7, character: 4 })).toEqual([]);
+    expect(await branches(source("_"), { line: 7, character: 4 })).toEqual([]);
+  });
+});
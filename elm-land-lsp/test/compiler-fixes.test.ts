@@ -0,0 +1,141 @@
+import { describe, test, expect } from "bun:test";
+import * as path from "path";
+import { findElmJsonFor } from "../src/project/elm-json";
+import { compilerQuickFixes } from "../src/features/compiler-fixes";
+import type { Diagnostic, Range } from "../src/protocol/messages";
+import { SMALL_PROJECT } from "./helpers";
+
+const uri = "file:///project/src/Fix.elm";
+
+// A diagnostic as published from `elm make`, with the message in `data`
+function compilerDiagnostic(range: Range, title: string, message: string): Diagnostic {
+  return {
+    range,
+    severity: 1,
+    source: "elm",
+    message: `-- ${title} --\n\n${message}`,
+    data: { title, region: { start: { line: 0, column: 0 }, end: { line: 0, column: 0 } }, message: [message] },
+  };
+}
+
+async function fixes(lines: string[], diagnostic: Diagnostic) {
+  const elmJson = (await findElmJsonFor(path.join(SMALL_PROJECT, "src", "Main.elm")))!;
+  const actions = await compilerQuickFixes(uri, lines.join("\n"), [diagnostic], elmJson);
+  return actions.map((a) => ({ title: a.title, edits: a.edit!.changes![uri] }));
+}
+
+function range(line: number, start: number, endLine: number, end: number): Range {
+  return { start: { line, character: start }, end: { line: endLine, character: end } };
+}
+
+describe("compiler quick fixes", () => {
+  test("replaces a misspelled name with each suggestion", async () => {
+    const result = await fixes(
+      ["module Fix exposing (x)", "", "", "x =", "    lenght [ 1 ]", ""],
+      compilerDiagnostic(range(4, 4, 4, 10), "NAMING ERROR", [
+        "I cannot find a `lenght` variable:",
+        "",
+        "5|     lenght [ 1 ]",
+        "       ^^^^^^",
+        "These names seem close though:",
+        "",
+        "    length",
+        "    List.length",
+        "",
+        "Hint: Read <https://elm-lang.org/0.19.1/imports> to see how `import`",
+        "declarations work in Elm.",
+      ].join("\n"))
+    );
+    expect(result).toEqual([
+      { title: "Change to length", edits: [{ range: range(4, 4, 4, 10), newText: "length" }] },
+      { title: "Change to List.length", edits: [{ range: range(4, 4, 4, 10), newText: "List.length" }] },
+    ]);
+  });
+
+  test("adds a missing import, or fixes the qualifier", async () => {
+    const result = await fixes(
+      ["module Fix exposing (x)", "", "import Html", "", "", "x =", "    Helpers.add 1 2", ""],
+      compilerDiagnostic(range(6, 4, 6, 15), "NAMING ERROR", [
+        "I cannot find a `Helpers.add` variable:",
+        "",
+        "7|     Helpers.add 1 2",
+        "       ^^^^^^^^^^^",
+        "I cannot find a `Helpers` import. These names seem close though:",
+        "",
+        "    Helper",
+        "",
+      ].join("\n"))
+    );
+    expect(result).toEqual([
+      { title: "Add import Helpers", edits: [{ range: range(3, 0, 3, 0), newText: "import Helpers\n" }] },
+      { title: "Change to Helper.add", edits: [{ range: range(6, 4, 6, 15), newText: "Helper.add" }] },
+    ]);
+  });
+
+  test("adds missing case branches", async () => {
+    const lines = [
+      "module Fix exposing (x)",
+      "",
+      "",
+      "x msg =",
+      "    case msg of",
+      "        Just 1 ->",
+      "            1",
+      "",
+    ];
+    const result = await fixes(
+      lines,
+      compilerDiagnostic(range(4, 4, 6, 13), "MISSING PATTERNS", [
+        "This `case` does not have branches for all possibilities:",
+        "",
+        "5|>    case msg of",
+        "",
+        "Missing possibilities include:",
+        "",
+        "    Nothing",
+        "    Just _",
+        "",
+        "I would have to crash if I saw one of those. Add branches for them!",
+      ].join("\n"))
+    );
+    expect(result).toEqual([
+      {
+        title: "Add missing case branches",
+        edits: [{
+          range: range(6, 13, 6, 13),
+          newText: '\n\n        Nothing ->\n            Debug.todo "Nothing"\n\n        Just _ ->\n            Debug.todo "Just _"',
+        }],
+      },
+    ]);
+  });
+
+  test("adds a missing record field", async () => {
+    const message = (field: string) => [
+      "The 1st argument to `view` is not what I expect:",
+      "",
+      "Hint: Looks like a record is missing the `" + field + "` field.",
+    ].join("\n");
+
+    const inline = await fixes(
+      ["module Fix exposing (x)", "", "", "x =", '    view { title = "Hi" }', ""],
+      compilerDiagnostic(range(4, 9, 4, 25), "TYPE MISMATCH", message("body"))
+    );
+    expect(inline).toEqual([
+      {
+        title: "Add missing field body",
+        edits: [{ range: range(4, 23, 4, 23), newText: ', body = Debug.todo "body"' }],
+      },
+    ]);
+
+    const multiline = await fixes(
+      ["module Fix exposing (x)", "", "", "x =", "    view", '        { title = "Hi"', "        }", ""],
+      compilerDiagnostic(range(5, 8, 6, 9), "TYPE MISMATCH", message("body"))
+    );
+    expect(multiline[0]!.edits).toEqual([{ range: range(6, 0, 6, 0), newText: '        , body = Debug.todo "body"\n' }]);
+  });
+
+  test("ignores diagnostics from other sources", async () => {
+    const diagnostic = compilerDiagnostic(range(4, 4, 4, 10), "NAMING ERROR", "These names seem close though:\n\n    length");
+    expect(await fixes(["module Fix exposing (x)", "", "", "x =", "    lenght", ""], { ...diagnostic, source: "elm-land-lsp" })).toEqual([]);
+  });
+});
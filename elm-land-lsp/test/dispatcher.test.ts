@@ -0,0 +1,148 @@
+import { describe, test, expect } from "bun:test";
+import { Dispatcher } from "../src/protocol/dispatcher";
+import { throwIfCancelled } from "../src/protocol/cancellation";
+import { ErrorCodes, RequestError, type RequestMessage } from "../src/protocol/messages";
+
+type Sent =
+  | { id: number | string; result: unknown }
+  | { id: number | string; error: { code: number; message: string } };
+
+function setup(
+  onRequest: (msg: RequestMessage, signal: AbortSignal) => Promise<unknown>,
+  onNotification: (method: string) => Promise<void> | void = () => {}
+) {
+  const sent: Sent[] = [];
+  const dispatcher = new Dispatcher({
+    request: onRequest,
+    notification: (msg) => onNotification(msg.method),
+    response: () => {},
+    respond: (id, result) => sent.push({ id, result }),
+    respondError: (id, code, message) => sent.push({ id, error: { code, message } }),
+  });
+  return { dispatcher, sent };
+}
+
+function request(id: number, method: string, params: object = {}) {
+  return { jsonrpc: "2.0", id, method, params };
+}
+
+function notification(method: string, params: object = {}) {
+  return { jsonrpc: "2.0", method, params };
+}
+
+describe("dispatcher", () => {
+  test("a slow request does not block a fast one", async () => {
+    const { dispatcher, sent } = setup(async (msg) => {
+      if (msg.method === "slow") await Bun.sleep(50);
+      return msg.method;
+    });
+
+    dispatcher.dispatch(request(1, "slow"));
+    dispatcher.dispatch(request(2, "fast"));
+    await Bun.sleep(100);
+
+    expect(sent).toEqual([
+      { id: 2, result: "fast" },
+      { id: 1, result: "slow" },
+    ]);
+  });
+
+  test("$/cancelRequest aborts the handler and answers with RequestCancelled", async () => {
+    let observedAbort = false;
+    const { dispatcher, sent } = setup(async (_msg, signal) => {
+      for (let i = 0; i < 20; i++) {
+        await Bun.sleep(5);
+        if (signal.aborted) observedAbort = true;
+        throwIfCancelled(signal);
+      }
+      return "done";
+    });
+
+    dispatcher.dispatch(request(7, "textDocument/references"));
+    await Bun.sleep(10);
+    expect(dispatcher.inFlightIds()).toEqual([7]);
+
+    dispatcher.dispatch(notification("$/cancelRequest", { id: 7 }));
+    await Bun.sleep(30);
+
+    expect(observedAbort).toBe(true);
+    expect(sent).toEqual([
+      { id: 7, error: { code: ErrorCodes.RequestCancelled, message: "Request cancelled" } },
+    ]);
+    expect(dispatcher.inFlightIds()).toEqual([]);
+  });
+
+  test("a result computed after cancellation is not sent", async () => {
+    const { dispatcher, sent } = setup(async () => {
+      await Bun.sleep(20);
+      return "ignored";
+    });
+
+    dispatcher.dispatch(request(1, "slow"));
+    dispatcher.dispatch(notification("$/cancelRequest", { id: 1 }));
+    await Bun.sleep(40);
+
+    expect(sent.length).toBe(1);
+    expect("error" in sent[0]! && sent[0].error.code).toBe(ErrorCodes.RequestCancelled);
+  });
+
+  test("cancelling an unknown id is a no-op", () => {
+    const { dispatcher, sent } = setup(async () => null);
+    dispatcher.dispatch(notification("$/cancelRequest", { id: 99 }));
+    expect(sent).toEqual([]);
+  });
+
+  test("notifications are handled in order even when handlers are async", async () => {
+    const order: string[] = [];
+    const { dispatcher } = setup(
+      async () => null,
+      async (method) => {
+        await Bun.sleep(method === "first" ? 20 : 0);
+        order.push(method);
+      }
+    );
+
+    dispatcher.dispatch(notification("first"));
+    dispatcher.dispatch(notification("second"));
+    dispatcher.dispatch(notification("third"));
+    await dispatcher.idle();
+
+    expect(order).toEqual(["first", "second", "third"]);
+  });
+
+  test("requests wait for notifications that arrived before them", async () => {
+    let text = "old";
+    const { dispatcher, sent } = setup(
+      async () => text,
+      async () => {
+        await Bun.sleep(10);
+        text = "new";
+      }
+    );
+
+    dispatcher.dispatch(notification("textDocument/didChange"));
+    dispatcher.dispatch(request(1, "textDocument/hover"));
+    await Bun.sleep(30);
+
+    expect(sent).toEqual([{ id: 1, result: "new" }]);
+  });
+
+  test("RequestError is sent with its code, other errors as InternalError", async () => {
+    const { dispatcher, sent } = setup(async (msg) => {
+      if (msg.method === "unknown") throw new RequestError(ErrorCodes.MethodNotFound, "nope");
+      throw new Error("boom");
+    });
+    const originalError = console.error;
+    console.error = () => {};
+
+    dispatcher.dispatch(request(1, "unknown"));
+    dispatcher.dispatch(request(2, "crash"));
+    await Bun.sleep(10);
+    console.error = originalError;
+
+    expect(sent).toEqual([
+      { id: 1, error: { code: ErrorCodes.MethodNotFound, message: "nope" } },
+      { id: 2, error: { code: ErrorCodes.InternalError, message: "Error: boom" } },
+    ]);
+  });
+});
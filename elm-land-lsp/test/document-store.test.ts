@@ -0,0 +1,138 @@
+import { describe, test, expect } from "bun:test";
+import {
+  documentStore,
+  offsetAt,
+  applyContentChanges,
+} from "../src/state/document-store";
+import type { Position, TextDocumentContentChangeEvent } from "../src/protocol/messages";
+
+// Build the position of a string offset the way an editor would (UTF-16 units).
+function positionAt(text: string, offset: number): Position {
+  const before = text.slice(0, offset);
+  const line = before.split("\n").length - 1;
+  const character = offset - (before.lastIndexOf("\n") + 1);
+  return { line, character };
+}
+
+function rangedEdit(text: string, start: number, end: number, newText: string): TextDocumentContentChangeEvent {
+  return {
+    range: { start: positionAt(text, start), end: positionAt(text, end) },
+    rangeLength: end - start,
+    text: newText,
+  };
+}
+
+describe("offsetAt", () => {
+  test("maps positions to offsets", () => {
+    const text = "module A exposing (..)\n\nx = 1\n";
+    expect(offsetAt(text, { line: 0, character: 0 })).toBe(0);
+    expect(offsetAt(text, { line: 2, character: 4 })).toBe(28);
+    expect(offsetAt(text, { line: 3, character: 0 })).toBe(text.length);
+  });
+
+  test("clamps past end of line and past end of document", () => {
+    const text = "ab\ncd";
+    expect(offsetAt(text, { line: 0, character: 99 })).toBe(2);
+    expect(offsetAt(text, { line: 9, character: 0 })).toBe(text.length);
+  });
+
+  test("does not step over \\r in CRLF line endings", () => {
+    const text = "ab\r\ncd";
+    expect(offsetAt(text, { line: 0, character: 5 })).toBe(2);
+    expect(offsetAt(text, { line: 1, character: 1 })).toBe(5);
+  });
+
+  test("counts surrogate pairs as two UTF-16 units", () => {
+    const text = 'x = "🌍!"\n';
+    // "🌍" occupies characters 5 and 6, so "!" is at character 7
+    expect(text[offsetAt(text, { line: 0, character: 7 })]).toBe("!");
+  });
+});
+
+describe("incremental sync", () => {
+  test("ranged edits match a full-sync baseline", () => {
+    const original = 'module Main exposing (main)\n\nimport Html\n\n\nmain =\n    Html.text "héllo 🌍"\n';
+    const edits: [number, number, string][] = [
+      [29, 40, "import Html exposing (text)"], // replace import line
+      [0, 0, "-- header\n"], // insert at start
+      [999, 999, "\nview = main\n"], // append at end
+      [12, 21, ""], // delete a span
+    ];
+
+    let baseline = original;
+    let incremental = original;
+    for (const [start, rawEnd, newText] of edits) {
+      const end = Math.min(rawEnd, baseline.length);
+      const s = Math.min(start, baseline.length);
+      const change = rangedEdit(incremental, s, end, newText);
+      baseline = baseline.slice(0, s) + newText + baseline.slice(end);
+      incremental = applyContentChanges(incremental, [change]);
+      expect(incremental).toBe(baseline);
+    }
+  });
+
+  test("edits next to astral characters keep the text intact", () => {
+    const text = 'x = "🌍🌍"\n';
+    const afterFirstEmoji = text.indexOf("🌍") + "🌍".length;
+    const result = applyContentChanges(text, [rangedEdit(text, afterFirstEmoji, afterFirstEmoji, " ")]);
+    expect(result).toBe('x = "🌍 🌍"\n');
+  });
+
+  test("applies a batch of changes in order", () => {
+    let text = "a\nb\nc\n";
+    const batch: TextDocumentContentChangeEvent[] = [];
+    // Each change is relative to the document after the previous one
+    const first = rangedEdit(text, 2, 3, "BB");
+    batch.push(first);
+    const afterFirst = applyContentChanges(text, [first]);
+    batch.push(rangedEdit(afterFirst, 0, 1, "AA"));
+
+    expect(applyContentChanges(text, batch)).toBe("AA\nBB\nc\n");
+  });
+
+  test("a change without a range replaces the whole document", () => {
+    expect(applyContentChanges("old", [{ text: "new" }])).toBe("new");
+  });
+
+  test("randomized edits agree with full-text replacement", () => {
+    let seed = 42;
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      return seed % n;
+    };
+    const pieces = ["x", "\n", "é", "🌍", "  ", "\r\n", "case", ""];
+
+    let baseline = "module A exposing (..)\n\nx = 1\n";
+    let incremental = baseline;
+    for (let i = 0; i < 500; i++) {
+      let start = random(baseline.length + 1);
+      let end = Math.min(baseline.length, start + random(6));
+      // Never split a surrogate pair; editors do not produce such ranges
+      if (/[\uDC00-\uDFFF]/.test(baseline[start] ?? "")) start--;
+      if (/[\uDC00-\uDFFF]/.test(baseline[end] ?? "")) end++;
+      // A position cannot point between \r and \n
+      if (baseline[start - 1] === "\r" && baseline[start] === "\n") start--;
+      if (baseline[end - 1] === "\r" && baseline[end] === "\n") end++;
+      const newText = pieces[random(pieces.length)]!;
+
+      const change = rangedEdit(incremental, start, end, newText);
+      baseline = baseline.slice(0, start) + newText + baseline.slice(end);
+      incremental = applyContentChanges(incremental, [change]);
+    }
+    expect(incremental).toBe(baseline);
+  });
+});
+
+describe("documentStore.applyChanges", () => {
+  test("updates text and version", () => {
+    const uri = "file:///tmp/Store.elm";
+    documentStore.open(uri, "x = 1\n", 1);
+    documentStore.applyChanges(
+      uri,
+      [{ range: { start: { line: 0, character: 4 }, end: { line: 0, character: 5 } }, text: "2" }],
+      2
+    );
+    expect(documentStore.get(uri)).toEqual({ uri, text: "x = 2\n", version: 2 });
+    documentStore.close(uri);
+  });
+});
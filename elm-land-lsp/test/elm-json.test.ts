@@ -1,6 +1,14 @@
 import { describe, test, expect } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
-import { parseElmJson, findElmJsonFor, uriToPath, pathToUri } from "../src/project/elm-json";
+import {
+  parseElmJson,
+  findElmJsonFor,
+  invalidateElmJsonCaches,
+  uriToPath,
+  pathToUri,
+} from "../src/project/elm-json";
 import { getElmHome } from "../src/project/elm-home";
 import { resolveModuleToFile } from "../src/project/module-resolver";
 import { SMALL_PROJECT } from "./helpers";
@@ -37,6 +45,31 @@ describe("elm-json", () => {
     expect(result!.sourceDirectories).toContain(path.join(SMALL_PROJECT, "src"));
   });
 
+  test("invalidateElmJsonCaches picks up an edited elm.json", async () => {
+    const project = fs.mkdtempSync(path.join(os.tmpdir(), "elm-json-"));
+    try {
+      const write = (sourceDirs: string[]) =>
+        fs.writeFileSync(
+          path.join(project, "elm.json"),
+          JSON.stringify({ "elm-version": "0.19.1", "source-directories": sourceDirs, dependencies: {} })
+        );
+      const file = path.join(project, "src", "Main.elm");
+
+      write(["src"]);
+      expect((await findElmJsonFor(file))!.sourceDirectories).toEqual([path.join(project, "src")]);
+
+      write(["src", "lib"]);
+      expect((await findElmJsonFor(file))!.sourceDirectories).toHaveLength(1); // still cached
+      invalidateElmJsonCaches();
+      expect((await findElmJsonFor(file))!.sourceDirectories).toEqual([
+        path.join(project, "src"),
+        path.join(project, "lib"),
+      ]);
+    } finally {
+      fs.rmSync(project, { recursive: true, force: true });
+    }
+  });
+
   test("findElmJsonFor returns undefined outside project", async () => {
     const result = await findElmJsonFor("/tmp/no-project-here/File.elm");
     expect(result).toBeUndefined();
@@ -0,0 +1,99 @@
+import { describe, test, expect } from "bun:test";
+import * as path from "path";
+import { findElmJsonFor } from "../src/project/elm-json";
+import {
+  isElmLandProject,
+  isPageModule,
+  pageModuleToRouteName,
+  pageModuleToUrl,
+  pageModuleToParams,
+  listPageRoutes,
+  findPageForRoute,
+  findPageForUrl,
+  resolveRoutePathFile,
+  urlToPageModule,
+  elmLandSourceDir,
+} from "../src/project/elm-land";
+import { ELM_LAND_PROJECT, SMALL_PROJECT } from "./helpers";
+
+async function elmLandJson() {
+  return (await findElmJsonFor(path.join(ELM_LAND_PROJECT, "src", "View.elm")))!;
+}
+
+describe("elm-land naming conventions", () => {
+  test("page modules map to Route.Path constructor names", () => {
+    expect(pageModuleToRouteName("Pages.Home_")).toBe("Home_");
+    expect(pageModuleToRouteName("Pages.Users.Id_")).toBe("Users_Id_");
+    expect(pageModuleToRouteName("Pages.Settings.Account")).toBe("Settings_Account");
+  });
+
+  test("page modules map to URLs", () => {
+    expect(pageModuleToUrl("Pages.Home_")).toBe("/");
+    expect(pageModuleToUrl("Pages.SignIn")).toBe("/sign-in");
+    expect(pageModuleToUrl("Pages.Users.Id_")).toBe("/users/:id");
+    expect(pageModuleToUrl("Pages.Blog.ALL_")).toBe("/blog/*");
+  });
+
+  test("route params come from dynamic segments", () => {
+    expect(pageModuleToParams("Pages.Home_")).toEqual([]);
+    expect(pageModuleToParams("Pages.Users.Id_")).toEqual([{ name: "id", type: "String" }]);
+    expect(pageModuleToParams("Pages.Repos.Owner_.RepoName_")).toEqual([
+      { name: "owner", type: "String" },
+      { name: "repoName", type: "String" },
+    ]);
+    expect(pageModuleToParams("Pages.Docs.ALL_")).toEqual([{ name: "all_", type: "List String" }]);
+  });
+
+  test("URLs map back to page modules", () => {
+    expect(urlToPageModule("/")).toBe("Pages.Home_");
+    expect(urlToPageModule("/sign-in")).toBe("Pages.SignIn");
+    expect(urlToPageModule("/users/:id")).toBe("Pages.Users.Id_");
+    expect(urlToPageModule("/blog/*")).toBe("Pages.Blog.ALL_");
+    expect(urlToPageModule("/about?ref=nav")).toBe("Pages.About");
+    expect(urlToPageModule("/42")).toBeUndefined();
+  });
+
+  test("isPageModule", () => {
+    expect(isPageModule("Pages.Home_")).toBe(true);
+    expect(isPageModule("Layouts.Sidebar")).toBe(false);
+    expect(isPageModule("Pages")).toBe(false);
+  });
+});
+
+describe("elm-land project", () => {
+  test("detects elm-land.json", async () => {
+    expect(isElmLandProject(await elmLandJson())).toBe(true);
+    const small = (await findElmJsonFor(path.join(SMALL_PROJECT, "src", "Main.elm")))!;
+    expect(isElmLandProject(small)).toBe(false);
+  });
+
+  test("lists pages from src/Pages", async () => {
+    const routes = listPageRoutes(await elmLandJson()).map((p) => p.routeName).sort();
+    expect(routes).toEqual(["Home_", "Settings_Account", "Users_Id_"]);
+  });
+
+  test("finds the page file for a route constructor", async () => {
+    const page = findPageForRoute("Users_Id_", await elmLandJson());
+    expect(page?.filePath).toBe(path.join(ELM_LAND_PROJECT, "src", "Pages", "Users", "Id_.elm"));
+    expect(findPageForRoute("Missing", await elmLandJson())).toBeUndefined();
+  });
+
+  test("matches URLs, preferring static segments", async () => {
+    const elmJson = await elmLandJson();
+    expect(findPageForUrl("/", elmJson)?.moduleName).toBe("Pages.Home_");
+    expect(findPageForUrl("/users/42", elmJson)?.moduleName).toBe("Pages.Users.Id_");
+    expect(findPageForUrl("/users/42/?tab=posts#top", elmJson)?.moduleName).toBe("Pages.Users.Id_");
+    expect(findPageForUrl("/settings/account", elmJson)?.moduleName).toBe("Pages.Settings.Account");
+    expect(findPageForUrl("/nope/nope", elmJson)).toBeUndefined();
+  });
+
+  test("new modules go in the project's own source folder", async () => {
+    expect(elmLandSourceDir(await elmLandJson())).toBe(path.join(ELM_LAND_PROJECT, "src"));
+  });
+
+  test("resolves the generated Route.Path module", async () => {
+    expect(await resolveRoutePathFile(await elmLandJson())).toBe(
+      path.join(ELM_LAND_PROJECT, ".elm-land", "src", "Route", "Path.elm")
+    );
+  });
+});
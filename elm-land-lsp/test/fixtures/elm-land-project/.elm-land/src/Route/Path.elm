@@ -0,0 +1,65 @@
+module Route.Path exposing (Path(..), fromString, href, toString)
+
+import Html
+import Html.Attributes
+
+
+type Path
+    = Home_
+    | Settings_Account
+    | Users_Id_ { id : String }
+    | NotFound_
+
+
+fromString : String -> Maybe Path
+fromString urlPath =
+    let
+        urlPathSegments : List String
+        urlPathSegments =
+            urlPath
+                |> String.split "/"
+                |> List.filter (String.trim >> String.isEmpty >> Basics.not)
+    in
+    case urlPathSegments of
+        [] ->
+            Just Home_
+
+        "settings" :: "account" :: [] ->
+            Just Settings_Account
+
+        "users" :: id_ :: [] ->
+            Users_Id_
+                { id = id_
+                }
+                |> Just
+
+        _ ->
+            Nothing
+
+
+href : Path -> Html.Attribute msg
+href path =
+    Html.Attributes.href (toString path)
+
+
+toString : Path -> String
+toString path =
+    let
+        pieces : List String
+        pieces =
+            case path of
+                Home_ ->
+                    []
+
+                Settings_Account ->
+                    [ "settings", "account" ]
+
+                Users_Id_ params ->
+                    [ "users", params.id ]
+
+                NotFound_ ->
+                    [ "404" ]
+    in
+    pieces
+        |> String.join "/"
+        |> String.append "/"
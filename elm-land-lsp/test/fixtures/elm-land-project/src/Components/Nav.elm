@@ -0,0 +1,15 @@
+module Components.Nav exposing (view)
+
+import Html exposing (Html)
+import Html.Attributes
+import Route.Path
+
+
+view : Html msg
+view =
+    Html.nav []
+        [ Html.a [ Route.Path.href Route.Path.Home_ ] [ Html.text "Home" ]
+        , Html.a [ Route.Path.href (Route.Path.Users_Id_ { id = "42" }) ] [ Html.text "Profile" ]
+        , Html.a [ Html.Attributes.href "/settings/account" ] [ Html.text "Settings" ]
+        , Html.a [ Html.Attributes.href "/users/7?tab=posts" ] [ Html.text "Posts" ]
+        ]
@@ -0,0 +1,11 @@
+module Pages.Settings.Account exposing (page)
+
+import Html
+import View exposing (View)
+
+
+page : View msg
+page =
+    { title = "Account settings"
+    , body = [ Html.text "/settings/account" ]
+    }
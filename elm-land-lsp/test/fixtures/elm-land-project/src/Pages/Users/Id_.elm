@@ -0,0 +1,11 @@
+module Pages.Users.Id_ exposing (page)
+
+import Html
+import View exposing (View)
+
+
+page : { id : String } -> View msg
+page params =
+    { title = "User " ++ params.id
+    , body = [ Html.text ("User " ++ params.id) ]
+    }
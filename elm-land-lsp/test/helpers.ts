@@ -3,6 +3,7 @@ import { encode } from "../src/protocol/transport";
 
 export const FIXTURES = path.resolve(import.meta.dir, "fixtures");
 export const SMALL_PROJECT = path.join(FIXTURES, "small-project");
+export const ELM_LAND_PROJECT = path.join(FIXTURES, "elm-land-project");
 export const ELM_PKG_UNIVERSE = path.join(FIXTURES, "elm-package-universe");
 
 export function fileUri(fsPath: string): string {
@@ -19,8 +20,13 @@ export function fixturePath(project: string, ...parts: string[]): string {
 
 export type LspClient = {
   request(method: string, params: object): Promise<any>;
+  startRequest(method: string, params: object): { id: number; response: Promise<any> };
   notify(method: string, params: object): void;
   openFile(uri: string, text: string, version?: number): void;
+  // Requests the server sent to the client, e.g. workspace/applyEdit
+  serverRequests: { method: string; params: any }[];
+  // Notifications the server sent, e.g. textDocument/publishDiagnostics
+  notifications: { method: string; params: any }[];
   shutdown(): Promise<void>;
 };
 
@@ -61,12 +67,18 @@ export async function startLsp(): Promise<LspClient> {
       msgBuffer = msgBuffer.slice(headerEnd + contentLength);
 
       const msg = JSON.parse(body);
-      if ("id" in msg && pendingResponses.has(msg.id)) {
+      if ("id" in msg && "method" in msg) {
+        // Server -> client request: record it and accept it
+        client.serverRequests.push({ method: msg.method, params: msg.params });
+        const result = msg.method === "workspace/applyEdit" ? { applied: true } : null;
+        write({ jsonrpc: "2.0", id: msg.id, result });
+      } else if ("id" in msg && pendingResponses.has(msg.id)) {
         const { resolve } = pendingResponses.get(msg.id)!;
         pendingResponses.delete(msg.id);
         resolve(msg.error ?? msg.result);
+      } else if ("method" in msg) {
+        client.notifications.push({ method: msg.method, params: msg.params });
       }
-      // Notifications (diagnostics etc.) are silently discarded
     }
   }
 
@@ -75,10 +87,17 @@ export async function startLsp(): Promise<LspClient> {
   }
 
   const client: LspClient = {
+    serverRequests: [],
+    notifications: [],
+
     async request(method, params) {
+      return client.startRequest(method, params).response;
+    },
+
+    startRequest(method, params) {
       if (dead) throw new Error("LSP process is dead");
       const id = ++idCounter;
-      return new Promise((resolve, reject) => {
+      const response = new Promise((resolve, reject) => {
         pendingResponses.set(id, { resolve });
         write({ jsonrpc: "2.0", id, method, params });
         setTimeout(() => {
@@ -88,6 +107,7 @@ export async function startLsp(): Promise<LspClient> {
           }
         }, 30000);
       });
+      return { id, response };
     },
 
     notify(method, params) {
@@ -111,8 +131,10 @@ export async function startLsp(): Promise<LspClient> {
 
   await client.request("initialize", {
     processId: null,
-    capabilities: {},
+    capabilities: { workspace: { didChangeWatchedFiles: { dynamicRegistration: true } } },
     rootUri: fileUri(SMALL_PROJECT),
+    // Keep test runs out of the real cache
+    initializationOptions: { indexCache: { enabled: false } },
   });
   client.notify("initialized", {});
 
@@ -0,0 +1,75 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { parse, parserVersion } from "../src/elm-ast/bridge";
+import { contentKey } from "../src/state/ast-cache";
+import { configureIndexCache, readCachedModule, writeCachedModule } from "../src/state/index-cache";
+import { indexModule } from "../src/state/project-index";
+
+const text = "module Cached exposing (add)\n\nimport Html\n\n\nadd : Int -> Int -> Int\nadd a b =\n    a + b\n";
+
+describe("index cache", () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "elm-land-lsp-cache-"));
+    configureIndexCache({ directory, enabled: true });
+  });
+
+  afterAll(() => {
+    configureIndexCache({ enabled: false });
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  async function savedFile(): Promise<string> {
+    return path.join(directory, "elm-land-lsp", await parserVersion(), `${contentKey(text)}.json.gz`);
+  }
+
+  test("reads back a saved module", async () => {
+    const module = indexModule((await parse(text))!, "file:///project/src/Cached.elm");
+    await writeCachedModule(text, module);
+
+    const saved = await readCachedModule(text);
+    expect(saved).toMatchObject({ moduleName: "Cached", exports: ["add"], imports: ["Html"] });
+    expect(saved!.declarations).toEqual(module.declarations);
+    expect(saved!.references).toEqual(module.references);
+    expect(saved).not.toHaveProperty("uri");
+  });
+
+  test("misses text that was never saved", async () => {
+    expect(await readCachedModule(text + "\n")).toBeUndefined();
+  });
+
+  test("discards corrupted entries", async () => {
+    const module = indexModule((await parse(text))!, "file:///project/src/Cached.elm");
+    await writeCachedModule(text, module);
+    fs.writeFileSync(await savedFile(), "not gzip at all");
+
+    expect(await readCachedModule(text)).toBeUndefined();
+    expect(fs.existsSync(await savedFile())).toBe(false);
+  });
+
+  test("clears entries saved by other parser versions, and nothing else", async () => {
+    const stale = path.join(directory, "elm-land-lsp", "old-parser");
+    fs.mkdirSync(stale, { recursive: true });
+    fs.writeFileSync(path.join(stale, `${contentKey(text)}.json.gz`), "");
+    const unrelated = path.join(directory, "other-tool");
+    fs.mkdirSync(unrelated, { recursive: true });
+    // Clearing happens once per configured directory
+    configureIndexCache({ directory });
+
+    await readCachedModule(text);
+    expect(fs.existsSync(stale)).toBe(false);
+    expect(fs.existsSync(unrelated)).toBe(true);
+  });
+
+  test("rejects saved files that aren't modules", async () => {
+    const file = await savedFile();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, Bun.gzipSync(JSON.stringify({ format: 1, key: contentKey(text), module: [] })));
+
+    expect(await readCachedModule(text)).toBeUndefined();
+    expect(fs.existsSync(file)).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, test, expect } from "bun:test";
+import { parse } from "../src/elm-ast/bridge";
+import { TypeEnvironment, inferModule, parseTypeString, typeToString } from "../src/elm-ast/infer";
+import type { ModuleDoc } from "../src/project/elm-json";
+
+// Just enough of elm/core for the programs below
+function doc(name: string, parts: Partial<ModuleDoc>): ModuleDoc {
+  return { name, comment: "", unions: [], aliases: [], values: [], binops: [], ...parts };
+}
+
+const union = (name: string, args: string[], cases: [string, string[]][] = []) =>
+  ({ name, comment: "", args, cases });
+const value = (name: string, type: string) => ({ name, comment: "", type });
+
+const CORE: ModuleDoc[] = [
+  doc("Basics", {
+    unions: [union("Int", []), union("Float", []), union("Bool", [], [["True", []], ["False", []]])],
+    values: [value("identity", "a -> a"), value("not", "Basics.Bool -> Basics.Bool")],
+    binops: [
+      value("+", "number -> number -> number"),
+      value("++", "appendable -> appendable -> appendable"),
+      value("|>", "a -> (a -> b) -> b"),
+      value("<", "comparable -> comparable -> Basics.Bool"),
+    ],
+  }),
+  doc("List", {
+    unions: [union("List", ["a"])],
+    values: [value("map", "(a -> b) -> List.List a -> List.List b")],
+    binops: [value("::", "a -> List.List a -> List.List a")],
+  }),
+  doc("Maybe", { unions: [union("Maybe", ["a"], [["Just", ["a"]], ["Nothing", []]])] }),
+  doc("String", {
+    unions: [union("String", [])],
+    values: [value("fromInt", "Basics.Int -> String.String")],
+  }),
+];
+
+async function inferTypes(source: string) {
+  const ast = await parse(source);
+  const env = new TypeEnvironment();
+  env.addDocs(CORE);
+  const result = inferModule(ast!, env);
+  // Last occurrence wins, so a name's definition reports its final type
+  const types = new Map<string, string>();
+  for (const entry of result.names) types.set(entry.name, typeToString(entry.type));
+  return { types, problems: result.problems };
+}
+
+describe("type inference", () => {
+  test("infers unannotated functions", async () => {
+    const { types } = await inferTypes(
+      "module A exposing (..)\n\ndouble x = x + x\n\npair = \\x y -> ( x, y )\n\nfirst (h :: _) = Just h\n"
+    );
+    expect(types.get("double")).toBe("number -> number");
+    expect(types.get("pair")).toBe("a -> b -> ( a, b )");
+    expect(types.get("first")).toBe("List a -> Maybe a");
+  });
+
+  test("infers let bindings, destructuring and recursion", async () => {
+    const { types } = await inferTypes(
+      [
+        "module A exposing (..)",
+        "",
+        "label m =",
+        "    let",
+        "        ( a, b ) = ( m.count, String.fromInt m.count )",
+        "        go n acc = if n < 1 then acc else go (n + -1) (acc ++ \"!\")",
+        "    in",
+        "    b ++ go 3 \"\"",
+        "",
+      ].join("\n")
+    );
+    expect(types.get("a")).toBe("Int");
+    expect(types.get("b")).toBe("String");
+    expect(types.get("go")).toBe("number -> String -> String");
+    expect(types.get("label")).toBe("{ a | count : Int } -> String");
+  });
+
+  test("uses custom types and aliases from the module", async () => {
+    const { types } = await inferTypes(
+      [
+        "module A exposing (..)",
+        "",
+        "type alias Model = { count : Int }",
+        "",
+        "type Msg = Increment | Set Int",
+        "",
+        "init : Model",
+        "init = { count = 0 }",
+        "",
+        "update msg model =",
+        "    case msg of",
+        "        Increment -> { model | count = model.count + 1 }",
+        "        Set n -> { model | count = n }",
+        "",
+        "reset = update (Set 0) init",
+        "",
+      ].join("\n")
+    );
+    expect(types.get("msg")).toBe("Msg");
+    expect(types.get("n")).toBe("Int");
+    expect(types.get("init")).toBe("Model");
+    // The row variable is closed off by Model, so the result is the plain record
+    expect(types.get("reset")).toBe("{ count : Int }");
+  });
+
+  test("keeps going past type errors", async () => {
+    const { types, problems } = await inferTypes(
+      "module A exposing (..)\n\nbad = 1 + \"s\"\n\ngood = String.fromInt 1\n"
+    );
+    expect(problems.length).toBe(1);
+    expect(problems[0]!.range).toEqual([3, 7, 3, 14]);
+    expect(types.get("good")).toBe("String");
+  });
+
+  test("parses docs.json type strings", () => {
+    expect(parseTypeString("(a -> Basics.Bool) -> List.List a -> Maybe.Maybe a")).toBeDefined();
+    expect(parseTypeString("{ r | x : Basics.Int } -> ( a, () )")).toBeDefined();
+    expect(parseTypeString("a -> -> b")).toBeUndefined();
+  });
+});
@@ -1,7 +1,16 @@
 import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
-import { startLsp, SMALL_PROJECT, fixtureUri, fixturePath, type LspClient } from "./helpers";
+import {
+  startLsp,
+  SMALL_PROJECT,
+  ELM_LAND_PROJECT,
+  fixtureUri,
+  fixturePath,
+  type LspClient,
+} from "./helpers";
+import { semanticTokensLegend as legend } from "../src/features/semantic-tokens";
 
 let client: LspClient;
 
@@ -83,6 +92,28 @@ describe("document symbols", () => {
   });
 });
 
+describe("incremental sync", () => {
+  test("ranged didChange edits are applied to the open document", async () => {
+    const uri = fixtureUri(SMALL_PROJECT, "src", "IncrementalTest.elm");
+    client.openFile(uri, "module IncrementalTest exposing (..)\n\n\nfoo =\n    1\n");
+    client.notify("textDocument/didChange", {
+      textDocument: { uri, version: 2 },
+      contentChanges: [
+        {
+          range: { start: { line: 3, character: 0 }, end: { line: 3, character: 3 } },
+          text: "bar",
+        },
+      ],
+    });
+
+    const symbols = await client.request("textDocument/documentSymbol", {
+      textDocument: { uri },
+    });
+
+    expect(symbols.map((s: any) => s.name)).toEqual(["bar"]);
+  });
+});
+
 describe("definition", () => {
   test("jumps to import module name", async () => {
     const uri = fixtureUri(SMALL_PROJECT, "src", "Main.elm");
@@ -215,6 +246,371 @@ describe("definition", () => {
   });
 });
 
+describe("elm land routes", () => {
+  const navUri = fixtureUri(ELM_LAND_PROJECT, "src", "Components", "Nav.elm");
+  const navText = fs.readFileSync(fixturePath(ELM_LAND_PROJECT, "src", "Components", "Nav.elm"), "utf-8");
+
+  function positionOf(needle: string, offset = 0) {
+    const lines = navText.split("\n");
+    const line = lines.findIndex((l) => l.includes(needle));
+    return { line, character: lines[line]!.indexOf(needle) + offset };
+  }
+
+  test("Route.Path constructor jumps to its page", async () => {
+    client.openFile(navUri, navText);
+    await Bun.sleep(300);
+
+    const home = await client.request("textDocument/definition", {
+      textDocument: { uri: navUri },
+      position: positionOf("Route.Path.Home_", 12),
+    });
+    expect(home.uri).toEndWith("/src/Pages/Home_.elm");
+
+    const user = await client.request("textDocument/definition", {
+      textDocument: { uri: navUri },
+      position: positionOf("Route.Path.Users_Id_", 12),
+    });
+    expect(user.uri).toEndWith("/src/Pages/Users/Id_.elm");
+    // Lands on the `page` declaration, starting at its signature
+    expect(user.range.start.line).toBe(6);
+  });
+
+  test("route string jumps to the matching page", async () => {
+    const settings = await client.request("textDocument/definition", {
+      textDocument: { uri: navUri },
+      position: positionOf('"/settings/account"', 3),
+    });
+    expect(settings.uri).toEndWith("/src/Pages/Settings/Account.elm");
+
+    const dynamic = await client.request("textDocument/definition", {
+      textDocument: { uri: navUri },
+      position: positionOf('"/users/7?tab=posts"', 3),
+    });
+    expect(dynamic.uri).toEndWith("/src/Pages/Users/Id_.elm");
+  });
+
+  test("page module name jumps to its Route.Path constructor", async () => {
+    const pageUri = fixtureUri(ELM_LAND_PROJECT, "src", "Pages", "Users", "Id_.elm");
+    const pageText = fs.readFileSync(fixturePath(ELM_LAND_PROJECT, "src", "Pages", "Users", "Id_.elm"), "utf-8");
+    client.openFile(pageUri, pageText);
+    await Bun.sleep(300);
+
+    const result = await client.request("textDocument/definition", {
+      textDocument: { uri: pageUri },
+      position: { line: 0, character: 16 },
+    });
+    expect(result.uri).toEndWith("/.elm-land/src/Route/Path.elm");
+    expect(result.range.start.line).toBe(9); // "| Users_Id_ { id : String }"
+  });
+});
+
+describe("elm land scaffolding", () => {
+  const footerUri = fixtureUri(ELM_LAND_PROJECT, "src", "Components", "Footer.elm");
+  const footerText = [
+    "module Components.Footer exposing (view, layout)",
+    "",
+    "import Html exposing (Html)",
+    "import Html.Attributes",
+    "import Layouts",
+    "",
+    "",
+    "view : Html msg",
+    "view =",
+    '    Html.a [ Html.Attributes.href "/about" ] [ Html.text "About" ]',
+    "",
+    "",
+    "layout : Layouts.Layout msg",
+    "layout =",
+    "    Layouts.Sidebar",
+    "",
+  ].join("\n");
+
+  function rangeAt(line: number, character: number) {
+    const position = { line, character };
+    return { start: position, end: position };
+  }
+
+  test("offers to create a page for an unmatched route", async () => {
+    client.openFile(footerUri, footerText);
+    await Bun.sleep(300);
+
+    const actions = await client.request("textDocument/codeAction", {
+      textDocument: { uri: footerUri },
+      range: rangeAt(9, 40),
+      context: { diagnostics: [] },
+    });
+    expect(actions.map((a: any) => a.title)).toEqual([
+      "Create static page Pages.About",
+      "Create sandbox page Pages.About",
+      "Create element page Pages.About",
+      "Create new page Pages.About",
+    ]);
+    const create = actions[0].edit.documentChanges[0];
+    expect(create.kind).toBe("create");
+    expect(create.uri).toEndWith("/src/Pages/About.elm");
+  });
+
+  test("offers to create a missing layout", async () => {
+    const actions = await client.request("textDocument/codeAction", {
+      textDocument: { uri: footerUri },
+      range: rangeAt(14, 14),
+      context: { diagnostics: [] },
+    });
+    expect(actions.map((a: any) => a.title)).toEqual(["Create layout Layouts.Sidebar"]);
+  });
+
+  test("no actions for routes that already have a page", async () => {
+    const navUri = fixtureUri(ELM_LAND_PROJECT, "src", "Components", "Nav.elm");
+    const navText = fs.readFileSync(fixturePath(ELM_LAND_PROJECT, "src", "Components", "Nav.elm"), "utf-8");
+    client.openFile(navUri, navText);
+    await Bun.sleep(300);
+
+    const actions = await client.request("textDocument/codeAction", {
+      textDocument: { uri: navUri },
+      range: rangeAt(12, 50),
+      context: { diagnostics: [] },
+    });
+    expect(actions).toEqual([]);
+  });
+
+  test("executeCommand applies the edit through the client", async () => {
+    const result = await client.request("workspace/executeCommand", {
+      command: "elm-land.addPage",
+      arguments: [{ uri: footerUri, url: "/blog/:slug", kind: "sandbox" }],
+    });
+    expect(result).toEqual({ applied: true });
+
+    const applyEdit = client.serverRequests.findLast((r) => r.method === "workspace/applyEdit")!;
+    expect(applyEdit.params.label).toBe("Create sandbox page Pages.Blog.Slug_");
+    const insert = applyEdit.params.edit.documentChanges[1];
+    expect(insert.edits[0].newText).toContain("page : Shared.Model -> Route { slug : String } -> Page Model Msg");
+  });
+
+  test("executeCommand rejects bad arguments", async () => {
+    const result = await client.request("workspace/executeCommand", {
+      command: "elm-land.addPage",
+      arguments: [{ uri: footerUri, url: "/about", kind: "fancy" }],
+    });
+    expect(result.code).toBe(-32602);
+  });
+});
+
+describe("type annotations", () => {
+  test("offers to add the inferred annotation to an unannotated function", async () => {
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Unannotated.elm");
+    client.openFile(uri, "module Unannotated exposing (..)\n\n\n{-| Wraps a value -}\nwrap x =\n    [ x ]\n\n\nwrapped : List String\nwrapped =\n    wrap \"a\"\n");
+    await Bun.sleep(300);
+
+    const actions = await client.request("textDocument/codeAction", {
+      textDocument: { uri },
+      range: { start: { line: 4, character: 1 }, end: { line: 4, character: 1 } },
+      context: { diagnostics: [] },
+    });
+    expect(actions.map((a: any) => a.title)).toEqual(["Add type annotation: wrap : a -> List a"]);
+    // Inserted below the doc comment, right above the definition
+    expect(actions[0].edit.changes[uri]).toEqual([
+      { range: { start: { line: 4, character: 0 }, end: { line: 4, character: 0 } }, newText: "wrap : a -> List a\n" },
+    ]);
+
+    const annotated = await client.request("textDocument/codeAction", {
+      textDocument: { uri },
+      range: { start: { line: 10, character: 6 }, end: { line: 10, character: 6 } },
+      context: { diagnostics: [] },
+    });
+    expect(annotated).toEqual([]);
+
+    client.notify("textDocument/didClose", { textDocument: { uri } });
+  });
+
+  test("qualifies types the way the module's imports name them", async () => {
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Qualified.elm");
+    client.openFile(uri, "module Qualified exposing (..)\n\nimport Types as T exposing (Msg)\n\n\nmodel =\n    T.defaultModel\n\n\nmsg =\n    T.Increment\n");
+    await Bun.sleep(300);
+
+    const titles = async (line: number) => {
+      const actions = await client.request("textDocument/codeAction", {
+        textDocument: { uri },
+        range: { start: { line, character: 1 }, end: { line, character: 1 } },
+        context: { diagnostics: [], only: ["quickfix"] },
+      });
+      return actions.map((a: any) => a.title);
+    };
+    expect(await titles(5)).toEqual(["Add type annotation: model : T.Model"]);
+    expect(await titles(9)).toEqual(["Add type annotation: msg : Msg"]);
+
+    client.notify("textDocument/didClose", { textDocument: { uri } });
+  });
+});
+
+describe("organize imports", () => {
+  test("is offered as a source action when imports can be cleaned up", async () => {
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Organize.elm");
+    client.openFile(uri, "module Organize exposing (x)\n\nimport Types\nimport Helpers exposing (add)\n\n\nx =\n    add 1 2\n");
+    await Bun.sleep(300);
+
+    const range = { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } };
+    const actions = await client.request("textDocument/codeAction", {
+      textDocument: { uri },
+      range,
+      context: { diagnostics: [], only: ["source.organizeImports"] },
+    });
+    expect(actions.map((a: any) => a.kind)).toEqual(["source.organizeImports"]);
+    expect(actions[0].edit.changes[uri]).toEqual([
+      { range: { start: { line: 2, character: 0 }, end: { line: 3, character: 0 } }, newText: "" },
+    ]);
+
+    const quickfixes = await client.request("textDocument/codeAction", {
+      textDocument: { uri },
+      range,
+      context: { diagnostics: [], only: ["quickfix"] },
+    });
+    expect(quickfixes).toEqual([]);
+
+    client.notify("textDocument/didClose", { textDocument: { uri } });
+  });
+});
+
+describe("project diagnostics", () => {
+  // An Elm Land project whose `elm` binary replays report.json and records
+  // the files it was asked to compile
+  function fakeProject(): string {
+    const project = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "elm-land-diagnostics-")));
+    fs.writeFileSync(path.join(project, "elm-land.json"), "{}");
+    fs.writeFileSync(
+      path.join(project, "elm.json"),
+      JSON.stringify({ type: "application", "source-directories": ["src", ".elm-land/src"], "elm-version": "0.19.1" })
+    );
+    for (const [file, text] of [
+      [".elm-land/src/Main.elm", "module Main exposing (main)\n\nimport Pages.Home_\n\n\nmain =\n    Pages.Home_.page\n"],
+      ["src/Shared.elm", "module Shared exposing (Model)\n\n\ntype alias Model =\n    { count : Int }\n"],
+      ["src/Pages/Home_.elm", "module Pages.Home_ exposing (page)\n\nimport Shared\n\n\npage =\n    Shared.count\n"],
+      ["node_modules/.bin/elm", "#!/bin/sh\necho \"$@\" > args.txt\ncat report.json >&2\n"],
+    ]) {
+      fs.mkdirSync(path.dirname(path.join(project, file!)), { recursive: true });
+      fs.writeFileSync(path.join(project, file!), text!);
+    }
+    fs.chmodSync(path.join(project, "node_modules/.bin/elm"), 0o755);
+    return project;
+  }
+
+  test("compiles the generated Main and clears files that became clean", async () => {
+    const project = fakeProject();
+    const sharedUri = `file://${project}/src/Shared.elm`;
+    const homeUri = `file://${project}/src/Pages/Home_.elm`;
+    const elmDiagnostics = (uri: string) =>
+      client.notifications
+        .filter((n) => n.method === "textDocument/publishDiagnostics" && n.params.uri === uri)
+        .map((n) => n.params.diagnostics.filter((d: any) => d.source === "elm"));
+
+    fs.writeFileSync(path.join(project, "report.json"), JSON.stringify({
+      type: "compile-errors",
+      errors: [{
+        path: "src/Pages/Home_.elm",
+        name: "Pages.Home_",
+        problems: [{
+          title: "NAMING ERROR",
+          region: { start: { line: 7, column: 5 }, end: { line: 7, column: 17 } },
+          message: ["I cannot find a `Shared.count` variable."],
+        }],
+      }],
+    }));
+    client.openFile(sharedUri, fs.readFileSync(path.join(project, "src/Shared.elm"), "utf-8"));
+    await Bun.sleep(800);
+
+    const args = fs.readFileSync(path.join(project, "args.txt"), "utf-8");
+    expect(args).toContain(".elm-land/src/Main.elm");
+    expect(args).toContain("src/Shared.elm");
+    expect(elmDiagnostics(homeUri).at(-1)).toEqual([{
+      range: { start: { line: 6, character: 4 }, end: { line: 6, character: 16 } },
+      severity: 1,
+      source: "elm",
+      message: "-- NAMING ERROR --\n\nI cannot find a `Shared.count` variable.",
+      data: {
+        title: "NAMING ERROR",
+        region: { start: { line: 7, column: 5 }, end: { line: 7, column: 17 } },
+        message: ["I cannot find a `Shared.count` variable."],
+      },
+    }]);
+    expect(elmDiagnostics(sharedUri).at(-1)).toEqual([]);
+
+    fs.writeFileSync(path.join(project, "report.json"), "");
+    client.notify("textDocument/didSave", { textDocument: { uri: sharedUri } });
+    await Bun.sleep(800);
+    expect(elmDiagnostics(homeUri).at(-1)).toEqual([]);
+
+    client.notify("textDocument/didClose", { textDocument: { uri: sharedUri } });
+    fs.rmSync(project, { recursive: true, force: true });
+  });
+});
+
+describe("parse errors", () => {
+  test("are published on change and cleared once the code parses", async () => {
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Typing.elm");
+    const published = () =>
+      client.notifications
+        .filter((n) => n.method === "textDocument/publishDiagnostics" && n.params.uri === uri)
+        .map((n) => n.params.diagnostics);
+
+    client.openFile(uri, "module Typing exposing (x)\n\n\nx =\n    1\n");
+    await Bun.sleep(500);
+    expect(published().at(-1)).toEqual([]);
+
+    client.notify("textDocument/didChange", {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: "module Typing exposing (x)\n\n\nx =\n    1 +\n" }],
+    });
+    await Bun.sleep(500);
+    expect(published().at(-1)).toEqual([
+      {
+        range: { start: { line: 3, character: 0 }, end: { line: 4, character: 7 } },
+        severity: 1,
+        source: "elm-land-lsp",
+        message: "Could not parse Elm file: the problem is in this declaration",
+      },
+    ]);
+
+    client.notify("textDocument/didChange", {
+      textDocument: { uri, version: 3 },
+      contentChanges: [{ text: "module Typing exposing (x)\n\n\nx =\n    1 + 2\n" }],
+    });
+    await Bun.sleep(500);
+    expect(published().at(-1)).toEqual([]);
+
+    client.notify("textDocument/didClose", { textDocument: { uri } });
+  });
+});
+
+describe("unused code", () => {
+  test("is published as faded hints on open and on change", async () => {
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Dead.elm");
+    const published = () =>
+      client.notifications
+        .filter((n) => n.method === "textDocument/publishDiagnostics" && n.params.uri === uri)
+        .map((n) => n.params.diagnostics.filter((d: any) => d.source === "elm-land-lsp"));
+
+    client.openFile(uri, "module Dead exposing (x)\n\nimport Types\n\n\nx =\n    1\n");
+    await Bun.sleep(500);
+    expect(published().at(-1)).toEqual([
+      {
+        range: { start: { line: 2, character: 0 }, end: { line: 2, character: 12 } },
+        severity: 4,
+        source: "elm-land-lsp",
+        message: "Unused import `Types`",
+        tags: [1],
+      },
+    ]);
+
+    client.notify("textDocument/didChange", {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: "module Dead exposing (x)\n\n\nx =\n    1\n" }],
+    });
+    await Bun.sleep(500);
+    expect(published().at(-1)).toEqual([]);
+
+    client.notify("textDocument/didClose", { textDocument: { uri } });
+  });
+});
+
 describe("formatting", () => {
   test("formats valid Elm code", async () => {
     const uri = fixtureUri(SMALL_PROJECT, "src", "Helpers.elm");
@@ -324,6 +720,83 @@ x = Helpers.
     expect(result).toBeNull();
   });
 
+  test("completes unimported names with an import edit", async () => {
+    const source = [
+      "module AutoImport exposing (..)",
+      "",
+      "import Helpers exposing (add)",
+      "",
+      "",
+      "x =",
+      "    mul",
+      "",
+      "",
+      "y =",
+      "    defaultM",
+      "",
+      "",
+      "z =",
+      "    ad",
+      "",
+    ].join("\n");
+    const uri = fixtureUri(SMALL_PROJECT, "src", "AutoImport.elm");
+    client.openFile(uri, source);
+    await Bun.sleep(300);
+
+    const multiply = (await client.request("textDocument/completion", {
+      textDocument: { uri },
+      position: { line: 6, character: 7 },
+    })).find((c: any) => c.label === "multiply");
+    expect(multiply.labelDetails).toEqual({ description: "Helpers" });
+    expect(multiply.additionalTextEdits).toEqual([
+      { range: { start: { line: 2, character: 28 }, end: { line: 2, character: 28 } }, newText: ", multiply" },
+    ]);
+
+    const defaultModel = (await client.request("textDocument/completion", {
+      textDocument: { uri },
+      position: { line: 10, character: 12 },
+    })).find((c: any) => c.label === "defaultModel");
+    expect(defaultModel.additionalTextEdits[0].newText).toBe("import Types exposing (defaultModel)\n");
+
+    const add = (await client.request("textDocument/completion", {
+      textDocument: { uri },
+      position: { line: 14, character: 6 },
+    })).find((c: any) => c.label === "add");
+    expect(add.additionalTextEdits).toBeUndefined();
+  });
+
+  test("auto-imports only the constructors a module exposes", async () => {
+    const opaqueUri = fixtureUri(SMALL_PROJECT, "src", "Opaque.elm");
+    client.openFile(opaqueUri, [
+      "module Opaque exposing (Token, Shown(..))",
+      "",
+      "",
+      "type Token",
+      "    = Secret String",
+      "",
+      "",
+      "type Shown",
+      "    = Visible Int",
+      "",
+    ].join("\n"));
+    const uri = fixtureUri(SMALL_PROJECT, "src", "UsesOpaque.elm");
+    client.openFile(uri, "module UsesOpaque exposing (..)\n\n\nx =\n    Se\n\n\ny =\n    Vi\n");
+    await Bun.sleep(300);
+    const labels = async (line: number) =>
+      ((await client.request("textDocument/completion", {
+        textDocument: { uri },
+        position: { line, character: 6 },
+      })) ?? []).map((c: any) => c.label);
+
+    try {
+      expect(await labels(4)).not.toContain("Secret");
+      expect(await labels(8)).toContain("Visible");
+    } finally {
+      client.notify("textDocument/didClose", { textDocument: { uri } });
+      client.notify("textDocument/didClose", { textDocument: { uri: opaqueUri } });
+    }
+  });
+
   test("completes package module members", async () => {
     const source = `module Test exposing (..)
 
@@ -371,6 +844,425 @@ x = H.
   });
 });
 
+describe("signature help", () => {
+  const uri = fixtureUri(SMALL_PROJECT, "src", "Signature.elm");
+  const source = [
+    "module Signature exposing (x)",
+    "",
+    "import Helpers exposing (clamp)",
+    "",
+    "",
+    "{-| Wraps a value -}",
+    "wrap : (a -> b) -> Maybe (List a) -> b",
+    "wrap f m =",
+    "    Debug.todo \"wrap\"",
+    "",
+    "",
+    "x =",
+    "    Helpers.add 1 (clamp 0 10 5)",
+    "",
+  ];
+
+  test("highlights the argument the cursor is on", async () => {
+    client.openFile(uri, source.join("\n"));
+
+    const help = await client.request("textDocument/signatureHelp", {
+      textDocument: { uri },
+      position: { line: 12, character: 27 }, // on the `10`
+    });
+    expect(help.signatures).toEqual([
+      {
+        label: "clamp : Int -> Int -> Int -> Int",
+        parameters: [{ label: [8, 11] }, { label: [15, 18] }, { label: [22, 25] }],
+        activeParameter: 1,
+      },
+    ]);
+    expect(help.activeParameter).toBe(1);
+
+    const outer = await client.request("textDocument/signatureHelp", {
+      textDocument: { uri },
+      position: { line: 12, character: 16 }, // on the `1`
+    });
+    expect(outer.signatures[0].label).toBe("add : Int -> Int -> Int");
+    expect(outer.activeParameter).toBe(0);
+  });
+
+  test("works while the arguments don't parse yet", async () => {
+    const typing = [...source.slice(0, 12), "    wrap (", ""].join("\n");
+    client.notify("textDocument/didChange", {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: typing }],
+    });
+
+    const help = await client.request("textDocument/signatureHelp", {
+      textDocument: { uri },
+      position: { line: 12, character: 10 },
+    });
+    expect(help.signatures).toEqual([
+      {
+        label: "wrap : (a -> b) -> Maybe (List a) -> b",
+        documentation: { kind: "markdown", value: "{-| Wraps a value -}" },
+        parameters: [{ label: [7, 15] }, { label: [19, 33] }],
+        activeParameter: 0,
+      },
+    ]);
+
+    // A space after the last argument moves on to the next one
+    client.notify("textDocument/didChange", {
+      textDocument: { uri, version: 3 },
+      contentChanges: [{ text: [...source.slice(0, 12), "    Helpers.add 1 ", ""].join("\n") }],
+    });
+    const next = await client.request("textDocument/signatureHelp", {
+      textDocument: { uri },
+      position: { line: 12, character: 18 },
+    });
+    expect(next.signatures[0].label).toBe("add : Int -> Int -> Int");
+    expect(next.activeParameter).toBe(1);
+
+    client.notify("textDocument/didClose", { textDocument: { uri } });
+  });
+});
+
+describe("semantic tokens", () => {
+  const uri = fixtureUri(SMALL_PROJECT, "src", "Tokens.elm");
+  const source = [
+    "module Tokens exposing (view)",
+    "",
+    "import Helpers as H",
+    "import Types exposing (Msg(..))",
+    "",
+    "",
+    "{-| **Deprecated:** use `H.add` -}",
+    "old : Int -> Int",
+    "old n =",
+    "    n",
+    "",
+    "",
+    "view : { a | count : Int } -> Msg",
+    "view model =",
+    "    let",
+    "        total =",
+    "            H.add model.count (old 1)",
+    "    in",
+    "    case total of",
+    "        0 ->",
+    "            Increment",
+    "",
+    "        n ->",
+    "            SetName (Debug.toString n)",
+    "",
+    "",
+    "bump model =",
+    "    { model | count = model.count + 1, nested = { inner = old 2 } }",
+    "",
+  ];
+
+  // Decodes the relative encoding into [line, character, text, type, modifiers]
+  function decode(data: number[]) {
+    const tokens: [number, number, string, string, string[]][] = [];
+    let line = 0;
+    let character = 0;
+    for (let i = 0; i < data.length; i += 5) {
+      const [deltaLine, deltaStart, length, type, modifiers] = data.slice(i, i + 5) as number[];
+      line += deltaLine!;
+      character = deltaLine === 0 ? character + deltaStart! : deltaStart!;
+      tokens.push([
+        line,
+        character,
+        source[line]!.slice(character, character + length!),
+        legend.tokenTypes[type!]!,
+        legend.tokenModifiers.filter((_, bit) => modifiers! & (1 << bit)),
+      ]);
+    }
+    return tokens;
+  }
+
+  beforeAll(() => {
+    client.openFile(uri, source.join("\n"));
+  });
+
+  afterAll(() => {
+    client.notify("textDocument/didClose", { textDocument: { uri } });
+  });
+
+  test("classifies names by what they refer to", async () => {
+    const result = await client.request("textDocument/semanticTokens/full", { textDocument: { uri } });
+    const tokens = decode(result.data);
+
+    expect(tokens).toContainEqual([0, 7, "Tokens", "namespace", ["declaration"]]);
+    expect(tokens).toContainEqual([2, 18, "H", "namespace", ["declaration"]]);
+    expect(tokens).toContainEqual([7, 0, "old", "function", ["declaration", "deprecated"]]);
+    expect(tokens).toContainEqual([8, 4, "n", "parameter", ["declaration"]]);
+    expect(tokens).toContainEqual([12, 9, "a", "typeParameter", []]);
+    expect(tokens).toContainEqual([12, 13, "count", "property", []]);
+    expect(tokens).toContainEqual([12, 30, "Msg", "type", []]);
+    expect(tokens).toContainEqual([15, 8, "total", "variable", ["declaration"]]);
+    expect(tokens).toContainEqual([16, 12, "H", "namespace", []]);
+    expect(tokens).toContainEqual([16, 14, "add", "function", []]);
+    expect(tokens).toContainEqual([16, 18, "model", "parameter", []]);
+    expect(tokens).toContainEqual([16, 24, "count", "property", []]);
+    expect(tokens).toContainEqual([16, 31, "old", "function", ["deprecated"]]);
+    expect(tokens).toContainEqual([18, 9, "total", "variable", []]);
+    expect(tokens).toContainEqual([20, 12, "Increment", "enumMember", []]);
+    expect(tokens).toContainEqual([23, 12, "SetName", "enumMember", []]);
+    expect(tokens).toContainEqual([23, 36, "n", "parameter", []]);
+  });
+
+  test("classifies the fields of record updates", async () => {
+    const result = await client.request("textDocument/semanticTokens/full", { textDocument: { uri } });
+    expect(decode(result.data).filter(([line]) => line === 27)).toEqual([
+      [27, 6, "model", "parameter", []],
+      [27, 14, "count", "property", []],
+      [27, 22, "model", "parameter", []],
+      [27, 28, "count", "property", []],
+      [27, 39, "nested", "property", []],
+      [27, 50, "inner", "property", []],
+      [27, 58, "old", "function", ["deprecated"]],
+    ]);
+  });
+
+  test("returns only the lines in the requested range", async () => {
+    const result = await client.request("textDocument/semanticTokens/range", {
+      textDocument: { uri },
+      range: { start: { line: 7, character: 0 }, end: { line: 9, character: 5 } },
+    });
+    expect(decode(result.data).map(([line, , text]) => [line, text])).toEqual([
+      [7, "old"],
+      [7, "Int"],
+      [7, "Int"],
+      [8, "old"],
+      [8, "n"],
+      [9, "n"],
+    ]);
+  });
+});
+
+describe("inlay hints", () => {
+  const uri = fixtureUri(SMALL_PROJECT, "src", "Hints.elm");
+  const source = [
+    "module Hints exposing (total)",
+    "",
+    "",
+    "type Box",
+    "    = Box String String",
+    "",
+    "",
+    "box : String -> String -> Box",
+    "box label content =",
+    "    Box label content",
+    "",
+    "",
+    "total content =",
+    "    let",
+    "        boxed =",
+    "            box \"a\" content",
+    "",
+    "        ( first, second ) =",
+    "            ( boxed, \"two\" )",
+    "    in",
+    "    first",
+    "",
+  ];
+  const everything = { start: { line: 0, character: 0 }, end: { line: 21, character: 0 } };
+
+  test("shows let binding types and argument names", async () => {
+    client.openFile(uri, source.join("\n"));
+
+    const hints = await client.request("textDocument/inlayHint", { textDocument: { uri }, range: everything });
+    expect(hints).toEqual([
+      { position: { line: 14, character: 13 }, label: ": Box", kind: 1, paddingLeft: true },
+      { position: { line: 15, character: 16 }, label: "label:", kind: 2, tooltip: "label : String", paddingRight: true },
+      { position: { line: 17, character: 15 }, label: ": Box", kind: 1, paddingLeft: true },
+      { position: { line: 17, character: 23 }, label: ": String", kind: 1, paddingLeft: true },
+    ]);
+
+    // Only hints inside the requested range
+    const some = await client.request("textDocument/inlayHint", {
+      textDocument: { uri },
+      range: { start: { line: 15, character: 0 }, end: { line: 16, character: 0 } },
+    });
+    expect(some.map((h: any) => h.label)).toEqual(["label:"]);
+
+    client.notify("textDocument/didClose", { textDocument: { uri } });
+  });
+});
+
+describe("code lens", () => {
+  test("counts references lazily and flags exposed names nothing imports", async () => {
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Helpers.elm");
+    const text = fs.readFileSync(fixturePath(SMALL_PROJECT, "src", "Helpers.elm"), "utf-8");
+    client.openFile(uri, text);
+
+    const lenses = await client.request("textDocument/codeLens", { textDocument: { uri } });
+    expect(lenses.map((l: any) => l.range.start)).toEqual([
+      { line: 3, character: 0 },
+      { line: 8, character: 0 },
+      { line: 13, character: 0 },
+      { line: 25, character: 0 },
+    ]);
+    expect(lenses.every((l: any) => l.command === undefined)).toBe(true);
+
+    const add = await client.request("codeLens/resolve", lenses[0]);
+    // Other tests may leave modules importing `add` open too
+    const [refUri, position, locations] = add.command.arguments;
+    expect(add.command.title).toBe(`${locations.length} references`);
+    expect(add.command.command).toBe("editor.action.showReferences");
+    expect(refUri).toBe(uri);
+    expect(position).toEqual({ line: 3, character: 0 });
+    const main = fixtureUri(SMALL_PROJECT, "src", "Main.elm");
+    expect(locations.filter((l: any) => l.uri === main).map((l: any) => l.range.start)).toEqual([
+      { line: 3, character: 25 },
+      { line: 11, character: 32 },
+    ]);
+
+    const multiply = await client.request("codeLens/resolve", lenses[1]);
+    expect(multiply.command.title).toBe("0 references | exposed but not used by other modules");
+  });
+});
+
+describe("document highlight", () => {
+  const uri = fixtureUri(SMALL_PROJECT, "src", "Highlight.elm");
+  const source = [
+    "module Highlight exposing (view)",
+    "",
+    "",
+    "view : { count : Int } -> List Int",
+    "view model =",
+    "    let",
+    "        step =",
+    "            model.count",
+    "    in",
+    "    case List.map (\\n -> n + step) [ 1 ] of",
+    "        first :: _ ->",
+    "            [ first, .count { count = step } ]",
+    "",
+    "        [] ->",
+    "            view model",
+    "",
+  ];
+
+  async function highlights(line: number, character: number) {
+    const result = await client.request("textDocument/documentHighlight", {
+      textDocument: { uri },
+      position: { line, character },
+    });
+    return result.map((h: any) => [h.range.start.line, h.range.start.character, h.range.end.character, h.kind]);
+  }
+
+  beforeAll(() => {
+    client.openFile(uri, source.join("\n"));
+  });
+
+  afterAll(() => {
+    client.notify("textDocument/didClose", { textDocument: { uri } });
+  });
+
+  test("highlights arguments, let bindings and pattern names", async () => {
+    // `model`, from a use
+    expect(await highlights(7, 13)).toEqual([[4, 5, 10, 3], [7, 12, 17, 2], [14, 17, 22, 2]]);
+    // `step`, from its definition
+    expect(await highlights(6, 9)).toEqual([[6, 8, 12, 3], [9, 29, 33, 2], [11, 38, 42, 2]]);
+    // The lambda's `n`
+    expect(await highlights(9, 20)).toEqual([[9, 20, 21, 3], [9, 25, 26, 2]]);
+    // `first` from the case branch
+    expect(await highlights(11, 15)).toEqual([[10, 8, 13, 3], [11, 14, 19, 2]]);
+  });
+
+  test("highlights record fields and top-level names", async () => {
+    expect(await highlights(7, 19)).toEqual([[3, 9, 14, 3], [7, 18, 23, 2], [11, 22, 27, 2], [11, 30, 35, 3]]);
+    expect(await highlights(4, 1)).toEqual([[0, 27, 31, 2], [4, 0, 4, 3], [3, 0, 4, 3], [14, 12, 16, 2]]);
+  });
+});
+
+describe("parser status", () => {
+  test("reports the parser workers' health", async () => {
+    const status = await client.request("elm-land/parserStatus", {});
+    expect(status.workers).toBeGreaterThanOrEqual(1);
+    expect(status.parsed).toBeGreaterThan(0);
+    expect(status).toMatchObject({ crashes: 0, timeouts: 0 });
+  });
+});
+
+describe("AST cache status", () => {
+  test("reports hits from features sharing parses", async () => {
+    const status = await client.request("elm-land/astCacheStatus", {});
+    expect(status.entries).toBeGreaterThan(0);
+    expect(status.hits).toBeGreaterThan(0);
+    expect(status.bytes).toBeLessThanOrEqual(status.maxBytes);
+  });
+});
+
+describe("broken code", () => {
+  const uri = fixtureUri(SMALL_PROJECT, "src", "Recovering.elm");
+  const text = [
+    "module Recovering exposing (..)",
+    "",
+    "import Helpers exposing (add)",
+    "",
+    "",
+    "total : Int",
+    "total =",
+    "    add 1 2",
+    "",
+    "",
+    "broken =",
+    "    (1 + dou",
+    "",
+    "",
+    "double n =",
+    "    total * n",
+    "",
+  ].join("\n");
+
+  beforeAll(async () => {
+    client.openFile(uri, text);
+    await Bun.sleep(500);
+  });
+
+  afterAll(() => {
+    client.notify("textDocument/didClose", { textDocument: { uri } });
+  });
+
+  test("hovers names in declarations that still parse", async () => {
+    const result = await client.request("textDocument/hover", {
+      textDocument: { uri },
+      position: { line: 7, character: 4 },
+    });
+    expect(result?.contents.value).toContain("add");
+  });
+
+  test("goes to definitions in declarations that still parse", async () => {
+    const result = await client.request("textDocument/definition", {
+      textDocument: { uri },
+      position: { line: 15, character: 4 },
+    });
+    expect(result).toMatchObject({ uri, range: { start: { line: 5, character: 0 } } });
+  });
+
+  test("completes the module's own declarations", async () => {
+    const result = await client.request("textDocument/completion", {
+      textDocument: { uri },
+      position: { line: 11, character: 12 },
+    });
+    expect(result?.map((item: { label: string }) => item.label)).toContain("double");
+  });
+
+  test("doesn't rename while the module doesn't parse", async () => {
+    const prepared = await client.request("textDocument/prepareRename", {
+      textDocument: { uri },
+      position: { line: 6, character: 0 },
+    });
+    expect(prepared).toBeNull();
+
+    const result = await client.request("textDocument/rename", {
+      textDocument: { uri },
+      position: { line: 6, character: 0 },
+      newName: "sum",
+    });
+    expect(result).toBeNull();
+  });
+});
+
 describe("hover", () => {
   test("shows type info for local function in import", async () => {
     const uri = fixtureUri(SMALL_PROJECT, "src", "Main.elm");
@@ -421,6 +1313,30 @@ describe("hover", () => {
 
     expect(result).toBeNull();
   });
+
+  test("shows inferred types for unannotated functions and local bindings", async () => {
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Inferred.elm");
+    client.openFile(
+      uri,
+      "module Inferred exposing (..)\n\n\nwrap x =\n    [ x ]\n\n\nlabels =\n    let\n        pair = ( \"a\", 'b' )\n    in\n    wrap pair\n"
+    );
+    await Bun.sleep(300);
+
+    const onWrap = await client.request("textDocument/hover", {
+      textDocument: { uri },
+      position: { line: 3, character: 1 },
+    });
+    expect(onWrap.contents.value).toContain("wrap : a -> List a");
+
+    const onPair = await client.request("textDocument/hover", {
+      textDocument: { uri },
+      position: { line: 11, character: 10 },
+    });
+    expect(onPair.contents.value).toContain("pair : ( String, Char )");
+    expect(onPair.range).toEqual({ start: { line: 11, character: 9 }, end: { line: 11, character: 13 } });
+
+    client.notify("textDocument/didClose", { textDocument: { uri } });
+  });
 });
 
 describe("references", () => {
@@ -444,6 +1360,26 @@ describe("references", () => {
     expect(result.length).toBeGreaterThanOrEqual(1);
   });
 
+  test("includes modules that only exist as open documents", async () => {
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Main.elm");
+    const extraUri = fixtureUri(SMALL_PROJECT, "src", "Extra.elm");
+    client.openFile(extraUri, "module Extra exposing (three)\n\nimport Helpers\n\n\nthree =\n    Helpers.add 1 2\n");
+    await Bun.sleep(300);
+
+    const params = {
+      textDocument: { uri },
+      position: { line: 3, character: 26 },
+      context: { includeDeclaration: true },
+    };
+    const withExtra = await client.request("textDocument/references", params);
+    expect(withExtra.some((r: any) => r.uri === extraUri)).toBe(true);
+
+    client.notify("textDocument/didClose", { textDocument: { uri: extraUri } });
+    await Bun.sleep(100);
+    const withoutExtra = await client.request("textDocument/references", params);
+    expect(withoutExtra.some((r: any) => r.uri === extraUri)).toBe(false);
+  });
+
   test("returns empty for unknown position", async () => {
     const uri = fixtureUri(SMALL_PROJECT, "src", "Main.elm");
     const text = fs.readFileSync(fixturePath(SMALL_PROJECT, "src", "Main.elm"), "utf-8");
@@ -461,6 +1397,73 @@ describe("references", () => {
   });
 });
 
+describe("request dispatching", () => {
+  test("unknown methods answer with MethodNotFound", async () => {
+    const result = await client.request("elm/doesNotExist", {});
+    expect(result.code).toBe(-32601);
+  });
+
+  test("$/cancelRequest answers an in-flight request with RequestCancelled", async () => {
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Main.elm");
+    const text = fs.readFileSync(fixturePath(SMALL_PROJECT, "src", "Main.elm"), "utf-8");
+    client.openFile(uri, text);
+
+    const { id, response } = client.startRequest("textDocument/references", {
+      textDocument: { uri },
+      position: { line: 3, character: 26 },
+      context: { includeDeclaration: true },
+    });
+    client.notify("$/cancelRequest", { id });
+
+    const result = await response;
+    expect(result.code).toBe(-32800);
+  });
+
+  test("requests after a cancellation still succeed", async () => {
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Main.elm");
+    const result = await client.request("textDocument/references", {
+      textDocument: { uri },
+      position: { line: 3, character: 26 },
+      context: { includeDeclaration: true },
+    });
+    expect(Array.isArray(result)).toBe(true);
+    expect(result.length).toBeGreaterThanOrEqual(1);
+  });
+});
+
+describe("watched files", () => {
+  test("registers watchers for Elm sources and project files", () => {
+    const registration = client.serverRequests.find((r) => r.method === "client/registerCapability");
+    expect(registration).toBeDefined();
+    const watchers = registration!.params.registrations[0].registerOptions.watchers;
+    expect(watchers.map((w: any) => w.globPattern)).toEqual(["**/*.elm", "**/elm.json", "**/elm-land.json"]);
+  });
+
+  test("files created and deleted on disk show up in references", async () => {
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Main.elm");
+    const watchedPath = fixturePath(SMALL_PROJECT, "src", "Watched.elm");
+    const watchedUri = fixtureUri(SMALL_PROJECT, "src", "Watched.elm");
+    const params = {
+      textDocument: { uri },
+      position: { line: 3, character: 26 },
+      context: { includeDeclaration: true },
+    };
+
+    try {
+      fs.writeFileSync(watchedPath, "module Watched exposing (four)\n\nimport Helpers\n\n\nfour =\n    Helpers.add 2 2\n");
+      client.notify("workspace/didChangeWatchedFiles", { changes: [{ uri: watchedUri, type: 1 }] });
+      const created = await client.request("textDocument/references", params);
+      expect(created.some((r: any) => r.uri === watchedUri)).toBe(true);
+    } finally {
+      fs.rmSync(watchedPath, { force: true });
+    }
+
+    client.notify("workspace/didChangeWatchedFiles", { changes: [{ uri: watchedUri, type: 3 }] });
+    const deleted = await client.request("textDocument/references", params);
+    expect(deleted.some((r: any) => r.uri === watchedUri)).toBe(false);
+  });
+});
+
 describe("rename", () => {
   test("prepareRename returns range and placeholder", async () => {
     const uri = fixtureUri(SMALL_PROJECT, "src", "Helpers.elm");
@@ -502,4 +1505,55 @@ describe("rename", () => {
       }
     }
   });
+
+  test("edits qualified and exposed names up to their last character", async () => {
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Main.elm");
+    client.openFile(uri, fs.readFileSync(fixturePath(SMALL_PROJECT, "src", "Main.elm"), "utf-8"));
+    const usesUri = fixtureUri(SMALL_PROJECT, "src", "Qualified.elm");
+    client.openFile(usesUri, "module Qualified exposing (three)\n\nimport Helpers exposing (add)\n\n\nthree =\n    Helpers.add 1 (add 2 3)\n");
+    await Bun.sleep(300);
+
+    try {
+      const result = await client.request("textDocument/rename", {
+        textDocument: { uri },
+        position: { line: 3, character: 26 },
+        newName: "plus",
+      });
+      const ranges = result.changes[usesUri]
+        .map((edit: any) => edit.range)
+        .sort((a: any, b: any) => a.start.line - b.start.line || a.start.character - b.start.character);
+      // Elm ranges end one past the last character, like LSP ones
+      expect(ranges).toEqual([
+        { start: { line: 2, character: 25 }, end: { line: 2, character: 28 } },
+        { start: { line: 6, character: 12 }, end: { line: 6, character: 15 } },
+        { start: { line: 6, character: 19 }, end: { line: 6, character: 22 } },
+      ]);
+    } finally {
+      client.notify("textDocument/didClose", { textDocument: { uri: usesUri } });
+    }
+  });
+
+  test("doesn't rename while a file referring to the symbol doesn't parse", async () => {
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Helpers.elm");
+    const text = fs.readFileSync(fixturePath(SMALL_PROJECT, "src", "Helpers.elm"), "utf-8");
+    client.openFile(uri, text);
+    const brokenPath = fixturePath(SMALL_PROJECT, "src", "Broken.elm");
+    const brokenUri = fixtureUri(SMALL_PROJECT, "src", "Broken.elm");
+    const params = { textDocument: { uri }, position: { line: 3, character: 0 }, newName: "addNumbers" };
+
+    try {
+      fs.writeFileSync(brokenPath, "module Broken exposing (four)\n\nimport Helpers\n\n\nfour =\n    Helpers.add 2 2\n");
+      client.notify("workspace/didChangeWatchedFiles", { changes: [{ uri: brokenUri, type: 1 }] });
+      const before = await client.request("textDocument/rename", params);
+      expect(Object.keys(before.changes)).toContain(brokenUri);
+
+      // The last good index of Broken.elm has ranges that no longer match
+      fs.writeFileSync(brokenPath, "module Broken exposing (four)\n\nimport Helpers\n\n\n\nfour =\n    Helpers.add 2 (\n");
+      client.notify("workspace/didChangeWatchedFiles", { changes: [{ uri: brokenUri, type: 2 }] });
+      expect(await client.request("textDocument/rename", params)).toBeNull();
+    } finally {
+      fs.rmSync(brokenPath, { force: true });
+      client.notify("workspace/didChangeWatchedFiles", { changes: [{ uri: brokenUri, type: 3 }] });
+    }
+  });
 });
@@ -0,0 +1,82 @@
+import { describe, test, expect } from "bun:test";
+import * as path from "path";
+import { parse } from "../src/elm-ast/bridge";
+import { findElmJsonFor } from "../src/project/elm-json";
+import { organizeImports } from "../src/features/organize-imports";
+import type { TextEdit } from "../src/protocol/messages";
+import { SMALL_PROJECT } from "./helpers";
+
+async function organize(source: string): Promise<{ edits: TextEdit[]; result: string }> {
+  const elmJson = (await findElmJsonFor(path.join(SMALL_PROJECT, "src", "Main.elm")))!;
+  const edits = await organizeImports((await parse(source))!, source, elmJson);
+  return { edits, result: applyEdits(source, edits) };
+}
+
+// Edits from organizeImports cover whole lines and don't overlap
+function applyEdits(source: string, edits: TextEdit[]): string {
+  const lines = source.split("\n");
+  for (const edit of [...edits].reverse()) {
+    const inserted = edit.newText === "" ? [] : edit.newText.replace(/\n$/, "").split("\n");
+    lines.splice(edit.range.start.line, edit.range.end.line - edit.range.start.line, ...inserted);
+  }
+  return lines.join("\n");
+}
+
+const body = ["", "", "x : Model -> Int", "x m =", "    add (multiply 1 2) m.count", ""];
+
+describe("organize imports", () => {
+  test("removes, merges and sorts imports", async () => {
+    const source = [
+      "module Org exposing (..)",
+      "",
+      "import Types exposing (Msg(..), Model)",
+      "import Helpers exposing (add, greet)",
+      "import Html",
+      "import Helpers exposing (multiply)",
+      "import Unused",
+      ...body,
+    ].join("\n");
+
+    const { result } = await organize(source);
+    expect(result).toBe([
+      "module Org exposing (..)",
+      "",
+      "import Helpers exposing (add, multiply)",
+      "import Types exposing (Model)",
+      ...body,
+    ].join("\n"));
+  });
+
+  test("keeps qualified imports and exposed constructors that are used", async () => {
+    const source = [
+      "module Org exposing (..)",
+      "",
+      "import Helpers as H",
+      "import Types exposing (Msg(..))",
+      "",
+      "",
+      "x =",
+      "    H.add 1 (if Increment == Decrement then 1 else 2)",
+      "",
+    ].join("\n");
+    expect((await organize(source)).edits).toEqual([]);
+  });
+
+  test("only touches the lines that change", async () => {
+    const source = [
+      "module Org exposing (..)",
+      "",
+      "import Helpers exposing (add, multiply)",
+      "-- for the Model type",
+      "import Types exposing (Model)",
+      "import Unused",
+      ...body,
+    ].join("\n");
+
+    const { edits, result } = await organize(source);
+    expect(edits).toEqual([
+      { range: { start: { line: 5, character: 0 }, end: { line: 6, character: 0 } }, newText: "" },
+    ]);
+    expect(result).toContain("-- for the Model type\nimport Types exposing (Model)\n\n");
+  });
+});
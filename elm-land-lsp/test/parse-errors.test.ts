@@ -0,0 +1,70 @@
+import { describe, test, expect } from "bun:test";
+import { locateParseError } from "../src/features/parse-errors";
+
+async function locate(lines: string[]) {
+  return locateParseError(lines.join("\n"), "Could not parse Elm file");
+}
+
+describe("parse errors", () => {
+  test("points at the declaration that doesn't parse", async () => {
+    const error = await locate([
+      "module Broken exposing (..)",
+      "",
+      "import Html",
+      "",
+      "",
+      "{-| Adds one -}",
+      "inc : Int -> Int",
+      "inc n =",
+      "    n + 1",
+      "",
+      "",
+      "broken =",
+      "    (1 +",
+      "",
+      "",
+      "after : Int",
+      "after =",
+      "    2",
+      "",
+    ]);
+    expect(error).toEqual({
+      range: { start: { line: 11, character: 0 }, end: { line: 12, character: 8 } },
+      message: "Could not parse Elm file: the problem is in this declaration",
+    });
+  });
+
+  test("keeps a signature and its comments with the definition", async () => {
+    const error = await locate([
+      "module Broken exposing (..)",
+      "",
+      "",
+      "-- The answer",
+      "answer : Int",
+      "answer =",
+      "    42 +",
+      "",
+    ]);
+    expect(error?.range).toEqual({ start: { line: 3, character: 0 }, end: { line: 6, character: 8 } });
+  });
+
+  test("recognises broken imports", async () => {
+    const error = await locate([
+      "module Broken exposing (..)",
+      "",
+      "import Html exposing (",
+      "import Json.Decode",
+      "",
+      "",
+      "x = 1",
+      "",
+    ]);
+    expect(error?.range).toEqual({ start: { line: 2, character: 0 }, end: { line: 2, character: 22 } });
+    expect(error?.message).toContain("this import");
+  });
+
+  test("gives up once a newer version comes along", async () => {
+    const text = "module Broken exposing (..)\n\n\none = (\n\n\ntwo = 2\n";
+    expect(await locateParseError(text, "Could not parse Elm file", {}, () => true)).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, test, expect } from "bun:test";
+import * as path from "path";
+import { configureParser } from "../src/elm-ast/bridge";
+import { findElmJsonFor } from "../src/project/elm-json";
+import { documentStore } from "../src/state/document-store";
+import { projectIndex } from "../src/state/project-index";
+import { SMALL_PROJECT, fixtureUri } from "./helpers";
+
+async function smallProjectJson() {
+  return (await findElmJsonFor(path.join(SMALL_PROJECT, "src", "Main.elm")))!;
+}
+
+describe("project index", () => {
+  test("indexes every module in the source directories", async () => {
+    const modules = await projectIndex.modules(await smallProjectJson());
+    const names = modules.map((m) => m.moduleName);
+    expect(names).toContain("Main");
+    expect(names).toContain("Helpers");
+    expect(names).toContain("Types");
+    expect(projectIndex.indexedProjects().map((p) => p.projectFolder)).toContain(SMALL_PROJECT);
+  });
+
+  test("records declarations, exports and imports", async () => {
+    const helpers = (await projectIndex.getModule("Helpers", await smallProjectJson()))!;
+    expect(helpers.uri).toBe(fixtureUri(SMALL_PROJECT, "src", "Helpers.elm"));
+    expect(helpers.declarations.map((d) => d.name)).toEqual(["add", "multiply", "greet", "clamp"]);
+    expect(helpers.exports).toEqual(["add", "multiply", "greet", "clamp"]);
+    // Name range of `add`, 1-based
+    expect(helpers.declarations[0]!.range).toEqual([5, 1, 5, 4]);
+
+    const main = (await projectIndex.getModule("Main", await smallProjectJson()))!;
+    expect(main.imports).toEqual(["Html", "Helpers", "Types"]);
+  });
+
+  test("records reference sites with their qualifiers", async () => {
+    const main = (await projectIndex.getModule("Main", await smallProjectJson()))!;
+    const greet = main.references.filter((r) => r.name === "greet");
+    // `import Helpers exposing (add, greet)` and the call in `main`
+    expect(greet).toHaveLength(2);
+    expect(main.references).toContainEqual(
+      expect.objectContaining({ name: "fromInt", qualifier: "String" })
+    );
+    expect(main.references).toContainEqual(
+      expect.objectContaining({ name: "Increment", qualifier: "" })
+    );
+  });
+
+  test("picks up unsaved edits after invalidate", async () => {
+    const elmJson = await smallProjectJson();
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Helpers.elm");
+    documentStore.open(uri, "module Helpers exposing (add)\n\n\nadd a b =\n    a + b\n", 1);
+    projectIndex.invalidate(uri);
+    expect((await projectIndex.getModule("Helpers", elmJson))!.exports).toEqual(["add"]);
+
+    documentStore.close(uri);
+    projectIndex.invalidate(uri);
+    expect((await projectIndex.getModule("Helpers", elmJson))!.exports).toHaveLength(4);
+  });
+
+  test("indexes a module again after the parser crashes on it", async () => {
+    const elmJson = await smallProjectJson();
+    await projectIndex.modules(elmJson);
+    const uri = fixtureUri(SMALL_PROJECT, "src", "Slow.elm");
+    // Takes far longer than the shortest timeout to parse
+    const slow = "module Slow exposing (..)\n\n\n" + Array.from({ length: 2000 }, (_, i) => `f${i} a b =\n    [ a, b, a + b ]\n`).join("\n");
+    documentStore.open(uri, slow, 1);
+    try {
+      configureParser({ timeoutMs: 0 });
+      projectIndex.invalidate(uri);
+      expect(await projectIndex.getModule("Slow", elmJson)).toBeUndefined();
+
+      configureParser({ timeoutMs: 10_000 });
+      expect(await projectIndex.getModule("Slow", elmJson)).toBeDefined();
+    } finally {
+      configureParser({ timeoutMs: 10_000 });
+      documentStore.close(uri);
+      projectIndex.invalidate(uri);
+    }
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, test, expect } from "bun:test";
+import { parse } from "../src/elm-ast/bridge";
+import { recoverAst } from "../src/elm-ast/recover";
+import { toModuleName, toDeclarationName } from "../src/elm-ast/types";
+
+const names = (ast: { declarations: any[] }) => ast.declarations.map((d) => toDeclarationName(d.value));
+
+describe("parse recovery", () => {
+  test("keeps the declarations that parse, at their own lines", async () => {
+    const ast = await recoverAst(
+      [
+        "module Broken exposing (..)",
+        "",
+        "import Html",
+        "",
+        "",
+        "inc : Int -> Int",
+        "inc n =",
+        "    n + 1",
+        "",
+        "",
+        "broken =",
+        "    (1 +",
+        "",
+        "",
+        "port send : String -> Cmd msg",
+        "",
+        "",
+        "after =",
+        "    2",
+        "",
+      ].join("\n"),
+      undefined
+    );
+    expect(ast).not.toBeUndefined();
+    expect(toModuleName(ast!)).toBe("Broken");
+    expect(ast!.imports.map((imp) => imp.value.moduleName.value.join("."))).toEqual(["Html"]);
+    expect(names(ast!)).toEqual(["inc", "send", "after"]);
+    expect(ast!.declarations[2]!.range[0]).toBe(18);
+  });
+
+  test("skips every chunk that doesn't parse", async () => {
+    const ast = await recoverAst(
+      ["module Broken exposing (..)", "", "import", "", "one = (", "", "two = 2", "", "three = )", "", "four = 4", ""].join("\n"),
+      undefined
+    );
+    expect(ast!.imports).toEqual([]);
+    expect(names(ast!)).toEqual(["two", "four"]);
+  });
+
+  test("takes the module line from the last good version", async () => {
+    const text = "module Good exposing (one)\n\none = 1\n";
+    const lastGood = { text, ast: (await parse(text))! };
+    const ast = await recoverAst("module Good exposing (one,\n\none = 1\n", lastGood);
+    expect(toModuleName(ast!)).toBe("Good");
+    expect(names(ast!)).toEqual(["one"]);
+
+    expect(await recoverAst("module Good exposing (one,\n\none = 1\n", undefined)).toBeUndefined();
+  });
+
+  test("keeps unchanged chunks that don't parse alone from the last good version", async () => {
+    // The string's lines in the first column split `banner` into chunks
+    const banner = ["banner =", '    """', "Hello", "World", '"""', ""];
+    const text = ["module Banner exposing (..)", "", "", ...banner, "", "one = 1", ""].join("\n");
+    const lastGood = { text, ast: (await parse(text))! };
+    expect(names(lastGood.ast)).toEqual(["banner", "one"]);
+
+    const edited = ["module Banner exposing (..)", "", "", "broken = (", "", "", ...banner, "", "one = 1", ""].join("\n");
+    const ast = await recoverAst(edited, lastGood);
+    expect(names(ast!)).toEqual(["banner", "one"]);
+    expect(ast!.declarations[0]!.range[0]).toBe(7);
+    expect(ast!.declarations[1]!.range[0]).toBe(14);
+
+    // Declarations with a chunk that changed are the ones being edited
+    const split = ["module Total exposing (..)", "", "", "two = 2", "", "", "total =", "-- a comment splits it", "    1", ""].join("\n");
+    const before = { text: split, ast: (await parse(split))! };
+    expect(names((await recoverAst(split.replace("    1", "    (1"), before))!)).toEqual(["two"]);
+  });
+
+  test("gives up once a newer version comes along", async () => {
+    const text = "module Broken exposing (..)\n\none = (\n\ntwo = 2\n";
+    expect(await recoverAst(text, undefined, {}, () => true)).toBeUndefined();
+  });
+});
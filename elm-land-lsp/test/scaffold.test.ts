@@ -0,0 +1,69 @@
+import { describe, test, expect } from "bun:test";
+import * as path from "path";
+import { findElmJsonFor } from "../src/project/elm-json";
+import {
+  moduleNameToFilePath,
+  pageTemplate,
+  scaffoldLayout,
+  scaffoldPage,
+  scaffoldShared,
+} from "../src/features/scaffold";
+import { ELM_LAND_PROJECT, fixtureUri } from "./helpers";
+
+async function elmLandJson() {
+  return (await findElmJsonFor(path.join(ELM_LAND_PROJECT, "src", "View.elm")))!;
+}
+
+describe("page templates", () => {
+  test("static pages take route params directly", () => {
+    expect(pageTemplate("Pages.About", "static")).toContain("page : View msg\npage =\n");
+    expect(pageTemplate("Pages.Blog.Slug_", "static")).toContain(
+      "page : { slug : String } -> View msg\npage params =\n"
+    );
+  });
+
+  test("sandbox and element pages use the Route form only when they have params", () => {
+    expect(pageTemplate("Pages.About", "sandbox")).toContain("page : Page Model Msg\n");
+    expect(pageTemplate("Pages.About", "sandbox")).not.toContain("import Route");
+    const element = pageTemplate("Pages.Docs.ALL_", "element");
+    expect(element).toContain("page : Shared.Model -> Route { all_ : List String } -> Page Model Msg\n");
+    expect(element).toContain("import Route exposing (Route)");
+    expect(element).toContain("Page.element");
+  });
+
+  test("new pages always take Shared.Model and Route", () => {
+    const text = pageTemplate("Pages.About", "new");
+    expect(text).toContain("page : Shared.Model -> Route () -> Page Model Msg\n");
+    expect(text).toContain("import Effect exposing (Effect)");
+    expect(text).toStartWith("module Pages.About exposing (Model, Msg, page)\n");
+  });
+});
+
+describe("scaffold edits", () => {
+  test("creates the page file and inserts its contents", async () => {
+    const elmJson = await elmLandJson();
+    const edit = scaffoldPage("Pages.About", "static", elmJson);
+    const uri = fixtureUri(ELM_LAND_PROJECT, "src", "Pages", "About.elm");
+    expect(edit.documentChanges).toHaveLength(2);
+    expect(edit.documentChanges![0]).toEqual({ kind: "create", uri, options: { ignoreIfExists: true } });
+    expect((edit.documentChanges![1] as any).textDocument).toEqual({ uri, version: null });
+    expect((edit.documentChanges![1] as any).edits[0].newText).toStartWith("module Pages.About exposing (page)");
+  });
+
+  test("skips files that already exist", async () => {
+    const elmJson = await elmLandJson();
+    expect(scaffoldPage("Pages.Home_", "static", elmJson).documentChanges).toEqual([]);
+  });
+
+  test("layouts and Shared go under the project's src folder", async () => {
+    const elmJson = await elmLandJson();
+    expect(moduleNameToFilePath("Layouts.Sidebar", elmJson)).toBe(
+      path.join(ELM_LAND_PROJECT, "src", "Layouts", "Sidebar.elm")
+    );
+    const layout = scaffoldLayout("Layouts.Sidebar", elmJson);
+    expect((layout.documentChanges![1] as any).edits[0].newText).toContain("module Layouts.Sidebar exposing");
+
+    const shared = scaffoldShared(elmJson).documentChanges!.filter((c: any) => c.kind === "create");
+    expect(shared.map((c: any) => path.basename(c.uri)).sort()).toEqual(["Model.elm", "Msg.elm", "Shared.elm"]);
+  });
+});
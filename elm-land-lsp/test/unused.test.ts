@@ -0,0 +1,80 @@
+import { describe, test, expect } from "bun:test";
+import * as path from "path";
+import { parse } from "../src/elm-ast/bridge";
+import { findElmJsonFor } from "../src/project/elm-json";
+import { findUnusedCode } from "../src/features/unused";
+import { SMALL_PROJECT } from "./helpers";
+
+async function unused(lines: string[]): Promise<string[]> {
+  const elmJson = (await findElmJsonFor(path.join(SMALL_PROJECT, "src", "Main.elm")))!;
+  const found = await findUnusedCode((await parse(lines.join("\n")))!, elmJson);
+  return found.map((u) => `${u.kind} ${u.name} ${u.range[0]}:${u.range[1]}`);
+}
+
+describe("unused code", () => {
+  test("reports unused imports and exposed names", async () => {
+    const result = await unused([
+      "module Dead exposing (x)",
+      "",
+      "import Helpers exposing (add, greet)",
+      "import Types",
+      "",
+      "",
+      "x =",
+      "    add 1 2",
+      "",
+    ]);
+    expect(result).toEqual(["exposing greet 3:31", "import Types 4:1"]);
+  });
+
+  test("reports values, let bindings and pattern variables nobody uses", async () => {
+    const result = await unused([
+      "module Dead exposing (x)",
+      "",
+      "",
+      "x : Int -> ( Int, Int ) -> Int",
+      "x a ( b, c ) =",
+      "    let",
+      "        used = a + b",
+      "        unusedLet = 2",
+      "    in",
+      "    used",
+      "",
+      "",
+      "helper : Int -> Int",
+      "helper n =",
+      "    helper (n - 1)",
+      "",
+    ]);
+    // Recursive calls don't count as uses
+    expect(result.sort()).toEqual(["let unusedLet 8:9", "pattern c 5:10", "value helper 14:1"]);
+  });
+
+  test("reports variants of private types that are never constructed", async () => {
+    const result = await unused([
+      "module Dead exposing (Msg, Shape(..), x)",
+      "",
+      "",
+      "type Msg",
+      "    = Used",
+      "    | Unused",
+      "",
+      "",
+      "type Shape",
+      "    = Circle",
+      "",
+      "",
+      "x : Msg -> Int",
+      "x msg =",
+      "    case msg of",
+      "        Used -> 1",
+      "        Unused -> 2",
+      "",
+      "",
+      "y =",
+      "    x Used",
+      "",
+    ]);
+    expect(result).toEqual(["value y 20:1", "constructor Unused 6:7"]);
+  });
+});